@@ -0,0 +1,15 @@
+/**
+ * Thrown when a value cannot be encoded to CBOR or when bytes are not
+ * well-formed CBOR (or do not hold a CBOR map).
+ */
+export class CborError extends Error {
+  /**
+   * Creates a new CBOR error.
+   *
+   * @param message - A description of the problem
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'CborError';
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * A CBOR tagged data item (major type 6).
+ *
+ * Tags the codec does not interpret natively are decoded to `CborTag`
+ * instances, and any `CborTag` value is encoded as its tag number followed by
+ * its content, so unknown tags survive a decode/encode round trip.
+ *
+ * @typeParam T - The type of the tagged content.
+ *
+ * @example
+ * ```ts
+ * // COSE_Sign1 is tag 18
+ * encode(new Map([[1, new CborTag(18, [protectedBytes, unprotected, payload, signature])]]));
+ * ```
+ */
+export class CborTag<T = unknown> {
+  /**
+   * Creates a new tagged item.
+   *
+   * @param tag - The tag number (a non-negative integer)
+   * @param value - The tagged content
+   */
+  constructor(
+    readonly tag: number | bigint,
+    readonly value: T,
+  ) {}
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { decode } from '../decode';
+import { encode } from '../encode';
+import { CborTag } from '../CborTag';
+import { CborError } from '../CborError';
+import { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+import { ImmutableExactKeyMap } from '@/exact-key-map/ImmutableExactKeyMap';
+import { defineSchema } from '@/schema/Schema';
+import { SchemaValidationError } from '@/schema/SchemaValidationError';
+import { isNumber, isString, isUint8Array } from '@/schema/validators';
+import { Es } from '@/types/Es';
+
+const fromHex = (hex: string): Uint8Array =>
+  Uint8Array.from(hex.match(/../g) ?? [], (byte) => parseInt(byte, 16));
+
+const decodeValue = (hex: string): unknown =>
+  decode(fromHex('a100' + hex)).get(0);
+
+enum Headers {
+  Algorithm = 1,
+  KeyID = 4,
+}
+
+describe('decode', () => {
+  it('decodes a CBOR map into an ExactKeyMap', () => {
+    const map = decode(fromHex('a201260442aabb'));
+
+    expect(map).toBeInstanceOf(ExactKeyMap);
+    expect(map.get(Headers.Algorithm)).toBe(-7);
+    expect(map.get(Headers.KeyID)).toEqual(new Uint8Array([0xaa, 0xbb]));
+  });
+
+  it('types the result from explicit generics', () => {
+    type Entries = Es<
+      [Headers.Algorithm, number] | [Headers.KeyID, Uint8Array]
+    >;
+    const map = decode<Entries>(fromHex('a10126'));
+
+    expectTypeOf(map.get(Headers.Algorithm)).toEqualTypeOf<
+      number | undefined
+    >();
+  });
+
+  it('rebuilds nested CBOR maps as nested ExactKeyMaps', () => {
+    type Entries = Es<['a', Es<['b', number]>]>;
+    const map = decode<Entries>(fromHex('a16161a1616201'));
+
+    const nested = map.get('a');
+    expect(nested).toBeInstanceOf(ExactKeyMap);
+    expect(nested?.get('b')).toBe(1);
+  });
+
+  it('keeps arrays of pairs as arrays', () => {
+    expect(decodeValue('81820102')).toEqual([[1, 2]]);
+  });
+
+  it('decodes integers, bigints and bignums', () => {
+    expect(decodeValue('1818')).toBe(24);
+    expect(decodeValue('3903e7')).toBe(-1000);
+    expect(decodeValue('1b001fffffffffffff')).toBe(Number.MAX_SAFE_INTEGER);
+    expect(decodeValue('1bffffffffffffffff')).toBe(18446744073709551615n);
+    expect(decodeValue('3bffffffffffffffff')).toBe(-18446744073709551616n);
+    expect(decodeValue('c249010000000000000000')).toBe(18446744073709551616n);
+    expect(decodeValue('c349010000000000000000')).toBe(-18446744073709551617n);
+  });
+
+  it('decodes floats of every precision', () => {
+    expect(decodeValue('f93e00')).toBe(1.5);
+    expect(decodeValue('fa47c35000')).toBe(100000);
+    expect(decodeValue('fb3ff199999999999a')).toBe(1.1);
+    expect(decodeValue('f97e00')).toBeNaN();
+  });
+
+  it('decodes strings, byte strings and simple values', () => {
+    expect(decodeValue('62c3bc')).toBe('ü');
+    expect(decodeValue('4401020304')).toEqual(new Uint8Array([1, 2, 3, 4]));
+    expect(decodeValue('f4')).toBe(false);
+    expect(decodeValue('f5')).toBe(true);
+    expect(decodeValue('f6')).toBeNull();
+    expect(decodeValue('f7')).toBeUndefined();
+  });
+
+  it('decodes indefinite-length items', () => {
+    expect(decodeValue('5f42010243030405ff')).toEqual(
+      new Uint8Array([1, 2, 3, 4, 5]),
+    );
+    expect(decodeValue('7f657374726561646d696e67ff')).toBe('streaming');
+    expect(decodeValue('9f018202039f0405ffff')).toEqual([1, [2, 3], [4, 5]]);
+
+    const map = decodeValue('bf61610161629f0203ffff') as ExactKeyMap<
+      Es<['a', number] | ['b', number[]]>
+    >;
+    expect(map).toBeInstanceOf(ExactKeyMap);
+    expect(map.get('a')).toBe(1);
+    expect(map.get('b')).toEqual([2, 3]);
+  });
+
+  it('decodes dates and unknown tags', () => {
+    expect(decodeValue('c11a514b67b0')).toEqual(new Date(1363896240000));
+    expect(decodeValue('c074323031332d30332d32315432303a30343a30305a')).toEqual(
+      new Date('2013-03-21T20:04:00Z'),
+    );
+    expect(decodeValue('d8206161')).toEqual(new CborTag(32, 'a'));
+  });
+
+  it('round-trips what encode produces', () => {
+    type Entries = Es<
+      [1, number] | [-2, Uint8Array] | ['nested', Es<['list', number[]]>]
+    >;
+    const map = new ExactKeyMap<Entries>([
+      [1, -7],
+      [-2, new Uint8Array([9, 8, 7])],
+      ['nested', [['list', [1, 2.5, -3]]]],
+    ]);
+    const decoded = decode<Entries>(encode(map));
+
+    expect(decoded.get(1)).toBe(-7);
+    expect(decoded.get(-2)).toEqual(new Uint8Array([9, 8, 7]));
+    expect(decoded.get('nested')?.get('list')).toEqual([1, 2.5, -3]);
+  });
+
+  it('round-trips ImmutableExactKeyMaps, also when nested', () => {
+    type Entries = Es<[1, number] | ['nested', Es<['name', string]>]>;
+    const map = new ExactKeyMap<Entries>([
+      [1, -7],
+      ['nested', [['name', 'Alice']]],
+    ]);
+    const frozen = ImmutableExactKeyMap.from(map);
+    const decoded = decode<Entries>(encode(frozen));
+
+    expect(encode(frozen)).toEqual(encode(map));
+    expect(encode(new Map([['frozen', frozen]]))).toEqual(
+      encode(new Map([['frozen', map]])),
+    );
+    expect(decoded.equals(map)).toBe(true);
+  });
+
+  describe('with a schema', () => {
+    const schema = defineSchema([
+      [Headers.Algorithm, isNumber],
+      [Headers.KeyID, isUint8Array],
+      ['nested', defineSchema([['name', isString]])],
+    ]);
+
+    it('validates and types the decoded map', () => {
+      const map = decode(
+        fromHex('a20126666e6573746564a1646e616d656161'),
+        schema,
+      );
+
+      expect(map.get(Headers.Algorithm)).toBe(-7);
+      expect(map.get('nested')?.get('name')).toBe('a');
+      expectTypeOf(map.get('nested')).toEqualTypeOf<
+        ExactKeyMap<Es<['name', string]>> | undefined
+      >();
+    });
+
+    it('throws SchemaValidationError for invalid content', () => {
+      expect(() => decode(fromHex('a1016161'), schema)).toThrow(
+        SchemaValidationError,
+      );
+    });
+  });
+
+  it('throws CborError for malformed data', () => {
+    expect(() => decode(fromHex('a201'))).toThrow(CborError);
+    expect(() => decode(fromHex('a1000000'))).toThrow(CborError);
+    expect(() => decode(fromHex('820102'))).toThrow('Expected a CBOR map');
+    expect(() => decode(fromHex('a10062c3'))).toThrow(CborError);
+    expect(() => decode(fromHex('a100ff'))).toThrow(CborError);
+    expect(() => decode(fromHex('a10062ffff'))).toThrow(
+      'Invalid UTF-8 in text string',
+    );
+  });
+});
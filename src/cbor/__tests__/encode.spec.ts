@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { compareEncodedKeys, encode, encodeItem } from '../encode';
+import { CborTag } from '../CborTag';
+import { CborError } from '../CborError';
+import { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+import { Es } from '@/types/Es';
+
+const hex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const encodeValue = (value: unknown): string =>
+  hex(encode(new Map([[0, value]]))).slice(4);
+
+enum Headers {
+  Algorithm = 1,
+  KeyID = 4,
+  IV = 5,
+}
+
+describe('encode', () => {
+  it('encodes an ExactKeyMap as a CBOR map', () => {
+    type Entries = Es<
+      [Headers.Algorithm, number] | [Headers.KeyID, Uint8Array]
+    >;
+    const headers = new ExactKeyMap<Entries>([
+      [Headers.Algorithm, -7],
+      [Headers.KeyID, new Uint8Array([0xaa, 0xbb])],
+    ]);
+
+    expect(hex(encode(headers))).toBe('a201260442aabb');
+  });
+
+  it('encodes integer and negative keys', () => {
+    const map = new Map<unknown, unknown>([
+      [-1, 1],
+      [24, 2],
+      ['a', 3],
+    ]);
+
+    expect(hex(encode(map))).toBe('a32001181802616103');
+  });
+
+  it('encodes nested ExactKeyMaps as nested CBOR maps', () => {
+    type Entries = Es<['a', Es<['b', number]>]>;
+    const map = new ExactKeyMap<Entries>([['a', [['b', 1]]]]);
+
+    expect(hex(encode(map))).toBe('a16161a1616201');
+  });
+
+  it('encodes integers with the shortest head (RFC 8949 Appendix A)', () => {
+    expect(encodeValue(0)).toBe('00');
+    expect(encodeValue(23)).toBe('17');
+    expect(encodeValue(24)).toBe('1818');
+    expect(encodeValue(1000)).toBe('1903e8');
+    expect(encodeValue(1000000)).toBe('1a000f4240');
+    expect(encodeValue(1000000000000)).toBe('1b000000e8d4a51000');
+    expect(encodeValue(-1)).toBe('20');
+    expect(encodeValue(-1000)).toBe('3903e7');
+  });
+
+  it('encodes bigints, including bignums beyond 64 bits', () => {
+    expect(encodeValue(18446744073709551615n)).toBe('1bffffffffffffffff');
+    expect(encodeValue(-18446744073709551616n)).toBe('3bffffffffffffffff');
+    expect(encodeValue(18446744073709551616n)).toBe('c249010000000000000000');
+    expect(encodeValue(-18446744073709551617n)).toBe('c349010000000000000000');
+  });
+
+  it('encodes floats with the shortest exact precision', () => {
+    expect(encodeValue(1.5)).toBe('f93e00');
+    expect(encodeValue(-0)).toBe('f98000');
+    expect(encodeValue(100000.5)).toBe('fa47c35040');
+    expect(encodeValue(1.1)).toBe('fb3ff199999999999a');
+    expect(encodeValue(Infinity)).toBe('f97c00');
+    expect(encodeValue(NaN)).toBe('f97e00');
+  });
+
+  it('encodes strings, byte strings, arrays and simple values', () => {
+    expect(encodeValue('')).toBe('60');
+    expect(encodeValue('ü')).toBe('62c3bc');
+    expect(encodeValue(new Uint8Array([1, 2, 3, 4]))).toBe('4401020304');
+    expect(encodeValue([1, [2, 3]])).toBe('8201820203');
+    expect(encodeValue(false)).toBe('f4');
+    expect(encodeValue(true)).toBe('f5');
+    expect(encodeValue(null)).toBe('f6');
+    expect(encodeValue(undefined)).toBe('f7');
+  });
+
+  it('encodes tags and dates', () => {
+    expect(encodeValue(new CborTag(32, 'a'))).toBe('d8206161');
+    expect(encodeValue(new Date(1363896240000))).toBe('c11a514b67b0');
+  });
+
+  it('throws CborError for unsupported values', () => {
+    expect(() => encode(new Map([[0, { a: 1 }]]))).toThrow(CborError);
+    expect(() => encode(new Map([[0, Symbol('x')]]))).toThrow(CborError);
+  });
+
+  it('writes maps in deterministic order when asked, at any depth', () => {
+    const map = new Map<unknown, unknown>([
+      [
+        100,
+        new Map([
+          ['b', 1],
+          ['a', 2],
+        ]),
+      ],
+      [-1, 1],
+      [10, 2],
+    ]);
+
+    expect(hex(encode(map, { deterministic: true }))).toBe(
+      'a30a0220011864a2616102616201',
+    );
+  });
+});
+
+describe('encodeItem', () => {
+  it('encodes a single data item', () => {
+    expect(hex(encodeItem(-7))).toBe('26');
+    expect(hex(encodeItem('a'))).toBe('6161');
+  });
+});
+
+describe('compareEncodedKeys', () => {
+  it('orders shorter encodings first, then bytewise', () => {
+    expect(compareEncodedKeys(encodeItem(10), encodeItem(-1))).toBeLessThan(0);
+    expect(compareEncodedKeys(encodeItem(100), encodeItem(-1))).toBeGreaterThan(
+      0,
+    );
+    expect(
+      compareEncodedKeys(encodeItem('b'), encodeItem('a')),
+    ).toBeGreaterThan(0);
+    expect(compareEncodedKeys(encodeItem(1), encodeItem(1))).toBe(0);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { decodeFloat16, encodeFloat16 } from '../float16';
+
+describe('float16', () => {
+  it('decodes half-precision values', () => {
+    expect(decodeFloat16(0x0000)).toBe(0);
+    expect(Object.is(decodeFloat16(0x8000), -0)).toBe(true);
+    expect(decodeFloat16(0x3c00)).toBe(1);
+    expect(decodeFloat16(0x3e00)).toBe(1.5);
+    expect(decodeFloat16(0x7bff)).toBe(65504);
+    expect(decodeFloat16(0x0001)).toBe(5.960464477539063e-8);
+    expect(decodeFloat16(0x0400)).toBe(0.00006103515625);
+    expect(decodeFloat16(0xc400)).toBe(-4);
+    expect(decodeFloat16(0x7c00)).toBe(Infinity);
+    expect(decodeFloat16(0xfc00)).toBe(-Infinity);
+    expect(decodeFloat16(0x7e00)).toBeNaN();
+  });
+
+  it('encodes values that half precision represents exactly', () => {
+    expect(encodeFloat16(0)).toBe(0x0000);
+    expect(encodeFloat16(-0)).toBe(0x8000);
+    expect(encodeFloat16(1.5)).toBe(0x3e00);
+    expect(encodeFloat16(65504)).toBe(0x7bff);
+    expect(encodeFloat16(5.960464477539063e-8)).toBe(0x0001);
+    expect(encodeFloat16(0.00006103515625)).toBe(0x0400);
+    expect(encodeFloat16(-4)).toBe(0xc400);
+    expect(encodeFloat16(Infinity)).toBe(0x7c00);
+    expect(encodeFloat16(-Infinity)).toBe(0xfc00);
+    expect(encodeFloat16(NaN)).toBe(0x7e00);
+  });
+
+  it('returns undefined for values half precision cannot represent', () => {
+    expect(encodeFloat16(1.1)).toBeUndefined();
+    expect(encodeFloat16(100000)).toBeUndefined();
+    expect(encodeFloat16(65505)).toBeUndefined();
+    expect(encodeFloat16(1e-10)).toBeUndefined();
+  });
+});
@@ -0,0 +1,290 @@
+/* global TextDecoder */
+import { CborError } from './CborError';
+import { CborTag } from './CborTag';
+import { decodeFloat16 } from './float16';
+import { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+import type { Schema, SchemaDefinition } from '@/schema/Schema';
+import type { InferEs } from '@/types/InferEs';
+import { Es } from '@/types/Es';
+import { Entry } from '@/types/Entry';
+
+const BREAK = Symbol('break');
+
+/**
+ * Reads data items from a byte array.
+ */
+class CborReader {
+  readonly #view: DataView;
+  #offset = 0;
+
+  constructor(readonly bytes: Uint8Array) {
+    this.#view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.#offset >= this.bytes.length;
+  }
+
+  readItem(): unknown {
+    const item = this.#readItemOrBreak();
+    if (item === BREAK) {
+      throw new CborError(`Unexpected break at offset ${this.#offset - 1}`);
+    }
+    return item;
+  }
+
+  #readItemOrBreak(): unknown {
+    const initial = this.#readUint(1);
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === 7) {
+      return this.#readSimple(info);
+    }
+
+    if (info === 31) {
+      return this.#readIndefinite(major);
+    }
+
+    const argument = this.#readArgument(info);
+
+    switch (major) {
+      case 0:
+        return toNumber(argument);
+      case 1:
+        return toNumber(-1n - argument);
+      case 2:
+        return this.#readBytes(argument).slice();
+      case 3:
+        return decodeText(this.#readBytes(argument));
+      case 4:
+        return this.#readArray(argument);
+      case 5:
+        return this.#readMap(argument);
+      default:
+        return decodeTag(argument, this.readItem());
+    }
+  }
+
+  #readSimple(info: number): unknown {
+    switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+      case 25:
+        return decodeFloat16(this.#readUint(2));
+      case 26:
+        return this.#read(4, () => this.#view.getFloat32(this.#offset));
+      case 27:
+        return this.#read(8, () => this.#view.getFloat64(this.#offset));
+      case 31:
+        return BREAK;
+      default:
+        throw new CborError(`Unsupported simple value ${info}`);
+    }
+  }
+
+  #readIndefinite(major: number): unknown {
+    switch (major) {
+      case 2:
+      case 3: {
+        const chunks: Uint8Array[] = [];
+        for (;;) {
+          const initial = this.#readUint(1);
+          if (initial === 0xff) {
+            break;
+          }
+          if (initial >> 5 !== major || (initial & 0x1f) === 31) {
+            throw new CborError('Invalid chunk in indefinite-length string');
+          }
+          chunks.push(this.#readBytes(this.#readArgument(initial & 0x1f)));
+        }
+        const joined = concat(chunks);
+        return major === 2 ? joined : decodeText(joined);
+      }
+      case 4: {
+        const items: unknown[] = [];
+        for (let item = this.#readItemOrBreak(); item !== BREAK; ) {
+          items.push(item);
+          item = this.#readItemOrBreak();
+        }
+        return items;
+      }
+      case 5: {
+        const map = new ExactKeyMap<Es<Entry>>();
+        for (let key = this.#readItemOrBreak(); key !== BREAK; ) {
+          map.set(key, this.readItem());
+          key = this.#readItemOrBreak();
+        }
+        return map;
+      }
+      default:
+        throw new CborError(`Major type ${major} cannot be indefinite`);
+    }
+  }
+
+  #readArray(length: bigint): unknown[] {
+    const items: unknown[] = [];
+    for (let i = 0n; i < length; i++) {
+      items.push(this.readItem());
+    }
+    return items;
+  }
+
+  #readMap(length: bigint): ExactKeyMap<Es<Entry>> {
+    const map = new ExactKeyMap<Es<Entry>>();
+    for (let i = 0n; i < length; i++) {
+      const key = this.readItem();
+      map.set(key, this.readItem());
+    }
+    return map;
+  }
+
+  #readArgument(info: number): bigint {
+    if (info < 24) {
+      return BigInt(info);
+    }
+
+    switch (info) {
+      case 24:
+        return BigInt(this.#readUint(1));
+      case 25:
+        return BigInt(this.#readUint(2));
+      case 26:
+        return BigInt(this.#readUint(4));
+      case 27:
+        return this.#read(8, () => this.#view.getBigUint64(this.#offset));
+      default:
+        throw new CborError(`Invalid additional information ${info}`);
+    }
+  }
+
+  #readUint(length: 1 | 2 | 4): number {
+    return this.#read(length, () =>
+      length === 1
+        ? this.#view.getUint8(this.#offset)
+        : length === 2
+          ? this.#view.getUint16(this.#offset)
+          : this.#view.getUint32(this.#offset),
+    );
+  }
+
+  #readBytes(length: bigint): Uint8Array {
+    const size = Number(length);
+    return this.#read(size, () =>
+      this.bytes.subarray(this.#offset, this.#offset + size),
+    );
+  }
+
+  #read<T>(length: number, read: () => T): T {
+    if (this.#offset + length > this.bytes.length) {
+      throw new CborError('Unexpected end of CBOR data');
+    }
+    const value = read();
+    this.#offset += length;
+    return value;
+  }
+}
+
+const toNumber = (value: bigint): number | bigint =>
+  value >= BigInt(Number.MIN_SAFE_INTEGER) &&
+  value <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(value)
+    : value;
+
+const decodeText = (bytes: Uint8Array): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    throw new CborError('Invalid UTF-8 in text string');
+  }
+};
+
+const concat = (chunks: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(
+    chunks.reduce((length, chunk) => length + chunk.length, 0),
+  );
+  chunks.reduce((offset, chunk) => {
+    result.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return result;
+};
+
+const bytesToBigint = (bytes: Uint8Array): bigint =>
+  bytes.reduce((n, byte) => (n << 8n) | BigInt(byte), 0n);
+
+const decodeTag = (tag: bigint, value: unknown): unknown => {
+  if (tag === 0n && typeof value === 'string') {
+    return new Date(value);
+  }
+
+  if (tag === 1n && typeof value === 'number') {
+    return new Date(value * 1000);
+  }
+
+  if (tag === 2n && value instanceof Uint8Array) {
+    return bytesToBigint(value);
+  }
+
+  if (tag === 3n && value instanceof Uint8Array) {
+    return -1n - bytesToBigint(value);
+  }
+
+  return new CborTag(toNumber(tag), value);
+};
+
+/**
+ * Decodes a CBOR map into an `ExactKeyMap`, optionally validating it against a schema.
+ *
+ * Every CBOR map in the data, at any depth, becomes an `ExactKeyMap`; this
+ * mirrors the constructor's conversion of nested entry arrays. Byte strings
+ * become `Uint8Array`s, integers outside the safe range become bigints,
+ * date/time tags (0 and 1) become `Date`s, bignum tags (2 and 3) become
+ * bigints, and any other tag becomes a `CborTag`.
+ *
+ * When a schema is given, the decoded map is passed through `ExactKeyMap.parse`
+ * and the result is typed from the schema.
+ *
+ * @param bytes - The CBOR data; it must hold exactly one data item, a map
+ * @param schema - An optional schema to validate the decoded map against
+ * @returns The decoded map
+ * @throws {CborError} If the data is not well-formed CBOR or is not a map
+ * @throws {SchemaValidationError} If a schema is given and the decoded map violates it
+ *
+ * @example
+ * ```ts
+ * const headers = decode(bytes, ProtectedHeadersSchema);
+ * headers.get(Headers.Algorithm); // number | undefined
+ * ```
+ */
+export const decode: {
+  <S extends Schema<readonly SchemaDefinition[]>>(
+    bytes: Uint8Array,
+    schema: S,
+  ): ExactKeyMap<InferEs<S>>;
+  <Entries extends Es<Entry> = Es<Entry>>(
+    bytes: Uint8Array,
+  ): ExactKeyMap<Entries>;
+} = (
+  bytes: Uint8Array,
+  schema?: Schema<readonly SchemaDefinition[]>,
+): ExactKeyMap<Es<Entry>> => {
+  const reader = new CborReader(bytes);
+  const item = reader.readItem();
+
+  if (!reader.done) {
+    throw new CborError('Unexpected trailing bytes after CBOR data item');
+  }
+
+  if (!(item instanceof ExactKeyMap)) {
+    throw new CborError('Expected a CBOR map');
+  }
+
+  return schema ? ExactKeyMap.parse(schema, item) : item;
+};
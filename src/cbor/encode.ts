@@ -0,0 +1,263 @@
+/* global TextEncoder */
+import { CborError } from './CborError';
+import { CborTag } from './CborTag';
+import { encodeFloat16 } from './float16';
+import { isReadonlyMap } from '@/utils/deepEqual';
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+
+/**
+ * Options for {@link encode}.
+ */
+export type EncodeOptions = {
+  /**
+   * Writes the entries of every map, at any depth, in deterministic key
+   * order (see {@link compareEncodedKeys}) regardless of the maps' own
+   * iteration order. Defaults to `false`.
+   */
+  readonly deterministic?: boolean;
+};
+
+/**
+ * Accumulates encoded bytes.
+ */
+class CborWriter {
+  readonly #bytes: number[] = [];
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.#bytes);
+  }
+
+  writeBytes(bytes: ArrayLike<number>): void {
+    for (let i = 0; i < bytes.length; i++) {
+      this.#bytes.push(bytes[i]);
+    }
+  }
+
+  writeHead(major: number, argument: number | bigint): void {
+    const n = BigInt(argument);
+    const type = major << 5;
+
+    if (n < 24n) {
+      this.#bytes.push(type | Number(n));
+    } else if (n < 0x100n) {
+      this.#bytes.push(type | 24, Number(n));
+    } else if (n < 0x10000n) {
+      this.#bytes.push(type | 25);
+      this.#writeUint(n, 2);
+    } else if (n < 0x100000000n) {
+      this.#bytes.push(type | 26);
+      this.#writeUint(n, 4);
+    } else {
+      this.#bytes.push(type | 27);
+      this.#writeUint(n, 8);
+    }
+  }
+
+  #writeUint(n: bigint, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.#bytes.push(Number((n >> BigInt(i * 8)) & 0xffn));
+    }
+  }
+}
+
+const writeInteger = (
+  writer: CborWriter,
+  value: bigint,
+  options: EncodeOptions,
+): void => {
+  if (value >= 0n) {
+    if (value <= MAX_UINT64) {
+      writer.writeHead(0, value);
+    } else {
+      writeTag(writer, 2n, bigintToBytes(value), options);
+    }
+  } else if (-1n - value <= MAX_UINT64) {
+    writer.writeHead(1, -1n - value);
+  } else {
+    writeTag(writer, 3n, bigintToBytes(-1n - value), options);
+  }
+};
+
+const bigintToBytes = (value: bigint): Uint8Array => {
+  const bytes: number[] = [];
+  for (let n = value; n > 0n; n >>= 8n) {
+    bytes.unshift(Number(n & 0xffn));
+  }
+  return Uint8Array.from(bytes);
+};
+
+const writeFloat = (writer: CborWriter, value: number): void => {
+  const half = encodeFloat16(value);
+  if (half !== undefined) {
+    writer.writeBytes([0xf9, half >> 8, half & 0xff]);
+    return;
+  }
+
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat32(0, value);
+  if (Object.is(view.getFloat32(0), value)) {
+    writer.writeBytes([0xfa]);
+    writer.writeBytes(new Uint8Array(view.buffer, 0, 4));
+    return;
+  }
+
+  view.setFloat64(0, value);
+  writer.writeBytes([0xfb]);
+  writer.writeBytes(new Uint8Array(view.buffer));
+};
+
+const writeTag = (
+  writer: CborWriter,
+  tag: number | bigint,
+  value: unknown,
+  options: EncodeOptions,
+): void => {
+  writer.writeHead(6, tag);
+  writeItem(writer, value, options);
+};
+
+const writeItem = (
+  writer: CborWriter,
+  value: unknown,
+  options: EncodeOptions,
+): void => {
+  if (typeof value === 'number') {
+    if (Number.isSafeInteger(value) && !Object.is(value, -0)) {
+      writeInteger(writer, BigInt(value), options);
+    } else {
+      writeFloat(writer, value);
+    }
+  } else if (typeof value === 'bigint') {
+    writeInteger(writer, value, options);
+  } else if (typeof value === 'string') {
+    const bytes = new TextEncoder().encode(value);
+    writer.writeHead(3, bytes.length);
+    writer.writeBytes(bytes);
+  } else if (typeof value === 'boolean') {
+    writer.writeBytes([value ? 0xf5 : 0xf4]);
+  } else if (value === null) {
+    writer.writeBytes([0xf6]);
+  } else if (value === undefined) {
+    writer.writeBytes([0xf7]);
+  } else if (value instanceof Uint8Array) {
+    writer.writeHead(2, value.length);
+    writer.writeBytes(value);
+  } else if (Array.isArray(value)) {
+    writer.writeHead(4, value.length);
+    value.forEach((element) => writeItem(writer, element, options));
+  } else if (isReadonlyMap(value)) {
+    const entries = [...value.entries()].map(
+      ([key, entryValue]) => [encodeItem(key, options), entryValue] as const,
+    );
+    if (options.deterministic) {
+      entries.sort(([a], [b]) => compareEncodedKeys(a, b));
+    }
+    writer.writeHead(5, entries.length);
+    entries.forEach(([key, entryValue]) => {
+      writer.writeBytes(key);
+      writeItem(writer, entryValue, options);
+    });
+  } else if (value instanceof CborTag) {
+    writeTag(writer, value.tag, value.value, options);
+  } else if (value instanceof Date) {
+    writeTag(writer, 1, value.getTime() / 1000, options);
+  } else {
+    throw new CborError(
+      `Cannot encode value of type ${Object.prototype.toString.call(value)}`,
+    );
+  }
+};
+
+/**
+ * Encodes a map (typically an `ExactKeyMap`) as a CBOR map.
+ *
+ * Values are encoded as follows:
+ * - Integers (numbers and bigints) become major types 0/1, or bignums (tags 2/3) beyond 64 bits
+ * - Other numbers become the shortest float that represents them exactly
+ * - Strings become text strings and `Uint8Array`s become byte strings
+ * - Arrays become arrays; `Map`s and other `ReadonlyMap`s, including nested
+ *   `ExactKeyMap`s and `ImmutableExactKeyMap`s, become maps
+ * - Booleans, `null` and `undefined` become simple values
+ * - `Date`s become epoch-based date/time items (tag 1)
+ * - `CborTag` instances become tagged items
+ *
+ * Map entries are written in the map's iteration order, which honours the
+ * key order an `ExactKeyMap` was created with, unless `options.deterministic`
+ * is set. Maps with an `asMap()` method, such as `ExactKeyMap`s, are encoded
+ * through it, so nested maps in insertion order follow the key order of the
+ * map they are nested in.
+ *
+ * @param map - The map to encode
+ * @param options - Encoding options
+ * @returns The CBOR encoding of the map
+ * @throws {CborError} If the map contains a value that cannot be encoded
+ *
+ * @example
+ * ```ts
+ * const headers = new ProtectedHeaders([[Headers.Algorithm, -7]]);
+ * encode(headers); // Uint8Array [0xa1, 0x01, 0x26]
+ * ```
+ */
+export const encode = (
+  map: ReadonlyMap<unknown, unknown>,
+  options: EncodeOptions = {},
+): Uint8Array =>
+  encodeItem(
+    'asMap' in map && typeof map.asMap === 'function' ? map.asMap() : map,
+    options,
+  );
+
+/**
+ * Encodes a single value as a CBOR data item.
+ *
+ * Accepts the same values as {@link encode}; it is mostly useful for encoding
+ * individual keys, e.g. to compare them in deterministic order.
+ *
+ * @param value - The value to encode
+ * @param options - Encoding options
+ * @returns The CBOR encoding of the value
+ * @throws {CborError} If the value cannot be encoded
+ *
+ * @example
+ * ```ts
+ * encodeItem(-7); // Uint8Array [0x26]
+ * ```
+ */
+export const encodeItem = (
+  value: unknown,
+  options: EncodeOptions = {},
+): Uint8Array => {
+  const writer = new CborWriter();
+  writeItem(writer, value, options);
+  return writer.toBytes();
+};
+
+/**
+ * Compares two encoded keys in deterministic order: shorter encodings sort
+ * first, and encodings of equal length are compared bytewise (the
+ * length-first map key ordering described in RFC 8949, Section 4.2.3).
+ *
+ * @param a - The first encoded key
+ * @param b - The second encoded key
+ * @returns A negative number, zero or a positive number, as for `Array.prototype.sort`
+ *
+ * @example
+ * ```ts
+ * compareEncodedKeys(encodeItem(10), encodeItem(-1));  // < 0 (0x0a before 0x20)
+ * compareEncodedKeys(encodeItem(100), encodeItem(-1)); // > 0 (2 bytes after 1 byte)
+ * ```
+ */
+export const compareEncodedKeys = (a: Uint8Array, b: Uint8Array): number => {
+  if (a.length !== b.length) {
+    return a.length - b.length;
+  }
+
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+
+  return 0;
+};
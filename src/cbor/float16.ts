@@ -0,0 +1,60 @@
+/**
+ * Decodes an IEEE 754 half-precision value from its 16-bit representation.
+ *
+ * @param bits - The 16-bit representation.
+ * @returns The decoded number.
+ */
+export const decodeFloat16 = (bits: number): number => {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1f;
+  const mantissa = bits & 0x3ff;
+
+  if (exponent === 0) {
+    return sign * mantissa * 2 ** -24;
+  }
+
+  if (exponent === 0x1f) {
+    return mantissa === 0 ? sign * Infinity : NaN;
+  }
+
+  return sign * (1 + mantissa / 1024) * 2 ** (exponent - 15);
+};
+
+/**
+ * Encodes a number as IEEE 754 half precision if that is lossless.
+ *
+ * @param value - The number to encode.
+ * @returns The 16-bit representation, or `undefined` if the number cannot be represented exactly.
+ */
+export const encodeFloat16 = (value: number): number | undefined => {
+  if (Number.isNaN(value)) {
+    return 0x7e00;
+  }
+
+  const view = new DataView(new ArrayBuffer(4));
+  view.setFloat32(0, value);
+
+  if (!Object.is(view.getFloat32(0), value)) {
+    return undefined;
+  }
+
+  const bits = view.getUint32(0);
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = ((bits >>> 23) & 0xff) - 127 + 15;
+  const mantissa = bits & 0x7fffff;
+
+  let half: number;
+  if (!Number.isFinite(value)) {
+    half = sign | 0x7c00;
+  } else if (value === 0) {
+    half = sign;
+  } else if (exponent >= 1 && exponent <= 30) {
+    half = sign | (exponent << 10) | (mantissa >> 13);
+  } else if (exponent <= 0 && exponent >= -10) {
+    half = sign | ((mantissa | 0x800000) >> (14 - exponent));
+  } else {
+    return undefined;
+  }
+
+  return Object.is(decodeFloat16(half), value) ? half : undefined;
+};
@@ -0,0 +1,4 @@
+export * from './CborError';
+export * from './CborTag';
+export * from './decode';
+export * from './encode';
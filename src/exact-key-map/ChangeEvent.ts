@@ -0,0 +1,53 @@
+import type { Es } from '@/types/Es';
+import type { Entry } from '@/types/Entry';
+import type { KeyPath } from '@/types/KeyPath';
+import type { ValueAtPath } from '@/types/ValueAtPath';
+
+/**
+ * The mutation that caused a `ChangeEvent`: `set`, `delete` or `clear`
+ * (emitted once for every entry the call removed).
+ */
+export type ChangeOperation = 'set' | 'delete' | 'clear';
+
+/**
+ * Describes a change to an `ExactKeyMap` or to one of its nested maps.
+ *
+ * `path` leads from the map the listener is subscribed to to the changed
+ * entry (see `KeyPath`) and `key` is the changed key, i.e. the last key of
+ * the path. The value types are derived from the path with `ValueAtPath`;
+ * `oldValue` is `undefined` if the key was absent and `newValue` is
+ * `undefined` if the key was removed.
+ *
+ * @typeParam Entries - The `Es` of the map the listener is subscribed to
+ *
+ * @example
+ * ```typescript
+ * config.subscribe((event) => {
+ *   if (event.key === 'port') {
+ *     event.path;     // readonly ['server', 'port']
+ *     event.newValue; // number | undefined
+ *   }
+ * });
+ * ```
+ */
+export type ChangeEvent<Entries extends Es<Entry>> =
+  KeyPath<Entries> extends infer P
+    ? P extends KeyPath<Entries>
+      ? {
+          readonly operation: ChangeOperation;
+          readonly path: P;
+          readonly key: P extends readonly [...unknown[], infer K] ? K : never;
+          readonly oldValue: ValueAtPath<Entries, P> | undefined;
+          readonly newValue: ValueAtPath<Entries, P> | undefined;
+        }
+      : never
+    : never;
+
+/**
+ * A function called with every `ChangeEvent` of a map.
+ *
+ * @typeParam Entries - The `Es` of the map the listener is subscribed to
+ */
+export type ChangeListener<Entries extends Es<Entry>> = (
+  event: ChangeEvent<Entries>,
+) => void;
@@ -0,0 +1,21 @@
+/**
+ * Options accepted by `ExactKeyMap.prototype.clone`.
+ */
+export type CloneOptions = {
+  /**
+   * Whether nested maps and values are copied as well. A shallow clone
+   * (`false`) shares nested maps, typed arrays and other objects with the
+   * original. Defaults to `true`.
+   */
+  readonly deep?: boolean;
+  /**
+   * Copies the values a deep clone does not handle itself. Nested maps, typed
+   * arrays, `ArrayBuffer`s, `DataView`s and arrays are always copied; every
+   * other value (`Date`s, class instances, ...) is passed to the cloner and
+   * replaced by its result. Defaults to keeping the value as-is.
+   *
+   * @param value - The value to copy
+   * @returns The value to store in the clone
+   */
+  readonly cloner?: (value: unknown) => unknown;
+};
@@ -0,0 +1,21 @@
+import type { Es } from '@/types/Es';
+import type { Entry } from '@/types/Entry';
+import type { AccessorKeys } from '@/types/AccessorMethods';
+
+/**
+ * Options accepted by `defineExactKeyMap`.
+ *
+ * @typeParam Entries - The entries type inferred from the schema.
+ * @typeParam A - The accessor names and their keys.
+ */
+export type DefineExactKeyMapOptions<
+  Entries extends Es<Entry>,
+  A extends AccessorKeys<Entries>,
+> = {
+  /**
+   * The keys (or aliases) to generate accessors for, by accessor name. Each
+   * name gets a `get<Name>()`, `has<Name>()` and `set<Name>(value)` method,
+   * with the first letter of the name capitalized. Defaults to none.
+   */
+  readonly accessors?: A;
+};
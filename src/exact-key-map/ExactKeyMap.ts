@@ -1,9 +1,144 @@
 import type { KeysOfEntries } from '@/types/KeysOfEntries';
 import type { ValueOfKey } from '@/types/ValueOfKey';
 import type { AllValues } from '@/types/AllValues';
+import type { EntryOf } from '@/types/EntryOf';
+import type { HasKey, HasKeys } from '@/types/HasKey';
+import type { AliasesOf, KeyOrAlias, ResolveKey } from '@/types/AliasedEntry';
 import { isEntries } from '@/utils/isEntities';
+import type { InferEs } from '@/types/InferEs';
+import type { InitialEntries } from '@/types/InitialEntries';
+import type { OptionalKeys, RequiredKeys } from '@/types/RequiredEntry';
+import type { DefaultedKeys } from '@/types/DefaultedEntry';
+import type { KeyPath } from '@/types/KeyPath';
+import type { ValueAtPath } from '@/types/ValueAtPath';
+import type { CheckObjectKeys, EsFromObject } from '@/types/EsFromObject';
+import type { CheckEsKeys, ObjectFromEs } from '@/types/ObjectFromEs';
+import type { MergeEs } from '@/types/MergeEs';
+import type { OmitEs, PickEs } from '@/types/PickEs';
+import type { DeepPartialEs, PartialEs } from '@/types/PartialEs';
+import type { MapValuesEs, ValueMappers } from '@/types/MapValuesEs';
 import { Es } from '@/types/Es';
 import { Entry } from '@/types/Entry';
+import { Schema, SchemaDefinition, SchemaRule } from '@/schema/Schema';
+import { KeyPattern } from '@/schema/KeyPattern';
+import {
+  formatPath,
+  SchemaValidationError,
+} from '@/schema/SchemaValidationError';
+import { toEntries } from '@/utils/toEntries';
+import { isPlainObject } from '@/utils/isPlainObject';
+import { deepEqual, isReadonlyMap, isTypedArray } from '@/utils/deepEqual';
+import { hash } from '@/utils/hash';
+import { fromJSONValue, JsonValue, toJSONValue } from '@/json/jsonValue';
+import type { ExactKeyMapOptions } from './ExactKeyMapOptions';
+import type { CloneOptions } from './CloneOptions';
+import type { ProjectionOptions } from './ProjectionOptions';
+import type { ToObjectOptions } from './ToObjectOptions';
+import type { FilterOptions } from './FilterOptions';
+import type { InspectOptions } from './InspectOptions';
+import type { KeyNames } from './KeyNames';
+import type { MergeOptions, MergeStrategy } from './MergeOptions';
+import { MergeConflictError } from './MergeConflictError';
+import type { ChangeListener, ChangeOperation } from './ChangeEvent';
+import { KeyOrder, sortEntries } from './KeyOrder';
+import { MissingKeyError } from './MissingKeyError';
+import { UnknownKeyError } from './UnknownKeyError';
+import { Raw } from './Raw';
+
+/**
+ * The shape of a `ChangeEvent`, independent of the map's `Es`.
+ */
+type AnyChangeEvent = {
+  readonly operation: ChangeOperation;
+  readonly path: readonly unknown[];
+  readonly key: unknown;
+  readonly oldValue: unknown;
+  readonly newValue: unknown;
+};
+
+/**
+ * The arguments `forEach` passes to its callback, with value and key
+ * correlated per entry so comparing the key narrows the value.
+ */
+type ForEachArgs<Entries extends Es<Entry>, Rest extends unknown[]> =
+  EntryOf<Entries> extends infer T
+    ? T extends [infer K, infer V]
+      ? [value: V, key: K, ...rest: Rest]
+      : never
+    : never;
+
+type AnyChangeListener = (event: AnyChangeEvent) => void;
+
+/**
+ * The symbol Node's `util.inspect` looks up for custom output; registered
+ * globally, so no import of `node:util` is needed.
+ */
+const inspectCustom: unique symbol = Symbol.for('nodejs.util.inspect.custom');
+
+/**
+ * The keys with a default (see `DefaultedEntry`) and their aliases, as
+ * accepted by `getOrDefault` and `update`.
+ */
+type DefaultedKeyOrAlias<Entries extends Es<Entry>> =
+  | DefaultedKeys<Entries>
+  | AliasesOf<Entries, DefaultedKeys<Entries>>;
+
+/**
+ * Resolves to `true` if `Entries` has required keys (see `RequiredEntry`),
+ * with `Deep` also in nested entries and nested maps; `filter` keeps the
+ * type of maps that have none, since it cannot remove required keys then.
+ */
+type HasRequiredKeys<Entries extends Es<Entry>, Deep extends boolean> = [
+  RequiredKeys<Entries>,
+] extends [never]
+  ? Deep extends true
+    ? true extends NestedHasRequiredKeys<AllValues<Entries>>
+      ? true
+      : false
+    : false
+  : true;
+
+type NestedHasRequiredKeys<V> =
+  V extends Es<Entry>
+    ? HasRequiredKeys<V, true>
+    : V extends ExactKeyMap<infer Nested extends Es<Entry>>
+      ? HasRequiredKeys<Nested, true>
+      : false;
+
+/**
+ * Options for a map of `Entries`: a `schema` is mandatory if `Entries` has
+ * aliases (see `AliasedEntry`), since only the schema resolves them.
+ */
+type OptionsArgs<Entries extends Es<Entry>> = [AliasesOf<Entries>] extends [
+  never,
+]
+  ? [options?: ExactKeyMapOptions]
+  : [
+      options: ExactKeyMapOptions & {
+        readonly schema: Schema<readonly SchemaDefinition[]>;
+      },
+    ];
+
+/**
+ * Constructor arguments: entries are mandatory if `Entries` has required keys
+ * or aliases, and options are mandatory if it has aliases (see `OptionsArgs`).
+ */
+type ConstructorArgs<Entries extends Es<Entry>> = [
+  RequiredKeys<Entries>,
+] extends [never]
+  ? [AliasesOf<Entries>] extends [never]
+    ? [
+        entries?: Entries | Iterable<Entries[number]>,
+        ...options: OptionsArgs<Entries>,
+      ]
+    : [
+        entries: Entries | Iterable<Entries[number]>,
+        ...options: OptionsArgs<Entries>,
+      ]
+  : [
+      entries: InitialEntries<Entries> | Iterable<Entries[number]>,
+      ...options: OptionsArgs<Entries>,
+    ];
 
 /**
  * A type-safe Map implementation that enforces exact key-value type relationships
@@ -48,19 +183,46 @@ import { Entry } from '@/types/Entry';
  *   ['settings', [['theme', 'dark'], ['notifications', true]]],
  * ]);
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Opt-in deterministic key order for iteration and export (e.g. before signing)
+ * const headers = new ExactKeyMap<Entries>(entries, { order: 'deterministic' });
+ * ```
  */
 export class ExactKeyMap<
   Entries extends Es<readonly [unknown, unknown]>,
 > extends Map<KeysOfEntries<Entries>, AllValues<Entries>> {
+  #order: KeyOrder;
+  #schema: Schema<readonly SchemaDefinition[]> | undefined;
+  #strict: boolean | readonly unknown[];
+  #keyNames: KeyNames | undefined;
+  readonly #listeners = new Set<AnyChangeListener>();
+  /**
+   * The maps that took this map as a value through `set` (or the constructor),
+   * with the keys they hold it under; changes bubble up along these links.
+   * Maps that merely share this map with another one (e.g. `pick` results)
+   * are not recorded, see `#put`.
+   */
+  readonly #parents = new Map<ExactKeyMap<Es<Entry>>, Set<unknown>>();
+
   /**
    * Creates a new ExactKeyMap instance from the provided entries.
    *
    * The constructor processes the entries to:
    * - Preserve primitive values as-is
-   * - Convert nested entry arrays into nested `ExactKeyMap` instances
+   * - Convert nested entry arrays and nested native `Map`s into nested `ExactKeyMap` instances
    * - Maintain type safety throughout the structure
    *
-   * @param entries - The entries array that defines the map's structure and initial values
+   * Besides an entries array, any iterable of `[key, value]` pairs is accepted
+   * (a `Map`, a generator, a `Set` of pairs, ...), so `new ExactKeyMap(map.asMap())`
+   * is a deep round trip. If `Entries` has required keys (see `RequiredEntry`),
+   * the entries are mandatory; they may come in any order, and whether they
+   * cover the required keys is checked by `parse` and `assertComplete()`
+   * rather than at compile time (see `InitialEntries`).
+   *
+   * @param entries - The entries array or iterable that defines the map's structure and initial values
+   * @param options - Map options such as the key order; nested maps created from nested entries inherit them
    *
    * @example
    * ```typescript
@@ -72,14 +234,195 @@ export class ExactKeyMap<
    * ]);
    * ```
    */
-  constructor(entries?: Entries) {
-    const normalized = entries ?? [];
-    const processed = normalized.map(([key, value]) => [
-      key,
-      isEntries(value) ? new ExactKeyMap(value as Es<Entry>) : value,
-    ]);
+  constructor(...args: ConstructorArgs<Entries>) {
+    super();
+
+    const [entries = [], options = {}] = args as unknown as [
+      Iterable<Entry>?,
+      ExactKeyMapOptions?,
+    ];
+    this.#order = options.order ?? 'insertion';
+    this.#schema = options.schema;
+    this.#strict = options.strict ?? false;
+    this.#keyNames = options.keyNames;
+
+    if (this.#strict === true && this.#schema === undefined) {
+      throw new TypeError('Strict mode needs a schema or a list of keys');
+    }
+
+    for (const [key, value] of entries) {
+      this.set(
+        key as KeysOfEntries<Entries>,
+        (value instanceof Raw
+          ? value.value
+          : isNestable(value, options.schema?.ruleFor(key))
+            ? new ExactKeyMap(value, nestedOptions(options, key))
+            : value) as AllValues<Entries>,
+      );
+    }
+  }
+
+  /**
+   * Rebuilds an `ExactKeyMap` from a native `Map`, the inverse of {@link ExactKeyMap.asMap}.
+   *
+   * Nested native `Map`s (and nested entry arrays) become nested `ExactKeyMap`
+   * instances. Like `cbor.decode`, the entries type is taken on trust; use
+   * {@link ExactKeyMap.parse} to validate untrusted maps.
+   *
+   * @typeParam Entries - The entries type of the resulting map
+   * @param map - The native map to rebuild
+   * @param options - Options for the resulting map and its nested maps; a
+   *   `schema` is required if `Entries` has aliases
+   * @returns A new `ExactKeyMap` holding the map's entries
+   *
+   * @example
+   * ```typescript
+   * const plain = config.asMap();
+   * const restored = ExactKeyMap.fromMap<ConfigEntries>(plain);
+   * restored.get('database')?.get('host'); // string | undefined
+   * ```
+   */
+  static fromMap<Entries extends Es<readonly [unknown, unknown]>>(
+    map: ReadonlyMap<KeysOfEntries<Entries>, unknown>,
+    ...[options = {}]: OptionsArgs<Entries>
+  ): ExactKeyMap<Entries> {
+    return new ExactKeyMap<Es<Entry>>(
+      map,
+      options,
+    ) as unknown as ExactKeyMap<Entries>;
+  }
+
+  /**
+   * Creates an `ExactKeyMap` from a plain object, inferring its entries type
+   * with `EsFromObject`.
+   *
+   * Every own enumerable property becomes an entry; canonical numeric keys
+   * such as `'1'` become number keys. Nested plain objects become nested
+   * `ExactKeyMap` instances, while arrays and other objects (`Date`s,
+   * `Uint8Array`s, class instances, ...) are stored as-is.
+   * Symbol keys are rejected at compile time and at runtime.
+   *
+   * @typeParam T - The object type the entries are inferred from
+   * @param obj - The plain object to convert
+   * @param options - Options for the resulting map and its nested maps
+   * @returns A new `ExactKeyMap` holding the object's properties
+   * @throws {TypeError} If `obj` is not a plain object or has symbol keys
+   *
+   * @example
+   * ```typescript
+   * const config = ExactKeyMap.fromObject({
+   *   host: 'localhost',
+   *   port: 5432,
+   *   credentials: { username: 'admin' },
+   * });
+   * config.get('credentials')?.get('username'); // string | undefined
+   * ```
+   */
+  static fromObject<T extends object>(
+    obj: T & CheckObjectKeys<T>,
+    options: ExactKeyMapOptions = {},
+  ): ExactKeyMap<EsFromObject<T>> {
+    return buildFromObject(obj, options) as unknown as ExactKeyMap<
+      EsFromObject<T>
+    >;
+  }
+
+  /**
+   * Creates an `ExactKeyMap` from untrusted data, validating it against a schema.
+   *
+   * The input may be an entries array or a `Map`; plain objects are rejected
+   * (see {@link ExactKeyMap.fromObject}). Every key must be allowed by
+   * the schema and every value must pass its rule; values governed by nested
+   * schemas are validated recursively and become nested `ExactKeyMap` instances.
+   * Values governed by validators are stored as-is, without the nested-entry
+   * conversion the constructor applies. Missing required keys are reported as
+   * violations, and the schema is kept for `assertComplete()`.
+   *
+   * @typeParam S - The schema type; the result's entries are inferred from it
+   * @param schema - The schema describing the allowed keys and values
+   * @param input - The data to validate
+   * @param options - Options for the resulting map and its nested maps
+   * @returns A typed `ExactKeyMap` holding the validated data
+   * @throws {SchemaValidationError} If the input violates the schema; the error lists every violation with its key path
+   *
+   * @example
+   * ```typescript
+   * const UserSchema = defineSchema([
+   *   ['name', isString],
+   *   ['age', isNumber],
+   * ]);
+   *
+   * // body: '[["name","Alice"],["age",30]]'
+   * const user = ExactKeyMap.parse(UserSchema, JSON.parse(body));
+   * user.get('name'); // string | undefined
+   * ```
+   */
+  static parse<S extends Schema<readonly SchemaDefinition[]>>(
+    schema: S,
+    input: unknown,
+    options: ExactKeyMapOptions = {},
+  ): ExactKeyMap<InferEs<S>> {
+    const issues = schema.validate(input);
+
+    if (issues.length > 0) {
+      throw new SchemaValidationError(issues);
+    }
 
-    super(processed as Iterable<[KeysOfEntries<Entries>, AllValues<Entries>]>);
+    return buildFromSchema(schema, input, options) as unknown as ExactKeyMap<
+      InferEs<S>
+    >;
+  }
+
+  /**
+   * Deeply merges two maps into a new map typed with `MergeEs`.
+   *
+   * Keys of both maps are kept, so merging maps with disjoint keys yields the
+   * union of both schemas. If both maps hold a nested `ExactKeyMap` for a
+   * key, the nested maps are merged recursively. Other values present in
+   * both maps conflict unless they are structurally equal (see `deepEqual`);
+   * conflicts are resolved by the strategy for their key path, falling back
+   * to `options.strategy` (default `'right'`). With `arrays: 'concat'`, two
+   * arrays are concatenated instead.
+   *
+   * The inputs are not modified. Nested maps in the result are new maps with
+   * the key order of `a`; other values are shared with the inputs.
+   *
+   * @typeParam A - The entries of the left map
+   * @typeParam B - The entries of the right map
+   * @param a - The left map, e.g. defaults
+   * @param b - The right map, e.g. overrides
+   * @param options - Conflict strategies and array handling
+   * @returns A new map holding the merged entries
+   * @throws {MergeConflictError} If the `'throw'` strategy meets a conflict
+   *
+   * @example
+   * ```typescript
+   * // Union of disjoint headers
+   * const headers = ExactKeyMap.merge(protectedHeaders, unprotectedHeaders, {
+   *   strategy: 'throw',
+   * });
+   *
+   * // Layer user config over defaults, keeping the default port
+   * const config = ExactKeyMap.merge(defaults, user, {
+   *   keys: [[['server', 'port'], 'left']],
+   *   arrays: 'concat',
+   * });
+   * ```
+   */
+  static merge<
+    A extends Es<readonly [unknown, unknown]>,
+    B extends Es<readonly [unknown, unknown]>,
+  >(
+    a: ExactKeyMap<A>,
+    b: ExactKeyMap<B>,
+    options: MergeOptions<MergeEs<A, B>> = {},
+  ): ExactKeyMap<MergeEs<A, B>> {
+    return mergeMaps(
+      a as unknown as ExactKeyMap<Es<Entry>>,
+      b as unknown as ExactKeyMap<Es<Entry>>,
+      [],
+      { options: options as MergeOptions, order: a.#order },
+    ) as unknown as ExactKeyMap<MergeEs<A, B>>;
   }
 
   /**
@@ -116,11 +459,33 @@ export class ExactKeyMap<
    * // restrict subsequent set calls to those literals. Use constructor for set examples.
    * ```
    */
-  set<K extends KeysOfEntries<Entries>>(
+  set<K extends KeyOrAlias<Entries>>(
     key: K,
     value: ValueOfKey<Entries, K>,
   ): this {
-    return super.set(key, value);
+    const resolved = this.#resolveKey(key);
+    this.#assertKnownKey(resolved);
+
+    const had = super.has(resolved);
+    const oldValue = super.get(resolved);
+
+    if (had && Object.is(oldValue, value)) {
+      return this;
+    }
+
+    super.set(resolved, value);
+    if (had) {
+      this.#unlink(oldValue, resolved);
+    }
+    this.#link(value, resolved);
+    this.#emit({
+      operation: 'set',
+      path: [resolved],
+      key: resolved,
+      oldValue,
+      newValue: value,
+    });
+    return this;
   }
 
   /**
@@ -129,7 +494,8 @@ export class ExactKeyMap<
    * This method provides:
    * - **Exact Type Inference**: Returns the exact type associated with the specified key
    * - **Type Safety**: The key parameter is constrained to valid keys from the entries
-   * - **Undefined Handling**: Returns `undefined` if the key doesn't exist (following Map behavior)
+   * - **Undefined Handling**: Returns `undefined` if the key doesn't exist (following Map behavior);
+   *   required keys (see `RequiredEntry`) are typed without `undefined`
    *
    * @typeParam K - The specific key type from the entries (must be a valid key)
    * @param key - The key to retrieve (must be one of the keys from the original entries)
@@ -151,22 +517,86 @@ export class ExactKeyMap<
    * // const invalid = map.get('invalid'); // ❌ TypeScript error
    * ```
    */
-  get<K extends KeysOfEntries<Entries>>(
+  get<
+    K extends RequiredKeys<Entries> | AliasesOf<Entries, RequiredKeys<Entries>>,
+  >(key: K): ValueOfKey<Entries, K>;
+  get<K extends KeyOrAlias<Entries>>(
+    this: HasKey<NoInfer<K>>,
+    key: K,
+  ): ValueOfKey<Entries, K>;
+  get<K extends KeyOrAlias<Entries>>(
+    key: K,
+  ): ValueOfKey<Entries, K> | undefined;
+  get<K extends KeyOrAlias<Entries>>(
     key: K,
   ): ValueOfKey<Entries, K> | undefined {
-    return super.get(key) as ValueOfKey<Entries, K> | undefined;
+    const resolved = this.#resolveKey(key);
+    this.#assertKnownKey(resolved);
+
+    return super.get(resolved) as ValueOfKey<Entries, K> | undefined;
+  }
+
+  /**
+   * Checks whether the map holds a value for the key.
+   *
+   * This is a type guard: inside the guarded block the map is narrowed to
+   * `HasKey<K>`, so `get(key)` is typed without `undefined`. The narrowing is
+   * not undone by a later `delete`.
+   *
+   * @typeParam K - The key to look up
+   * @param key - The key to look up
+   * @returns `true` if the key is present
+   *
+   * @example
+   * ```typescript
+   * if (user.has('name')) {
+   *   user.get('name'); // string
+   * }
+   * ```
+   */
+  has<K extends KeyOrAlias<Entries>>(
+    key: K,
+  ): this is HasKey<K> & HasKey<ResolveKey<Entries, K>> {
+    return super.has(this.#resolveKey(key));
+  }
+
+  /**
+   * Checks whether the map holds a value for every key.
+   *
+   * Like `has`, this is a type guard: for a tuple of keys, `get` is typed
+   * without `undefined` for each of them inside the guarded block.
+   *
+   * @typeParam Keys - The keys to look up
+   * @param keys - The keys to look up
+   * @returns `true` if every key is present (also for an empty list)
+   *
+   * @example
+   * ```typescript
+   * if (user.hasAll(['name', 'age'])) {
+   *   user.get('name'); // string
+   *   user.get('age'); // number
+   * }
+   * ```
+   */
+  hasAll<const Keys extends readonly KeyOrAlias<Entries>[]>(
+    keys: Keys,
+  ): this is HasKeys<Keys> {
+    return keys.every((key) => super.has(this.#resolveKey(key)));
   }
 
   /**
    * Removes the specified key and its associated value from the map.
    *
    * This method provides type safety by ensuring only valid keys from the original
-   * entries can be deleted. However, note that deletion changes the map structure,
+   * entries can be deleted. Required keys (see `RequiredEntry`) cannot be deleted,
+   * and keys the map's schema declares as required are also rejected at runtime.
+   * However, note that deletion changes the map structure,
    * which may affect type safety in subsequent operations.
    *
-   * @typeParam K - The specific key type from the entries (must be a valid key)
-   * @param key - The key to remove (must be one of the keys from the original entries)
+   * @typeParam K - The specific key type from the entries (must be a valid, optional key)
+   * @param key - The key to remove (must be one of the optional keys from the original entries)
    * @returns `true` if the key existed and was removed, `false` if the key didn't exist
+   * @throws {TypeError} If the key is present and the map's schema declares it as required
    *
    * @example
    * ```typescript
@@ -183,62 +613,1700 @@ export class ExactKeyMap<
    * // map.delete('invalid'); // ❌ TypeScript error
    * ```
    */
-  delete<K extends KeysOfEntries<Entries>>(key: K): boolean {
-    return super.delete(key);
+  delete<
+    K extends OptionalKeys<Entries> | AliasesOf<Entries, OptionalKeys<Entries>>,
+  >(key: K): boolean {
+    const resolved = this.#resolveKey(key);
+    if (!super.has(resolved)) {
+      return false;
+    }
+
+    this.#assertRemovable(resolved);
+    const oldValue = super.get(resolved);
+    super.delete(resolved);
+    this.#unlink(oldValue, resolved);
+    this.#emit({
+      operation: 'delete',
+      path: [resolved],
+      key: resolved,
+      oldValue,
+      newValue: undefined,
+    });
+    return true;
   }
 
   /**
-   * Converts the ExactKeyMap to a plain JavaScript Map.
+   * Removes all entries from the map, emitting a `clear` change event for
+   * every removed entry.
    *
-   * This method creates a new Map instance with the same key-value pairs as the
-   * ExactKeyMap. If any values are nested ExactKeyMaps (objects with an `asMap` method),
-   * they are recursively converted to plain Maps as well.
+   * Like `delete` for required keys, `clear` is rejected at compile time for
+   * maps whose entries have required keys (see `RequiredEntry`), since it
+   * would remove them, and at runtime if the map holds a key its schema
+   * declares as required; nothing is removed then.
    *
-   * @returns A new Map containing all key-value pairs from this ExactKeyMap
+   * @throws {TypeError} If the map holds a key its schema declares as required
    *
    * @example
    * ```typescript
-   * const exactMap = new ExactKeyMap<[
-   *   ['name', string] | ['age', number]
-   * ]>([
-   *   ['name', 'Alice'],
-   *   ['age', 30],
+   * new ExactKeyMap<Es<['name', string]>>().clear(); // ✅
+   * user.clear(); // ❌ TypeScript error if user has required keys
+   * ```
+   */
+  clear(
+    this: [RequiredKeys<Entries>] extends [never]
+      ? ExactKeyMap<Entries>
+      : never,
+  ): void {
+    [...super.keys()].forEach((key) => this.#assertRemovable(key));
+    this.#removeAll();
+  }
+
+  /**
+   * Removes all entries, emitting a `clear` change event for each.
+   */
+  #removeAll(): void {
+    const removed = [...super.entries()];
+    super.clear();
+
+    removed.forEach(([key, oldValue]) => {
+      this.#unlink(oldValue, key);
+      this.#emit({
+        operation: 'clear',
+        path: [key],
+        key,
+        oldValue,
+        newValue: undefined,
+      });
+    });
+  }
+
+  /**
+   * Retrieves a value, falling back to the default declared in the map's
+   * schema while the key is absent.
+   *
+   * Defaults are declared with the `default` option of a schema definition;
+   * keys governed by a nested schema default to a fresh, empty nested map.
+   * The default is not inserted (use {@link ExactKeyMap.getOrInsert} for
+   * that), and arrays, typed arrays and maps are copied on every call. Only
+   * keys with a default (see `DefaultedEntry`, as inferred by `InferEs`) are
+   * accepted.
+   *
+   * @typeParam K - The specific key type from the entries (must have a default)
+   * @param key - The key to retrieve
+   * @returns The value associated with the key, or its default
+   * @throws {TypeError} If the key is absent and the map's schema declares no
+   *   default for it (e.g. because the map has no schema)
+   *
+   * @example
+   * ```typescript
+   * const ConfigSchema = defineSchema([
+   *   ['retries', isNumber, { default: 3 }],
+   *   ['server', defineSchema([['port', isNumber, { default: 80 }]])],
    * ]);
+   * const config = new ExactKeyMap<InferEs<typeof ConfigSchema>>([], {
+   *   schema: ConfigSchema,
+   * });
    *
-   * const plainMap = exactMap.asMap();
-   * console.log(plainMap.get('name')); // 'Alice'
-   * console.log(plainMap.get('age'));  // 30
+   * config.getOrDefault('retries'); // 3 (number)
+   * config.getOrDefault('server').getOrDefault('port'); // 80
    * ```
+   */
+  getOrDefault<K extends DefaultedKeyOrAlias<Entries>>(
+    key: K,
+  ): ValueOfKey<Entries, K> {
+    const resolved = this.#resolveKey(key);
+    if (super.has(resolved)) {
+      return super.get(resolved) as ValueOfKey<Entries, K>;
+    }
+
+    return this.#defaultFor(resolved) as ValueOfKey<Entries, K>;
+  }
+
+  /**
+   * Retrieves a value, inserting one first if the key is absent.
+   *
+   * The inserted value is the result of `factory` or, if no factory is
+   * given, the key's default (see {@link ExactKeyMap.getOrDefault}); the
+   * factory may only be omitted for keys with a default. Since nested keys of
+   * a schema default to a fresh nested map, nested writes need no
+   * `undefined` checks.
+   *
+   * @typeParam K - The specific key type from the entries (must be a valid key)
+   * @param key - The key to retrieve
+   * @param factory - Creates the value to insert
+   * @returns The existing or inserted value
+   * @throws {TypeError} If the key is absent, no factory is given and the
+   *   map's schema declares no default for it
    *
    * @example
    * ```typescript
-   * // With nested ExactKeyMaps
-   * const nested = new ExactKeyMap<[
-   *   ['user', ExactKeyMap<[['id', number] | ['name', string]]>]
-   * ]>([
-   *   ['user', new ExactKeyMap([['id', 1], ['name', 'Bob']])],
-   * ]);
+   * config.getOrInsert('server').set('port', 443);
+   * headers.getOrInsert(Headers.IV, () => randomIV());
+   * ```
+   */
+  getOrInsert<K extends KeyOrAlias<Entries>>(
+    key: K,
+    factory: () => ValueOfKey<Entries, K>,
+  ): ValueOfKey<Entries, K>;
+  getOrInsert<K extends DefaultedKeyOrAlias<Entries>>(
+    key: K,
+  ): ValueOfKey<Entries, K>;
+  getOrInsert<K extends KeyOrAlias<Entries>>(
+    key: K,
+    factory?: () => ValueOfKey<Entries, K>,
+  ): ValueOfKey<Entries, K> {
+    const resolved = this.#resolveKey(key);
+    if (super.has(resolved)) {
+      return super.get(resolved) as ValueOfKey<Entries, K>;
+    }
+
+    const value = factory
+      ? factory()
+      : (this.#defaultFor(resolved) as ValueOfKey<Entries, K>);
+    this.set(key, value);
+    return value;
+  }
+
+  /**
+   * Replaces a value with the result of `updater`.
    *
-   * const plainMap = nested.asMap();
-   * const userMap = plainMap.get('user'); // Plain Map, not ExactKeyMap
+   * The updater receives the current value or, if the key is absent, its
+   * default (see {@link ExactKeyMap.getOrDefault}), so it never sees
+   * `undefined`. Only keys with a default are accepted; use `set` for others.
+   *
+   * @typeParam K - The specific key type from the entries (must have a default)
+   * @param key - The key to update
+   * @param updater - Computes the new value from the current one
+   * @returns The `ExactKeyMap` instance for method chaining
+   * @throws {TypeError} If the key is absent and the map's schema declares no
+   *   default for it
+   *
+   * @example
+   * ```typescript
+   * config.update('retries', (retries) => retries + 1);
    * ```
    */
-  asMap(): Map<KeysOfEntries<Entries>, AllValues<Entries>> {
-    const map = new Map<KeysOfEntries<Entries>, AllValues<Entries>>();
+  update<K extends DefaultedKeyOrAlias<Entries>>(
+    key: K,
+    updater: (value: ValueOfKey<Entries, K>) => ValueOfKey<Entries, K>,
+  ): this {
+    return this.set(key, updater(this.getOrDefault(key)));
+  }
 
-    this.forEach((value, key) => {
-      if (
-        value &&
-        typeof value === 'object' &&
-        'asMap' in value &&
-        typeof (value as { asMap: () => unknown }).asMap === 'function'
-      ) {
-        map.set(key, (value as { asMap: () => AllValues<Entries> }).asMap());
-      } else {
-        map.set(key, value);
+  /**
+   * Returns the options the map was created with.
+   */
+  #options(): ExactKeyMapOptions {
+    return {
+      order: this.#order,
+      schema: this.#schema,
+      strict: this.#strict,
+      keyNames: this.#keyNames,
+    };
+  }
+
+  /**
+   * Resolves an alias declared in the map's schema to its key. Keys and
+   * values of maps without a schema are returned unchanged.
+   */
+  #resolveKey(key: unknown): KeysOfEntries<Entries> {
+    return (
+      this.#schema ? this.#schema.keyFor(key) : key
+    ) as KeysOfEntries<Entries>;
+  }
+
+  /**
+   * Throws an `UnknownKeyError` in strict mode if the key is not allowed.
+   */
+  #assertKnownKey(key: unknown): void {
+    if (this.#strict === false) {
+      return;
+    }
+
+    const allowedKeys =
+      this.#strict === true
+        ? (this.#schema?.definitions ?? []).map(([allowedKey]) => allowedKey)
+        : this.#strict;
+    const known = allowedKeys.some(
+      (allowedKey) =>
+        allowedKey instanceof KeyPattern
+          ? allowedKey.matches(key)
+          : [allowedKey].includes(key), // SameValueZero, like Map keys
+    );
+
+    if (!known) {
+      throw new UnknownKeyError(key, allowedKeys);
+    }
+  }
+
+  /**
+   * Rejects removing a key the map's schema declares as required, which the
+   * types already reject unless the map was upcast (e.g. to `Map`).
+   */
+  #assertRemovable(key: unknown): void {
+    if (this.#schema?.requiredKeys.includes(key)) {
+      throw new TypeError(`Cannot remove required key ${formatPath([key])}`);
+    }
+  }
+
+  /**
+   * Creates the default value of a key from the map's schema.
+   */
+  #defaultFor(key: unknown): unknown {
+    this.#assertKnownKey(key);
+
+    const schema = this.#schema;
+    const options = nestedOptions(this.#options(), key);
+
+    if (schema?.hasDefault(key)) {
+      const value = schema.defaultFor(key);
+      return isNestable(value, schema.ruleFor(key))
+        ? new ExactKeyMap(value, options)
+        : cloneValue(value, {});
+    }
+
+    if (options.schema) {
+      return new ExactKeyMap([], options);
+    }
+
+    throw new TypeError(`No default value for key ${formatPath([key])}`);
+  }
+
+  /**
+   * Registers a listener that is called after every change to the map.
+   *
+   * `set`, `delete` and `clear` emit a `ChangeEvent` with the operation, the
+   * changed key and its old and new value. Changes inside nested
+   * `ExactKeyMap` values bubble up, so the event's `path` leads from this map
+   * to the changed entry. Setting a key to the value it already holds
+   * (per `Object.is`) emits nothing.
+   *
+   * @typeParam L - The listener type (generic so that maps with fewer
+   *   entries stay assignable to maps with more entries)
+   * @param listener - The function to call with each change event
+   * @returns A function that removes the listener
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = config.subscribe((event) => {
+   *   console.log(event.operation, event.path, event.oldValue, event.newValue);
+   * });
+   *
+   * config.setIn(['server', 'port'], 443); // logs 'set', ['server', 'port'], 80, 443
+   * unsubscribe();
+   * ```
+   */
+  subscribe<L extends ChangeListener<Entries>>(listener: L): () => void {
+    const callback = listener as unknown as AnyChangeListener;
+    this.#listeners.add(callback);
+
+    return () => {
+      this.#listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Registers a listener for the `change` event; an alias of
+   * {@link ExactKeyMap.subscribe}.
+   *
+   * @typeParam L - The listener type
+   * @param type - The event type; only `'change'` is supported
+   * @param listener - The function to call with each change event
+   * @returns A function that removes the listener
+   * @throws {TypeError} If `type` is not `'change'`
+   */
+  on<L extends ChangeListener<Entries>>(
+    type: 'change',
+    listener: L,
+  ): () => void {
+    if (type !== 'change') {
+      throw new TypeError(`Unknown event type: ${String(type)}`);
+    }
+
+    return this.subscribe(listener);
+  }
+
+  /**
+   * Records this map as a parent of `value` if it is an `ExactKeyMap`.
+   */
+  #link(value: unknown, key: unknown): void {
+    if (value instanceof ExactKeyMap) {
+      const parent = this as unknown as ExactKeyMap<Es<Entry>>;
+      const keys = value.#parents.get(parent) ?? new Set();
+      value.#parents.set(parent, keys.add(key));
+    }
+  }
+
+  /**
+   * Stores an entry in a new map built from this one (`clone`, `pick`,
+   * `filter`, ...) without emitting events. Only a value the new map owns,
+   * i.e. one created for it, links it as a parent: nested maps it merely
+   * shares with this map neither report their changes to it nor keep it alive.
+   */
+  #put(key: unknown, value: unknown, owned: boolean): void {
+    super.set(key as KeysOfEntries<Entries>, value as AllValues<Entries>);
+    if (owned) {
+      this.#link(value, key);
+    }
+  }
+
+  /**
+   * Removes the parent link recorded by `#link`.
+   */
+  #unlink(value: unknown, key: unknown): void {
+    if (value instanceof ExactKeyMap) {
+      const parent = this as unknown as ExactKeyMap<Es<Entry>>;
+      const keys = value.#parents.get(parent);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        value.#parents.delete(parent);
+      }
+    }
+  }
+
+  /**
+   * Calls the listeners of this map and bubbles the event up to its parents.
+   * `visited` holds the maps the event has already bubbled through, so that
+   * maps nested in themselves (directly or indirectly) do not loop forever.
+   */
+  #emit(
+    event: AnyChangeEvent,
+    visited: ReadonlySet<unknown> = new Set(),
+  ): void {
+    [...this.#listeners].forEach((listener) => listener(event));
+
+    const next = new Set(visited).add(this);
+    this.#parents.forEach((keys, parent) => {
+      if (next.has(parent)) {
+        return;
       }
+
+      keys.forEach((key) => {
+        parent.#emit({ ...event, path: [key, ...event.path] }, next);
+      });
     });
+  }
 
-    return map;
+  /**
+   * Retrieves a value from nested maps by key path.
+   *
+   * The path is checked against the `Es` type (see `KeyPath`) and the result is
+   * typed with `ValueAtPath`, so `map.getIn(['user', 'profile', 'name'])`
+   * replaces `map.get('user')?.get('profile')?.get('name')`.
+   *
+   * @typeParam P - The key path
+   * @param path - The keys leading to the value, outermost first
+   * @returns The value at the path, or `undefined` if any key along the path is missing
+   * @throws {TypeError} If the path is empty
+   *
+   * @example
+   * ```typescript
+   * type ProfileEs = Es<['name', string] | ['age', number]>;
+   * type Entries = Es<['id', number] | ['profile', ProfileEs]>;
+   * const user = new ExactKeyMap<Entries>([['profile', [['name', 'Alice']]]]);
+   *
+   * user.getIn(['profile', 'name']); // string | undefined
+   * // user.getIn(['profile', 'email']); // ❌ TypeScript error
+   * ```
+   */
+  getIn<const P extends KeyPath<Entries>>(
+    path: P,
+  ): ValueAtPath<Entries, P> | undefined {
+    return valueAt(this, toKeyPath(path)) as
+      | ValueAtPath<Entries, P>
+      | undefined;
   }
-}
+
+  /**
+   * Checks whether nested maps hold a value at a key path.
+   *
+   * @typeParam P - The key path
+   * @param path - The keys leading to the value, outermost first
+   * @returns `true` if every key along the path is present
+   * @throws {TypeError} If the path is empty
+   */
+  hasIn<const P extends KeyPath<Entries>>(path: P): boolean {
+    const keys = toKeyPath(path);
+    const parent = valueAt(this, keys.slice(0, -1));
+
+    return parent instanceof ExactKeyMap && parent.has(keys[keys.length - 1]);
+  }
+
+  /**
+   * Sets a value in nested maps by key path.
+   *
+   * Missing intermediate maps are created as empty `ExactKeyMap` instances
+   * that inherit this map's options (with the nested schema of their key).
+   * The value is typed with `ValueAtPath` and stored through `set`.
+   *
+   * @typeParam P - The key path
+   * @param path - The keys leading to the value, outermost first
+   * @param value - The value to set (must match `ValueAtPath<Entries, P>`)
+   * @returns The `ExactKeyMap` instance for method chaining
+   * @throws {TypeError} If the path is empty or passes through a value that is not a map
+   *
+   * @example
+   * ```typescript
+   * const user = new ExactKeyMap<Entries>([['id', 1]]);
+   * user.setIn(['profile', 'name'], 'Alice'); // creates the profile map
+   * // user.setIn(['profile', 'name'], 42); // ❌ TypeScript error
+   * ```
+   */
+  setIn<const P extends KeyPath<Entries>>(
+    path: P,
+    value: ValueAtPath<Entries, P>,
+  ): this {
+    const keys = toKeyPath(path);
+    let map: ExactKeyMap<Es<Entry>> = this as unknown as ExactKeyMap<Es<Entry>>;
+
+    keys.slice(0, -1).forEach((key, index) => {
+      let next = map.get(key);
+
+      if (next === undefined) {
+        next = new ExactKeyMap([], nestedOptions(map.#options(), key));
+        map.set(key, next);
+      }
+
+      if (!(next instanceof ExactKeyMap)) {
+        throw new TypeError(
+          `Cannot set a value at key path ${formatPath(keys)}: the value at ${formatPath(keys.slice(0, index + 1))} is not a map`,
+        );
+      }
+
+      map = next;
+    });
+
+    map.set(keys[keys.length - 1], value);
+    return this;
+  }
+
+  /**
+   * Replaces the value at a key path with the result of `updater`.
+   *
+   * The updater receives the current value (or `undefined` if it is missing)
+   * and its result is stored with {@link ExactKeyMap.setIn}, so missing
+   * intermediate maps are created.
+   *
+   * @typeParam P - The key path
+   * @param path - The keys leading to the value, outermost first
+   * @param updater - Computes the new value from the current one
+   * @returns The `ExactKeyMap` instance for method chaining
+   * @throws {TypeError} If the path is empty or passes through a value that is not a map
+   *
+   * @example
+   * ```typescript
+   * user.updateIn(['profile', 'age'], (age) => (age ?? 0) + 1);
+   * ```
+   */
+  updateIn<const P extends KeyPath<Entries>>(
+    path: P,
+    updater: (
+      value: ValueAtPath<Entries, P> | undefined,
+    ) => ValueAtPath<Entries, P>,
+  ): this {
+    return this.setIn(path, updater(this.getIn(path)));
+  }
+
+  /**
+   * Checks at runtime that every required key is present, including in nested maps.
+   *
+   * Types alone cannot guarantee required keys for data that arrived untyped
+   * (e.g. decoded without a schema or cast from `unknown`); this method
+   * verifies them against the schema passed in or, by default, the schema the
+   * map was created with (see `ExactKeyMap.parse` and the `schema` option).
+   *
+   * @param schema - The schema declaring the required keys; defaults to the map's own schema
+   * @throws {MissingKeyError} If required keys are missing; the error lists the key path of each
+   * @throws {TypeError} If no schema is given and the map has none
+   *
+   * @example
+   * ```typescript
+   * const headers = cbor.decode<ProtectedHeadersEntries>(bytes);
+   * headers.assertComplete(ProtectedHeadersSchema);
+   * headers.get(Headers.Algorithm); // number
+   * ```
+   */
+  assertComplete(
+    schema: Schema<readonly SchemaDefinition[]> | undefined = this.#schema,
+  ): void {
+    if (!schema) {
+      throw new TypeError(
+        'Cannot check required keys: the map has no schema and none was given',
+      );
+    }
+
+    const missing = schema.missingKeys(this);
+
+    if (missing.length > 0) {
+      throw new MissingKeyError(missing);
+    }
+  }
+
+  /**
+   * Recreates an `ExactKeyMap` from the output of {@link ExactKeyMap.toJSON}.
+   *
+   * Tagged values are revived (`Uint8Array`, `Date`, bigint, nested maps) and
+   * the result is validated against the schema with {@link ExactKeyMap.parse},
+   * so nested maps come back as typed `ExactKeyMap` instances.
+   *
+   * @typeParam S - The schema type; the result's entries are inferred from it
+   * @param json - JSON text, or the already-parsed JSON value
+   * @param schema - The schema describing the allowed keys and values
+   * @param options - Options for the resulting map and its nested maps
+   * @returns A typed `ExactKeyMap` holding the revived data
+   * @throws {SyntaxError} If the JSON text or a tagged value is malformed
+   * @throws {SchemaValidationError} If the revived data violates the schema
+   *
+   * @example
+   * ```typescript
+   * const json = JSON.stringify(headers);
+   * const restored = ExactKeyMap.fromJSON(json, ProtectedHeadersSchema);
+   * restored.get(Headers.KeyID); // Uint8Array | undefined
+   * ```
+   */
+  static fromJSON<S extends Schema<readonly SchemaDefinition[]>>(
+    json: string | JsonValue,
+    schema: S,
+    options: ExactKeyMapOptions = {},
+  ): ExactKeyMap<InferEs<S>> {
+    const value: JsonValue = typeof json === 'string' ? JSON.parse(json) : json;
+    return ExactKeyMap.parse(schema, fromJSONValue(value), options);
+  }
+
+  /**
+   * Returns an iterator over the map's `[key, value]` pairs in the map's key order.
+   *
+   * With the default `'insertion'` order this is the native `Map` iterator.
+   * With any other order the entries are sorted when the iterator is created.
+   *
+   * @returns An iterator over the map's entries
+   *
+   * @example
+   * ```typescript
+   * const map = new ExactKeyMap<Es<[1, string] | [-1, string] | [100, string]>>(
+   *   [[100, 'c'], [-1, 'b'], [1, 'a']],
+   *   { order: 'deterministic' },
+   * );
+   * [...map.entries()]; // [[1, 'a'], [-1, 'b'], [100, 'c']]
+   * ```
+   */
+  entries(): MapIterator<EntryOf<Entries>> {
+    return this.#orderedEntries() as MapIterator<EntryOf<Entries>>;
+  }
+
+  /**
+   * Returns the entries in the map's key order, or in `order`, typed like
+   * `Map.prototype.entries`.
+   */
+  #orderedEntries(
+    order: KeyOrder = this.#order,
+  ): MapIterator<[KeysOfEntries<Entries>, AllValues<Entries>]> {
+    if (order === 'insertion') {
+      return super.entries();
+    }
+
+    return sortEntries(super.entries(), order)[Symbol.iterator]();
+  }
+
+  /**
+   * Returns the key order the map is exported in while nested in a map
+   * exported in `inherited`: its own order, or the inherited one if its own
+   * is `'insertion'`. Maps stored with `set` thus follow the order of the
+   * map they are exported from, like maps created from nested entry arrays,
+   * which inherit it; their own iteration is unaffected.
+   */
+  #exportOrder(inherited: KeyOrder): KeyOrder {
+    return this.#order === 'insertion' ? inherited : this.#order;
+  }
+
+  /**
+   * Returns an iterator over the map's keys in the map's key order.
+   *
+   * @returns An iterator over the map's keys
+   */
+  keys(): MapIterator<KeysOfEntries<Entries>> {
+    if (this.#order === 'insertion') {
+      return super.keys();
+    }
+
+    return Array.from(this.#orderedEntries(), ([key]) => key)[
+      Symbol.iterator
+    ]();
+  }
+
+  /**
+   * Returns an iterator over the map's values in the map's key order.
+   *
+   * @returns An iterator over the map's values
+   */
+  values(): MapIterator<AllValues<Entries>> {
+    if (this.#order === 'insertion') {
+      return super.values();
+    }
+
+    return Array.from(this.#orderedEntries(), ([, value]) => value)[
+      Symbol.iterator
+    ]();
+  }
+
+  /**
+   * Returns an iterator over the map's entries in the map's key order; used by `for...of` and spreading.
+   * The pairs are typed as `EntryOf<Entries>`, so comparing the key narrows the value.
+   *
+   * @returns An iterator over the map's entries
+   */
+  [Symbol.iterator](): MapIterator<EntryOf<Entries>> {
+    return this.entries();
+  }
+
+  /**
+   * Calls `callbackfn` once for each entry, in the map's key order.
+   *
+   * Value and key are typed per entry, so comparing `key` narrows `value`.
+   *
+   * @param callbackfn - The function to call for each entry
+   * @param thisArg - The value to use as `this` when calling `callbackfn`
+   */
+  forEach(
+    callbackfn: (
+      ...args: ForEachArgs<
+        Entries,
+        [map: Map<KeysOfEntries<Entries>, AllValues<Entries>>]
+      >
+    ) => void,
+    thisArg?: unknown,
+  ): void;
+  forEach(
+    callbackfn: (...args: ForEachArgs<Entries, []>) => void,
+    thisArg?: unknown,
+  ): void;
+  forEach(
+    callbackfn: (
+      value: AllValues<Entries>,
+      key: KeysOfEntries<Entries>,
+      map: Map<KeysOfEntries<Entries>, AllValues<Entries>>,
+    ) => void,
+    thisArg?: unknown,
+  ): void;
+  forEach(callbackfn: (...args: never) => void, thisArg?: unknown): void {
+    const callback = callbackfn as (
+      value: AllValues<Entries>,
+      key: KeysOfEntries<Entries>,
+      map: Map<KeysOfEntries<Entries>, AllValues<Entries>>,
+    ) => void;
+
+    if (this.#order === 'insertion') {
+      super.forEach(callback, thisArg);
+      return;
+    }
+
+    for (const [key, value] of this.#orderedEntries()) {
+      callback.call(thisArg, value, key, this);
+    }
+  }
+
+  /**
+   * Compares the map structurally with another map.
+   *
+   * Maps are equal if they hold equal entries, regardless of insertion order,
+   * key order option or class. Nested maps are compared recursively, typed
+   * arrays byte-wise and other values as described for `deepEqual`.
+   *
+   * @param other - The map to compare with
+   * @returns True if both maps hold structurally equal entries
+   *
+   * @example
+   * ```typescript
+   * const a = new ProtectedHeaders([[Headers.Algorithm, -7], [Headers.KeyID, new Uint8Array([1])]]);
+   * const b = new ProtectedHeaders([[Headers.KeyID, new Uint8Array([1])], [Headers.Algorithm, -7]]);
+   *
+   * a === b;     // false
+   * a.equals(b); // true
+   * ```
+   */
+  equals(other: ReadonlyMap<unknown, unknown>): boolean {
+    return deepEqual(this, other);
+  }
+
+  /**
+   * Compares two maps structurally; see {@link ExactKeyMap.equals}.
+   *
+   * @param a - The first map
+   * @param b - The second map
+   * @returns True if both maps hold structurally equal entries
+   */
+  static equals(
+    a: ReadonlyMap<unknown, unknown>,
+    b: ReadonlyMap<unknown, unknown>,
+  ): boolean {
+    return deepEqual(a, b);
+  }
+
+  /**
+   * Computes a structural hash of the map.
+   *
+   * Maps that are {@link ExactKeyMap.equals | equal} always have the same
+   * hash, so it can be used to deduplicate maps or as a cache key. The hash
+   * only depends on the entries and is stable across processes; different
+   * maps may still collide, so confirm matches with `equals`.
+   *
+   * @returns A non-negative integer below `2 ** 53`
+   *
+   * @example
+   * ```typescript
+   * const cache = new Map<number, Result>();
+   * cache.set(headers.hash(), result);
+   * ```
+   */
+  hash(): number {
+    return hash(this);
+  }
+
+  /**
+   * Creates a copy of the map with the same class, options and entries.
+   *
+   * The copy is created with the map's own constructor, so cloning a
+   * `ProtectedHeaders` instance returns a `ProtectedHeaders` instance, and keeps
+   * the key order and schema of the original. A deep clone (the default)
+   * recursively clones nested maps and copies typed arrays, `ArrayBuffer`s,
+   * `DataView`s and arrays, so changes to the clone never reach the original.
+   * Other values are stored as-is unless a `cloner` is given.
+   *
+   * @param options - Whether to clone deeply and how to copy other values
+   * @returns A new map of the same class holding copies of the entries
+   *
+   * @example
+   * ```typescript
+   * const copy = headers.clone();
+   * copy.get(Headers.KeyID)?.fill(0); // headers is unchanged
+   *
+   * // Copy Dates and other structured values as well
+   * const full = config.clone({ cloner: structuredClone });
+   *
+   * // Share nested maps and values
+   * const shallow = config.clone({ deep: false });
+   * ```
+   */
+  clone(options: CloneOptions = {}): this {
+    const { deep = true } = options;
+    const copy = this.#emptyCopy();
+
+    for (const [key, value] of super.entries()) {
+      copy.#put(key, deep ? cloneValue(value, options) : value, deep);
+    }
+
+    return copy;
+  }
+
+  /**
+   * Creates a new map with only the entries for the given keys, typed with
+   * `PickEs`.
+   *
+   * The new map keeps the key order, schema and strict mode of this map.
+   * Keys that are absent from this map are absent from the new map as well.
+   *
+   * @typeParam Keys - The keys to keep
+   * @param keys - The keys to keep
+   * @param options - Whether nested maps are shared or cloned; see `ProjectionOptions`
+   * @returns A new map with the picked entries
+   *
+   * @example
+   * ```typescript
+   * const profile = user.pick(['name', 'email']);
+   * // ExactKeyMap<Es<['name', string] | ['email', string]>>
+   *
+   * const algorithm = headers.pick([Headers.Algorithm], { nested: 'clone' });
+   * ```
+   */
+  pick<const Keys extends readonly KeysOfEntries<Entries>[]>(
+    keys: Keys,
+    options: ProjectionOptions = {},
+  ): ExactKeyMap<PickEs<Entries, Keys[number]>> {
+    return this.#project((key) => keys.includes(key as never), options);
+  }
+
+  /**
+   * Creates a new map without the entries for the given keys, typed with
+   * `OmitEs`.
+   *
+   * The new map keeps the key order, schema and strict mode of this map.
+   *
+   * @typeParam Keys - The keys to remove
+   * @param keys - The keys to remove
+   * @param options - Whether nested maps are shared or cloned; see `ProjectionOptions`
+   * @returns A new map with the remaining entries
+   *
+   * @example
+   * ```typescript
+   * const publicUser = user.omit(['password']);
+   * publicUser.get('password'); // ❌ TypeScript error
+   * ```
+   */
+  omit<const Keys extends readonly KeysOfEntries<Entries>[]>(
+    keys: Keys,
+    options: ProjectionOptions = {},
+  ): ExactKeyMap<OmitEs<Entries, Keys[number]>> {
+    return this.#project((key) => !keys.includes(key as never), options);
+  }
+
+  /**
+   * Copies the entries whose keys satisfy `keep` into a new map, in insertion order.
+   */
+  #project<Result extends Es<Entry>>(
+    keep: (key: unknown) => boolean,
+    options: ProjectionOptions,
+  ): ExactKeyMap<Result> {
+    const { nested = 'share' } = options;
+    const projection = new ExactKeyMap<Es<Entry>>([], this.#options());
+
+    for (const [key, value] of super.entries()) {
+      if (keep(key)) {
+        projection.#put(
+          key,
+          nested === 'clone' ? cloneMap(value) : value,
+          nested === 'clone',
+        );
+      }
+    }
+
+    return projection as unknown as ExactKeyMap<Result>;
+  }
+
+  /**
+   * Creates an empty instance of the same class for `clone` and `filter`.
+   *
+   * The default implementation calls the map's constructor without arguments.
+   * Subclasses whose constructor requires arguments must override this
+   * method; the key order, schema, strict mode and key names are copied onto
+   * the returned map afterwards, and any entries it holds are removed.
+   *
+   * @returns A new, empty instance of the same class
+   *
+   * @example
+   * ```typescript
+   * class SignedHeaders extends ExactKeyMap<Entries> {
+   *   constructor(readonly signer: Signer, entries?: Iterable<Entry>) {
+   *     super(entries);
+   *   }
+   *
+   *   protected override createEmpty(): this {
+   *     return new SignedHeaders(this.signer) as this;
+   *   }
+   * }
+   * ```
+   */
+  protected createEmpty(): this {
+    const Constructor = this.constructor as new () => this;
+
+    return new Constructor();
+  }
+
+  /**
+   * Creates an empty instance of the same class with the same key order,
+   * schema and strict mode.
+   */
+  #emptyCopy(): this {
+    const copy = this.createEmpty();
+
+    copy.#removeAll();
+    copy.#order = this.#order;
+    copy.#schema = this.#schema;
+    copy.#strict = this.#strict;
+    copy.#keyNames = this.#keyNames;
+
+    return copy;
+  }
+
+  /**
+   * Creates a new map with the values transformed by per-key mappers, typed
+   * with `MapValuesEs`.
+   *
+   * Each mapper receives the value of its key, typed with `ValueOfKey`, and
+   * the key. For a key holding a nested map, pass an object of mappers to map
+   * the nested map's values recursively. Keys without a mapper keep their
+   * values, and nested maps without mappers are shared with this map.
+   *
+   * The new map is an instance of the same class with the same key order,
+   * schema, strict mode and key names. It is typed as this map's class if the
+   * mapped values keep the types of the values they replace, and as an
+   * `ExactKeyMap` otherwise.
+   *
+   * @typeParam M - The mappers, see `ValueMappers`
+   * @param mappers - The mappers, by key
+   * @returns A new map with the mapped values
+   *
+   * @example
+   * ```typescript
+   * const user = new ExactKeyMap<
+   *   Es<['id', number] | ['name', string] | ['profile', Es<['bio', string]>]>
+   * >([...]);
+   *
+   * const mapped = user.mapValues({
+   *   id: (id) => String(id),
+   *   profile: { bio: (bio) => bio.length },
+   * });
+   * // ExactKeyMap<Es<['id', string] | ['name', string] | ['profile', Es<['bio', number]>]>>
+   * ```
+   */
+  mapValues<const M extends ValueMappers<Entries>>(
+    mappers: M,
+  ): [MapValuesEs<Entries, M>] extends [Entries]
+    ? this
+    : ExactKeyMap<MapValuesEs<Entries, M>> {
+    const mapped = this.#emptyCopy();
+
+    for (const [key, value] of super.entries() as MapIterator<
+      [unknown, unknown]
+    >) {
+      const mapper = mapperFor(mappers, key);
+      mapped.#put(
+        key,
+        typeof mapper === 'function'
+          ? mapper(value, key)
+          : mapper !== undefined && value instanceof ExactKeyMap
+            ? value.mapValues(mapper as never)
+            : value,
+        mapper !== undefined,
+      );
+    }
+
+    return mapped as never;
+  }
+
+  /**
+   * Creates a new map with the entries that satisfy `predicate`, typed with
+   * `PartialEs` since required entries may be filtered out.
+   *
+   * The new map is an instance of the same class with the same key order,
+   * schema and strict mode, and is typed as such if the entries have no
+   * required keys (at any depth, with `deep: true`). With `deep: true`, the entries of kept nested
+   * maps are filtered as well; the predicate then receives untyped values
+   * and the key path of every entry.
+   *
+   * @param predicate - Returns whether to keep an entry
+   * @param options - Whether nested maps are filtered; see `FilterOptions`
+   * @returns A new map with the kept entries
+   *
+   * @example
+   * ```typescript
+   * const small = sizes.filter((value) => value < 10);
+   *
+   * // Drop empty strings at any depth
+   * const compact = config.filter((value) => value !== '', { deep: true });
+   * ```
+   */
+  filter(
+    predicate: (
+      value: AllValues<Entries>,
+      key: KeysOfEntries<Entries>,
+    ) => boolean,
+    options?: FilterOptions & { readonly deep?: false },
+  ): HasRequiredKeys<Entries, false> extends true
+    ? ExactKeyMap<PartialEs<Entries>>
+    : this;
+  filter(
+    predicate: (
+      value: unknown,
+      key: unknown,
+      path: readonly unknown[],
+    ) => boolean,
+    options: FilterOptions & { readonly deep: true },
+  ): HasRequiredKeys<Entries, true> extends true
+    ? ExactKeyMap<DeepPartialEs<Entries>>
+    : this;
+  filter(
+    predicate: (value: never, key: never, path: readonly unknown[]) => boolean,
+    options: FilterOptions = {},
+  ): unknown {
+    return this.#filter(
+      predicate as (
+        value: unknown,
+        key: unknown,
+        path: readonly unknown[],
+      ) => boolean,
+      options.deep === true,
+      [],
+    );
+  }
+
+  /**
+   * Filters this map and, if `deep`, its nested maps; see {@link ExactKeyMap.filter}.
+   */
+  #filter(
+    predicate: (
+      value: unknown,
+      key: unknown,
+      path: readonly unknown[],
+    ) => boolean,
+    deep: boolean,
+    path: readonly unknown[],
+  ): this {
+    const filtered = this.#emptyCopy();
+
+    for (const [key, value] of super.entries() as MapIterator<
+      [unknown, unknown]
+    >) {
+      const keyPath = [...path, key];
+      if (predicate(value, key, keyPath)) {
+        const nested = deep && value instanceof ExactKeyMap;
+        filtered.#put(
+          key,
+          nested ? value.#filter(predicate, deep, keyPath) : value,
+          nested,
+        );
+      }
+    }
+
+    return filtered;
+  }
+
+  /**
+   * Returns a lossless JSON representation of the map; called by `JSON.stringify`.
+   *
+   * The map becomes an array of `[key, value]` pairs in the map's key order,
+   * so numeric and enum keys keep their types. Values JSON cannot represent
+   * are wrapped in tag objects: nested maps as `{ "$map": [...] }`,
+   * `Uint8Array`s as `{ "$bytes": "<base64url>" }`, `Date`s as
+   * `{ "$date": "<ISO 8601>" }` and bigints as `{ "$bigint": "<decimal>" }`.
+   * Nested maps in insertion order are written in this map's order.
+   * Use {@link ExactKeyMap.fromJSON} to restore the map.
+   *
+   * @returns The JSON representation of the map
+   * @throws {TypeError} If a key or value cannot be represented (e.g. a function)
+   *
+   * @example
+   * ```typescript
+   * const headers = new ProtectedHeaders([
+   *   [Headers.Algorithm, -7],
+   *   [Headers.KeyID, new Uint8Array([0xaa, 0xbb])],
+   * ]);
+   *
+   * JSON.stringify(headers); // '[[1,-7],[4,{"$bytes":"qrs"}]]'
+   * ```
+   */
+  toJSON(): [JsonValue, JsonValue][] {
+    return Array.from(
+      this.#orderedEntries() as MapIterator<[unknown, unknown]>,
+      ([key, value]) => [
+        toJSONValue(key),
+        toJSONValue(
+          value instanceof ExactKeyMap
+            ? value.#asMap(value.#exportOrder(this.#order))
+            : value,
+        ),
+      ],
+    );
+  }
+
+  /**
+   * Converts the map to a plain object typed with `ObjectFromEs`, the inverse
+   * of {@link ExactKeyMap.fromObject}.
+   *
+   * Nested `ExactKeyMap` values are converted recursively, those in insertion
+   * order in this map's order; all other values
+   * are copied by reference. Only string and number keys can become
+   * properties; maps with other keys are rejected at compile time and at runtime.
+   *
+   * With `{ keys: 'names' }`, keys that have an alias in the map's schema are
+   * exported under their alias; nested maps are exported the same way.
+   *
+   * @typeParam Keys - Whether properties are named by keys or by aliases
+   * @param options - How keys become property names
+   * @returns A new plain object holding the map's entries
+   * @throws {TypeError} If a key (including a nested map's key) is not a string or a number
+   *
+   * @example
+   * ```typescript
+   * type Entries = Es<['name', string] | ['profile', Es<['age', number]>]>;
+   * const user = new ExactKeyMap<Entries>([['name', 'Alice'], ['profile', [['age', 30]]]]);
+   *
+   * user.toObject(); // { name: 'Alice', profile: { age: 30 } }
+   * headers.toObject({ keys: 'names' }); // { alg: -7, kid: Uint8Array }
+   * ```
+   */
+  toObject<Keys extends 'labels' | 'names' = 'labels'>(
+    this: ExactKeyMap<Entries> & CheckEsKeys<Entries>,
+    options: ToObjectOptions<Keys> = {},
+  ): ObjectFromEs<Entries, Keys> {
+    return this.#toObject(options, this.#order) as ObjectFromEs<Entries, Keys>;
+  }
+
+  /**
+   * Builds the plain object of {@link ExactKeyMap.toObject} in `order`.
+   */
+  #toObject(
+    options: ToObjectOptions<'labels' | 'names'>,
+    order: KeyOrder,
+  ): object {
+    const result = {};
+
+    for (const [key, value] of this.#orderedEntries(order) as MapIterator<
+      [unknown, unknown]
+    >) {
+      if (typeof key !== 'string' && typeof key !== 'number') {
+        throw new TypeError(
+          `toObject supports only string and number keys, got ${String(key)}`,
+        );
+      }
+
+      const property =
+        options.keys === 'names' ? (this.#schema?.aliasFor(key) ?? key) : key;
+
+      // defineProperty keeps keys such as '__proto__' as own properties
+      Object.defineProperty(result, property, {
+        value:
+          value instanceof ExactKeyMap
+            ? value.#toObject(options, value.#exportOrder(order))
+            : value,
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Converts the ExactKeyMap to a plain JavaScript Map.
+   *
+   * This method creates a new Map instance with the same key-value pairs as the
+   * ExactKeyMap, inserted in the map's key order. If any values are nested ExactKeyMaps (objects with an `asMap` method),
+   * they are recursively converted to plain Maps as well; nested maps in
+   * insertion order are exported in this map's order.
+   *
+   * @returns A new Map containing all key-value pairs from this ExactKeyMap
+   *
+   * @example
+   * ```typescript
+   * const exactMap = new ExactKeyMap<[
+   *   ['name', string] | ['age', number]
+   * ]>([
+   *   ['name', 'Alice'],
+   *   ['age', 30],
+   * ]);
+   *
+   * const plainMap = exactMap.asMap();
+   * console.log(plainMap.get('name')); // 'Alice'
+   * console.log(plainMap.get('age'));  // 30
+   * ```
+   *
+   * @example
+   * ```typescript
+   * // With nested ExactKeyMaps
+   * const nested = new ExactKeyMap<[
+   *   ['user', ExactKeyMap<[['id', number] | ['name', string]]>]
+   * ]>([
+   *   ['user', new ExactKeyMap([['id', 1], ['name', 'Bob']])],
+   * ]);
+   *
+   * const plainMap = nested.asMap();
+   * const userMap = plainMap.get('user'); // Plain Map, not ExactKeyMap
+   * ```
+   */
+  asMap(): Map<KeysOfEntries<Entries>, AllValues<Entries>> {
+    return this.#asMap(this.#order);
+  }
+
+  /**
+   * Builds the native map of {@link ExactKeyMap.asMap} in `order`.
+   */
+  #asMap(order: KeyOrder): Map<KeysOfEntries<Entries>, AllValues<Entries>> {
+    const map = new Map<unknown, unknown>();
+
+    for (const [key, value] of this.#orderedEntries(order) as MapIterator<
+      [unknown, unknown]
+    >) {
+      if (value instanceof ExactKeyMap) {
+        map.set(key, value.#asMap(value.#exportOrder(order)));
+      } else if (
+        value &&
+        typeof value === 'object' &&
+        'asMap' in value &&
+        typeof (value as { asMap: () => unknown }).asMap === 'function'
+      ) {
+        map.set(key, (value as { asMap: () => unknown }).asMap());
+      } else {
+        map.set(key, value);
+      }
+    }
+
+    return map as Map<KeysOfEntries<Entries>, AllValues<Entries>>;
+  }
+
+  /**
+   * Renders the map as an indented tree for logs and error messages. Node's
+   * `util.inspect`, and thus `console.log`, shows the same tree.
+   *
+   * Keys are shown with their alias (see the `alias` schema option) or their
+   * name from the `keyNames` option, followed by the key itself. `Uint8Array`s
+   * are shown in hex, nested maps (including native `Map`s) are expanded
+   * recursively as by {@link ExactKeyMap.asMap}, and long strings, arrays and
+   * byte strings are truncated.
+   *
+   * @param options - Limits for nesting and long values; see `InspectOptions`
+   * @returns The rendered map
+   *
+   * @example
+   * ```typescript
+   * const headers = new ExactKeyMap<HeaderEntries>(
+   *   [[Headers.Algorithm, -7], [Headers.KeyID, new Uint8Array([0xaa, 0xbb])]],
+   *   { keyNames: Headers },
+   * );
+   *
+   * headers.toString();
+   * // ExactKeyMap(2) {
+   * //   Algorithm (1) => -7,
+   * //   KeyID (4) => <Uint8Array aa bb>
+   * // }
+   * ```
+   */
+  toString(options: InspectOptions = {}): string {
+    return inspectMap(
+      this.constructor.name,
+      this.size,
+      this.#orderedEntries(),
+      (key) => this.#nameOf(key),
+      options,
+    );
+  }
+
+  /**
+   * Renders the map for Node's `util.inspect`, honoring its `depth`,
+   * `maxArrayLength` and `maxStringLength` options (`null` means no limit).
+   * A negative `depth` means the map itself lies beyond the depth limit, so
+   * it is collapsed like a nested map would be.
+   */
+  [inspectCustom](
+    depth: number | null,
+    options: {
+      readonly maxArrayLength?: number | null;
+      readonly maxStringLength?: number | null;
+    },
+  ): string {
+    if (depth !== null && depth < 0) {
+      return `${this.constructor.name}(${this.size}) {...}`;
+    }
+
+    return this.toString({
+      depth: depth ?? Infinity,
+      maxArrayLength: options.maxArrayLength ?? Infinity,
+      maxStringLength: options.maxStringLength ?? Infinity,
+    });
+  }
+
+  /**
+   * Returns the name `toString` shows for a key: its alias, or its entry in
+   * the `keyNames` option.
+   */
+  #nameOf(key: unknown): string | undefined {
+    const alias = this.#schema?.aliasFor(key);
+
+    if (alias !== undefined) {
+      return alias;
+    }
+
+    const name =
+      this.#keyNames !== undefined &&
+      (typeof key === 'string' || typeof key === 'number') &&
+      Object.prototype.hasOwnProperty.call(this.#keyNames, key)
+        ? this.#keyNames[key]
+        : undefined;
+    return typeof name === 'string' && name !== key ? name : undefined;
+  }
+}
+
+/**
+ * Builds a map from a plain object, converting nested plain objects.
+ */
+const buildFromObject = (
+  obj: object,
+  options: ExactKeyMapOptions,
+): ExactKeyMap<Es<Entry>> => {
+  if (!isPlainObject(obj)) {
+    throw new TypeError('fromObject expects a plain object');
+  }
+
+  if (Object.getOwnPropertySymbols(obj).length > 0) {
+    throw new TypeError('fromObject does not support symbol keys');
+  }
+
+  const map = new ExactKeyMap<Es<Entry>>([], options);
+
+  Object.keys(obj).forEach((property) => {
+    const key = toEntryKey(property);
+    const value = obj[property];
+    map.set(
+      key,
+      isPlainObject(value)
+        ? buildFromObject(value, nestedOptions(options, key))
+        : value,
+    );
+  });
+
+  return map;
+};
+
+/**
+ * Converts canonical numeric property names (e.g. `'1'`, `'-2'`, `'1.5'`) to numbers.
+ */
+const toEntryKey = (property: string): string | number => {
+  const number = Number(property);
+  return Number.isFinite(number) && String(number) === property
+    ? number
+    : property;
+};
+
+/**
+ * Builds a map from input that has already been validated against `schema`.
+ */
+const buildFromSchema = (
+  schema: Schema<readonly SchemaDefinition[]>,
+  input: unknown,
+  options: ExactKeyMapOptions,
+): ExactKeyMap<Es<Entry>> => {
+  const map = new ExactKeyMap<Es<Entry>>([], { ...options, schema });
+
+  (toEntries(input) ?? []).forEach(([key, value]) => {
+    const rule = schema.ruleFor(key);
+    map.set(
+      key,
+      rule instanceof Schema ? buildFromSchema(rule, value, options) : value,
+    );
+  });
+
+  return map;
+};
+
+/**
+ * Looks up the mapper for `key` in the mappers passed to `mapValues`.
+ */
+const mapperFor = (
+  mappers: object,
+  key: unknown,
+): ((value: unknown, key: unknown) => unknown) | object | undefined =>
+  (typeof key === 'string' ||
+    typeof key === 'number' ||
+    typeof key === 'symbol') &&
+  Object.prototype.hasOwnProperty.call(mappers, key)
+    ? (mappers as Record<PropertyKey, never>)[key]
+    : undefined;
+
+/**
+ * Deep-clones nested maps and keeps other values as-is; see `ProjectionOptions.nested`.
+ */
+const cloneMap = (value: unknown): unknown =>
+  value instanceof ExactKeyMap ? value.clone() : value;
+
+/**
+ * Copies a value for a deep clone; see `CloneOptions.cloner`.
+ */
+const cloneValue = (value: unknown, options: CloneOptions): unknown => {
+  if (value instanceof ExactKeyMap) {
+    return value.clone(options);
+  }
+
+  if (isTypedArray(value)) {
+    return (value as Uint8Array).slice();
+  }
+
+  if (value instanceof DataView) {
+    const { buffer, byteOffset, byteLength } = value;
+    return new DataView(buffer.slice(byteOffset, byteOffset + byteLength));
+  }
+
+  if (value instanceof ArrayBuffer) {
+    return value.slice(0);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => cloneValue(item, options));
+  }
+
+  return options.cloner ? options.cloner(value) : value;
+};
+
+/**
+ * The state shared by all levels of a merge.
+ */
+type MergeContext = {
+  readonly options: MergeOptions;
+  readonly order: KeyOrder;
+};
+
+/**
+ * Merges two maps (or copies one, if the other is `undefined`) into a new map.
+ */
+const mergeMaps = (
+  left: ExactKeyMap<Es<Entry>> | undefined,
+  right: ExactKeyMap<Es<Entry>> | undefined,
+  path: readonly unknown[],
+  context: MergeContext,
+): ExactKeyMap<Es<Entry>> => {
+  const result = new ExactKeyMap<Es<Entry>>([], { order: context.order });
+  const keys = new Set([...(left?.keys() ?? []), ...(right?.keys() ?? [])]);
+
+  keys.forEach((key) => {
+    result.set(key, mergeEntry(left, right, key, [...path, key], context));
+  });
+
+  return result;
+};
+
+/**
+ * Computes the merged value of one key.
+ */
+const mergeEntry = (
+  left: ExactKeyMap<Es<Entry>> | undefined,
+  right: ExactKeyMap<Es<Entry>> | undefined,
+  key: unknown,
+  path: readonly unknown[],
+  context: MergeContext,
+): unknown => {
+  if (!left?.has(key) || !right?.has(key)) {
+    return copyMergedValue(
+      left?.has(key) ? left.get(key) : right?.get(key),
+      path,
+      context,
+    );
+  }
+
+  const leftValue = left.get(key);
+  const rightValue = right.get(key);
+
+  if (leftValue instanceof ExactKeyMap && rightValue instanceof ExactKeyMap) {
+    return mergeMaps(leftValue, rightValue, path, context);
+  }
+
+  if (
+    context.options.arrays === 'concat' &&
+    Array.isArray(leftValue) &&
+    Array.isArray(rightValue)
+  ) {
+    return [...leftValue, ...rightValue];
+  }
+
+  if (deepEqual(leftValue, rightValue)) {
+    return copyMergedValue(leftValue, path, context);
+  }
+
+  const strategy = strategyFor(path, context.options);
+  switch (strategy) {
+    case 'left':
+      return copyMergedValue(leftValue, path, context);
+    case 'right':
+      return copyMergedValue(rightValue, path, context);
+    case 'throw':
+      throw new MergeConflictError(path, leftValue, rightValue);
+    default:
+      return strategy(leftValue, rightValue, path);
+  }
+};
+
+/**
+ * Copies nested maps taken from one side, so the result never shares maps
+ * with the inputs.
+ */
+const copyMergedValue = (
+  value: unknown,
+  path: readonly unknown[],
+  context: MergeContext,
+): unknown =>
+  value instanceof ExactKeyMap
+    ? mergeMaps(value, undefined, path, context)
+    : value;
+
+/**
+ * Finds the strategy of the longest per-key path that is a prefix of `path`.
+ */
+const strategyFor = (
+  path: readonly unknown[],
+  options: MergeOptions,
+): MergeStrategy => {
+  const matches = (options.keys ?? []).filter(
+    ([prefix]) =>
+      prefix.length <= path.length &&
+      prefix.every((key, index) => Object.is(key, path[index])),
+  );
+
+  const [longest] = matches.sort((x, y) => y[0].length - x[0].length);
+  return longest?.[1] ?? options.strategy ?? 'right';
+};
+
+/**
+ * Checks for native `Map`s that still need to be converted to `ExactKeyMap`s.
+ */
+const isNativeMap = (value: unknown): value is Map<unknown, unknown> =>
+  value instanceof Map && !(value instanceof ExactKeyMap);
+
+/**
+ * Checks whether the constructor turns a value into a nested map: entries and
+ * native maps are nested unless the key's schema rule is a validator.
+ */
+const isNestable = (
+  value: unknown,
+  rule: SchemaRule | undefined,
+): value is Es<Entry> | Map<unknown, unknown> =>
+  (rule === undefined || rule instanceof Schema) &&
+  (isEntries(value) || isNativeMap(value));
+
+/**
+ * Returns the keys of a key path, rejecting empty paths.
+ */
+const toKeyPath = (path: readonly unknown[]): readonly unknown[] => {
+  if (path.length === 0) {
+    throw new TypeError('Key path must not be empty');
+  }
+
+  return path;
+};
+
+/**
+ * Follows `keys` through nested maps; `undefined` once a key is missing or a value is not a map.
+ */
+const valueAt = (map: unknown, keys: readonly unknown[]): unknown =>
+  keys.reduce<unknown>(
+    (current, key) =>
+      current instanceof ExactKeyMap ? current.get(key) : undefined,
+    map,
+  );
+
+/**
+ * Derives the options of the nested map created for `key`: everything is
+ * inherited except the schema, which becomes the nested schema of `key`.
+ */
+const nestedOptions = (
+  options: ExactKeyMapOptions,
+  key: unknown,
+): ExactKeyMapOptions => {
+  const rule = options.schema?.ruleFor(key);
+  const schema = rule instanceof Schema ? rule : undefined;
+  return {
+    ...options,
+    schema,
+    strict: options.strict === true && schema !== undefined,
+  };
+};
+
+/**
+ * Renders the entries of a map, one indented `key => value` line each.
+ */
+const inspectMap = (
+  name: string,
+  size: number,
+  entries: Iterable<readonly [unknown, unknown]>,
+  nameOf: (key: unknown) => string | undefined,
+  options: InspectOptions,
+): string => {
+  if (size === 0) {
+    return `${name}(0) {}`;
+  }
+
+  const lines = Array.from(entries, ([key, value]) => {
+    const keyName = nameOf(key);
+    const label =
+      keyName === undefined
+        ? inspectKey(key)
+        : `${keyName} (${inspectKey(key)})`;
+    return `  ${label} => ${inspectValue(value, options).split('\n').join('\n  ')}`;
+  });
+
+  return `${name}(${size}) {\n${lines.join(',\n')}\n}`;
+};
+
+/**
+ * Renders a key for `toString`; unlike values, keys are never truncated.
+ */
+const inspectKey = (key: unknown): string =>
+  inspectValue(key, {
+    depth: 0,
+    maxArrayLength: Infinity,
+    maxStringLength: Infinity,
+  });
+
+/**
+ * Renders a single value for `toString`; nested maps use one level of `depth`.
+ */
+const inspectValue = (value: unknown, options: InspectOptions): string => {
+  const {
+    depth = Infinity,
+    maxArrayLength = 100,
+    maxStringLength = 10000,
+  } = options;
+
+  switch (typeof value) {
+    case 'string':
+      return value.length > maxStringLength
+        ? [
+            JSON.stringify(value.slice(0, maxStringLength)),
+            ...moreItems(value.length, maxStringLength, 'character'),
+          ].join('')
+        : JSON.stringify(value);
+    case 'bigint':
+      return `${value}n`;
+    case 'function':
+      return `[Function${value.name ? ` ${value.name}` : ''}]`;
+    case 'object':
+      break;
+    default:
+      return String(value);
+  }
+
+  if (value === null) {
+    return 'null';
+  }
+
+  const name = (value as object).constructor?.name ?? 'Object';
+
+  if (isReadonlyMap(value)) {
+    if (depth <= 0) {
+      return `${name}(${value.size}) {...}`;
+    }
+
+    const nested = { ...options, depth: depth - 1 };
+    return value instanceof ExactKeyMap
+      ? value.toString(nested)
+      : inspectMap(name, value.size, value.entries(), () => undefined, nested);
+  }
+
+  if (value instanceof Uint8Array) {
+    const bytes = Array.from(value.subarray(0, maxArrayLength), (byte) =>
+      byte.toString(16).padStart(2, '0'),
+    );
+    const parts = [
+      ...bytes,
+      ...moreItems(value.length, maxArrayLength, 'byte'),
+    ];
+    return `<${name}${parts.map((part) => ` ${part}`).join('')}>`;
+  }
+
+  if (Array.isArray(value) || isTypedArray(value)) {
+    const items = Array.from(value as ArrayLike<unknown>);
+    const parts = [
+      ...items
+        .slice(0, maxArrayLength)
+        .map((item) => inspectValue(item, options)),
+      ...moreItems(items.length, maxArrayLength, 'item'),
+    ];
+    const list = `[${parts.join(', ')}]`;
+    return Array.isArray(value) ? list : `${name}(${items.length}) ${list}`;
+  }
+
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+  }
+
+  return `${name} {...}`;
+};
+
+/**
+ * The note shown after truncated strings, arrays and byte strings, if any.
+ */
+const moreItems = (
+  length: number,
+  maxLength: number,
+  unit: string,
+): string[] => {
+  const more = length - maxLength;
+  return more > 0 ? [`... ${more} more ${unit}${more === 1 ? '' : 's'}`] : [];
+};
@@ -0,0 +1,42 @@
+import type { Schema, SchemaDefinition } from '@/schema/Schema';
+import type { KeyOrder } from './KeyOrder';
+import type { KeyNames } from './KeyNames';
+
+/**
+ * Options accepted by the `ExactKeyMap` constructor.
+ *
+ * Options are inherited by the nested maps the constructor creates from
+ * nested entry arrays.
+ */
+export type ExactKeyMapOptions = {
+  /**
+   * The order used by `entries()`, `keys()`, `values()`, `forEach`,
+   * iteration, `asMap()` and every export built on them.
+   * Defaults to `'insertion'`; maps in insertion order that are stored in a
+   * map with another order follow that order when that map is exported
+   * (`toJSON()`, `toObject()`, `asMap()`, `cbor.encode`), but keep their own
+   * order when iterated directly.
+   */
+  readonly order?: KeyOrder;
+  /**
+   * The schema describing the map, used by `assertComplete()` to find missing
+   * required keys. Nested maps receive the nested schema of their key.
+   * `ExactKeyMap.parse` sets it automatically.
+   */
+  readonly schema?: Schema<readonly SchemaDefinition[]>;
+  /**
+   * Enables strict key enforcement: the constructor, `set` and `get` throw an
+   * `UnknownKeyError` for keys outside the allowed set. Pass the allowed keys,
+   * with key patterns (see `keyMatching`) for catch-all entries, or `true` to
+   * allow exactly the keys of `schema`. Key lists apply to the map itself
+   * only; `true` also applies to nested maps that have a nested schema.
+   * Defaults to `false`.
+   */
+  readonly strict?: boolean | readonly unknown[];
+  /**
+   * Names shown for keys by `toString()` and Node's `util.inspect`, such as
+   * an enum object for integer labels; see `KeyNames`. Aliases declared in
+   * `schema` take precedence.
+   */
+  readonly keyNames?: KeyNames;
+};
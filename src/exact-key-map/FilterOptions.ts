@@ -0,0 +1,11 @@
+/**
+ * Options accepted by `ExactKeyMap.prototype.filter`.
+ */
+export type FilterOptions = {
+  /**
+   * Whether the entries of nested maps are filtered as well. Nested maps are
+   * tested as a whole first; the entries of kept nested maps are then passed
+   * to the predicate with their full key path. Defaults to `false`.
+   */
+  readonly deep?: boolean;
+};
@@ -0,0 +1,443 @@
+import type { KeysOfEntries } from '@/types/KeysOfEntries';
+import type { ValueOfKey } from '@/types/ValueOfKey';
+import type { AllValues } from '@/types/AllValues';
+import type { KeyPath } from '@/types/KeyPath';
+import type { ValueAtPath } from '@/types/ValueAtPath';
+import type { InitialEntries } from '@/types/InitialEntries';
+import type { OptionalKeys, RequiredKeys } from '@/types/RequiredEntry';
+import type { HasKey, HasKeys } from '@/types/HasKey';
+import { isEntries } from '@/utils/isEntities';
+import { deepEqual } from '@/utils/deepEqual';
+import { hash } from '@/utils/hash';
+import { Es } from '@/types/Es';
+import { Entry } from '@/types/Entry';
+import type { JsonValue } from '@/json/jsonValue';
+import { ExactKeyMap } from './ExactKeyMap';
+import { Raw } from './Raw';
+
+/**
+ * Constructor arguments: entries are mandatory if `Entries` has required keys.
+ */
+type ConstructorArgs<Entries extends Es<Entry>> = [
+  RequiredKeys<Entries>,
+] extends [never]
+  ? [entries?: Entries]
+  : [entries: InitialEntries<Entries>];
+
+/**
+ * Maps a value type to the type it has inside an `ImmutableExactKeyMap`:
+ * nested `ExactKeyMap` types become nested `ImmutableExactKeyMap` types,
+ * every other type is kept as-is.
+ *
+ * @typeParam V - The value type, usually resolved with `ValueOfKey`
+ */
+export type ImmutableValue<V> =
+  V extends ExactKeyMap<infer Child extends Es<Entry>>
+    ? ImmutableExactKeyMap<Child>
+    : V;
+
+/**
+ * A persistent, read-only counterpart of `ExactKeyMap`.
+ *
+ * Instances are frozen and never change: `with`, `without` and `withIn`
+ * return new instances and leave the original untouched. Entries that are not
+ * affected by an update are shared between the old and the new instance, so
+ * nested maps are never copied unless they lie on the updated path.
+ *
+ * The class implements `ReadonlyMap` but deliberately does not extend `Map`,
+ * so `Map.prototype.set.call(map, ...)` throws as well. Nested entry arrays and
+ * nested `ExactKeyMap` values are converted to nested `ImmutableExactKeyMap`
+ * instances. Only the map structure is immutable; other values such as
+ * `Uint8Array`s are stored by reference.
+ *
+ * @typeParam Entries - A readonly array of key-value entry pairs that defines the allowed structure
+ *
+ * @example
+ * ```typescript
+ * type Entries = Es<[Headers.Algorithm, number] | [Headers.KeyID, Uint8Array]>;
+ * const headers = new ImmutableExactKeyMap<Entries>([[Headers.Algorithm, -7]]);
+ *
+ * const withKid = headers.with(Headers.KeyID, kid); // new instance
+ * headers.has(Headers.KeyID); // false
+ * // headers.with(Headers.Algorithm, 'ES256'); // ❌ TypeScript error
+ * ```
+ */
+export class ImmutableExactKeyMap<
+  Entries extends Es<readonly [unknown, unknown]>,
+> implements
+    ReadonlyMap<KeysOfEntries<Entries>, ImmutableValue<AllValues<Entries>>>
+{
+  #map: Map<unknown, unknown> = new Map();
+
+  /**
+   * Creates a new frozen map from the provided entries.
+   *
+   * If `Entries` has required keys (see `RequiredEntry`), the entries are
+   * mandatory and must start with a value for every required key.
+   *
+   * @param entries - The entries array that defines the map's structure and initial values
+   *
+   * @example
+   * ```typescript
+   * type ProfileEs = Es<['name', string] | ['email', string]>;
+   * type ExampleEntries = Es<['id', number] | ['profile', ProfileEs]>;
+   * const map = new ImmutableExactKeyMap<ExampleEntries>([
+   *   ['id', 1],
+   *   ['profile', [['name', 'Alice'], ['email', 'alice@example.com']]],
+   * ]);
+   * map.get('profile'); // ImmutableExactKeyMap<ProfileEs> | undefined
+   * ```
+   */
+  constructor(...args: ConstructorArgs<Entries>) {
+    const [entries = []] = args as unknown as [Es<Entry>?];
+
+    entries.forEach(([key, value]) => {
+      this.#map.set(
+        key,
+        value instanceof Raw
+          ? value.value
+          : isEntries(value)
+            ? new ImmutableExactKeyMap(value)
+            : toImmutableValue(value),
+      );
+    });
+
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates an immutable snapshot of an `ExactKeyMap`.
+   *
+   * Entries are taken in the map's key order and nested `ExactKeyMap` values
+   * are converted recursively. Later changes to `map` do not affect the snapshot.
+   *
+   * @param map - The map to snapshot
+   * @returns A new `ImmutableExactKeyMap` with the same entries
+   *
+   * @example
+   * ```typescript
+   * const headers = new ExactKeyMap<Entries>([[Headers.Algorithm, -7]]);
+   * const frozen = ImmutableExactKeyMap.from(headers);
+   * ```
+   */
+  static from<Entries extends Es<readonly [unknown, unknown]>>(
+    map: ExactKeyMap<Entries>,
+  ): ImmutableExactKeyMap<Entries> {
+    const copy = new Map<unknown, unknown>();
+
+    map.forEach((value, key) => {
+      copy.set(key, toImmutableValue(value));
+    });
+
+    return ImmutableExactKeyMap.#wrap(copy);
+  }
+
+  /**
+   * Wraps an internal map that is not referenced anywhere else.
+   */
+  static #wrap<Entries extends Es<readonly [unknown, unknown]>>(
+    map: Map<unknown, unknown>,
+  ): ImmutableExactKeyMap<Entries> {
+    const instance = new ImmutableExactKeyMap<Es<Entry>>();
+    instance.#map = map;
+    return instance as unknown as ImmutableExactKeyMap<Entries>;
+  }
+
+  /**
+   * The number of entries in the map.
+   */
+  get size(): number {
+    return this.#map.size;
+  }
+
+  /**
+   * Retrieves a value by key with exact type inference.
+   *
+   * @typeParam K - The specific key type from the entries (must be a valid key)
+   * @param key - The key to retrieve
+   * @returns The value associated with the key, or `undefined` if not found; nested maps are `ImmutableExactKeyMap` instances.
+   *   Required keys (see `RequiredEntry`) are typed without `undefined`.
+   */
+  get<K extends RequiredKeys<Entries>>(
+    key: K,
+  ): ImmutableValue<ValueOfKey<Entries, K>>;
+  get<K extends KeysOfEntries<Entries>>(
+    this: HasKey<NoInfer<K>>,
+    key: K,
+  ): ImmutableValue<ValueOfKey<Entries, K>>;
+  get<K extends KeysOfEntries<Entries>>(
+    key: K,
+  ): ImmutableValue<ValueOfKey<Entries, K>> | undefined;
+  get<K extends KeysOfEntries<Entries>>(
+    key: K,
+  ): ImmutableValue<ValueOfKey<Entries, K>> | undefined {
+    return this.#map.get(key) as
+      | ImmutableValue<ValueOfKey<Entries, K>>
+      | undefined;
+  }
+
+  /**
+   * Checks whether the map holds a value for the key.
+   *
+   * This is a type guard like `ExactKeyMap.has`: inside the guarded block
+   * `get(key)` is typed without `undefined`.
+   *
+   * @typeParam K - The key to look up
+   * @param key - The key to look up
+   * @returns `true` if the key is present
+   */
+  has<K extends KeysOfEntries<Entries>>(key: K): this is HasKey<K> {
+    return this.#map.has(key);
+  }
+
+  /**
+   * Checks whether the map holds a value for every key; a type guard like
+   * `ExactKeyMap.hasAll`.
+   *
+   * @typeParam Keys - The keys to look up
+   * @param keys - The keys to look up
+   * @returns `true` if every key is present (also for an empty list)
+   */
+  hasAll<const Keys extends readonly KeysOfEntries<Entries>[]>(
+    keys: Keys,
+  ): this is HasKeys<Keys> {
+    return keys.every((key) => this.#map.has(key));
+  }
+
+  /**
+   * Returns a new map with the value for `key` replaced or added.
+   *
+   * The value is typed exactly like `ExactKeyMap.set`. Nested `ExactKeyMap`
+   * values are converted to `ImmutableExactKeyMap` snapshots; all other
+   * entries are shared with this map. If the key already holds the same value
+   * (per `Object.is`), this map is returned unchanged.
+   *
+   * @typeParam K - The specific key type from the entries (must be a valid key)
+   * @param key - The key to set
+   * @param value - The value to set (must match the type for the specified key)
+   * @returns A new `ImmutableExactKeyMap`, or this map if nothing changed
+   *
+   * @example
+   * ```typescript
+   * const next = headers.with(Headers.Algorithm, -35);
+   * headers.get(Headers.Algorithm); // -7
+   * next.get(Headers.Algorithm);    // -35
+   * ```
+   */
+  with<K extends KeysOfEntries<Entries>>(
+    key: K,
+    value: ValueOfKey<Entries, K> | ImmutableValue<ValueOfKey<Entries, K>>,
+  ): ImmutableExactKeyMap<Entries> {
+    const next = toImmutableValue(value);
+
+    if (this.#map.has(key) && Object.is(this.#map.get(key), next)) {
+      return this;
+    }
+
+    return ImmutableExactKeyMap.#wrap(new Map(this.#map).set(key, next));
+  }
+
+  /**
+   * Returns a new map without the entry for `key`. Required keys (see
+   * `RequiredEntry`) cannot be removed.
+   *
+   * @typeParam K - The specific key type from the entries (must be a valid, optional key)
+   * @param key - The key to remove
+   * @returns A new `ImmutableExactKeyMap`, or this map if the key is absent
+   */
+  without<K extends OptionalKeys<Entries>>(
+    key: K,
+  ): ImmutableExactKeyMap<Entries> {
+    if (!this.#map.has(key)) {
+      return this;
+    }
+
+    const next = new Map(this.#map);
+    next.delete(key);
+    return ImmutableExactKeyMap.#wrap(next);
+  }
+
+  /**
+   * Returns a new map with the value at a nested key path replaced or added.
+   *
+   * Only the maps along the path are recreated; every other nested map is
+   * shared with this map. Missing intermediate maps are created empty.
+   *
+   * @typeParam P - The key path (see `KeyPath`)
+   * @param path - The keys leading to the value, outermost first
+   * @param value - The value to set (must match `ValueAtPath<Entries, P>`)
+   * @returns A new `ImmutableExactKeyMap`, or this map if nothing changed
+   * @throws {TypeError} If the path is empty or passes through a value that is not a map
+   *
+   * @example
+   * ```typescript
+   * type Entries = Es<['id', number] | ['profile', Es<['name', string]>]>;
+   * const user = new ImmutableExactKeyMap<Entries>([['profile', [['name', 'Alice']]]]);
+   *
+   * const renamed = user.withIn(['profile', 'name'], 'Bob');
+   * // renamed.withIn(['profile', 'name'], 42); // ❌ TypeScript error
+   * ```
+   */
+  withIn<const P extends KeyPath<Entries>>(
+    path: P,
+    value: ValueAtPath<Entries, P> | ImmutableValue<ValueAtPath<Entries, P>>,
+  ): ImmutableExactKeyMap<Entries> {
+    const [key, ...rest] = path as readonly unknown[];
+
+    if ((path as readonly unknown[]).length === 0) {
+      throw new TypeError('Key path must not be empty');
+    }
+
+    const untyped = this as unknown as ImmutableExactKeyMap<Es<Entry>>;
+
+    if (rest.length === 0) {
+      return untyped.with(
+        key,
+        value,
+      ) as unknown as ImmutableExactKeyMap<Entries>;
+    }
+
+    const child = this.#map.get(key) ?? new ImmutableExactKeyMap();
+
+    if (!(child instanceof ImmutableExactKeyMap)) {
+      throw new TypeError(
+        `Cannot set a value at key path: the value at key ${String(key)} is not a map`,
+      );
+    }
+
+    return untyped.with(
+      key,
+      (child as ImmutableExactKeyMap<Es<Entry>>).withIn(rest as never, value),
+    ) as unknown as ImmutableExactKeyMap<Entries>;
+  }
+
+  /**
+   * Returns an iterator over the map's `[key, value]` pairs in insertion order.
+   *
+   * @returns An iterator over the map's entries
+   */
+  entries(): MapIterator<
+    [KeysOfEntries<Entries>, ImmutableValue<AllValues<Entries>>]
+  > {
+    return this.#map.entries() as MapIterator<
+      [KeysOfEntries<Entries>, ImmutableValue<AllValues<Entries>>]
+    >;
+  }
+
+  /**
+   * Returns an iterator over the map's keys in insertion order.
+   *
+   * @returns An iterator over the map's keys
+   */
+  keys(): MapIterator<KeysOfEntries<Entries>> {
+    return this.#map.keys() as MapIterator<KeysOfEntries<Entries>>;
+  }
+
+  /**
+   * Returns an iterator over the map's values in insertion order.
+   *
+   * @returns An iterator over the map's values
+   */
+  values(): MapIterator<ImmutableValue<AllValues<Entries>>> {
+    return this.#map.values() as MapIterator<
+      ImmutableValue<AllValues<Entries>>
+    >;
+  }
+
+  /**
+   * Returns an iterator over the map's entries; used by `for...of` and spreading.
+   *
+   * @returns An iterator over the map's entries
+   */
+  [Symbol.iterator](): MapIterator<
+    [KeysOfEntries<Entries>, ImmutableValue<AllValues<Entries>>]
+  > {
+    return this.entries();
+  }
+
+  /**
+   * Calls `callbackfn` once for each entry, in insertion order.
+   *
+   * @param callbackfn - The function to call for each entry
+   * @param thisArg - The value to use as `this` when calling `callbackfn`
+   */
+  forEach(
+    callbackfn: (
+      value: ImmutableValue<AllValues<Entries>>,
+      key: KeysOfEntries<Entries>,
+      map: ReadonlyMap<
+        KeysOfEntries<Entries>,
+        ImmutableValue<AllValues<Entries>>
+      >,
+    ) => void,
+    thisArg?: unknown,
+  ): void {
+    for (const [key, value] of this.entries()) {
+      callbackfn.call(thisArg, value, key, this);
+    }
+  }
+
+  /**
+   * Creates a mutable deep copy of the map.
+   *
+   * @returns A new `ExactKeyMap`; nested immutable maps become nested `ExactKeyMap` instances
+   */
+  toExactKeyMap(): ExactKeyMap<Entries> {
+    const map = new ExactKeyMap<Es<Entry>>();
+
+    this.#map.forEach((value, key) => {
+      map.set(
+        key,
+        value instanceof ImmutableExactKeyMap ? value.toExactKeyMap() : value,
+      );
+    });
+
+    return map as unknown as ExactKeyMap<Entries>;
+  }
+
+  /**
+   * Compares the map structurally with another map, like `ExactKeyMap.prototype.equals`.
+   * An `ImmutableExactKeyMap` equals an `ExactKeyMap` holding the same entries.
+   *
+   * @param other - The map to compare with
+   * @returns True if both maps hold structurally equal entries
+   */
+  equals(other: ReadonlyMap<unknown, unknown>): boolean {
+    return deepEqual(this, other);
+  }
+
+  /**
+   * Computes the same structural hash as `ExactKeyMap.prototype.hash`.
+   * Since the map never changes, the hash can safely be used as a cache key.
+   *
+   * @returns A non-negative integer below `2 ** 53`
+   */
+  hash(): number {
+    return hash(this);
+  }
+
+  /**
+   * Returns the same lossless JSON representation as `ExactKeyMap.prototype.toJSON`.
+   *
+   * @returns The JSON representation of the map
+   * @throws {TypeError} If a key or value cannot be represented (e.g. a function)
+   */
+  toJSON(): [JsonValue, JsonValue][] {
+    return this.toExactKeyMap().toJSON();
+  }
+
+  /**
+   * Converts the map to a plain JavaScript `Map`; nested maps are converted as well.
+   *
+   * @returns A new, mutable `Map` containing all key-value pairs
+   */
+  asMap(): Map<KeysOfEntries<Entries>, AllValues<Entries>> {
+    return this.toExactKeyMap().asMap();
+  }
+}
+
+/**
+ * Converts nested `ExactKeyMap` values to immutable snapshots.
+ */
+const toImmutableValue = (value: unknown): unknown =>
+  value instanceof ExactKeyMap ? ImmutableExactKeyMap.from(value) : value;
@@ -0,0 +1,20 @@
+/**
+ * Options accepted by `ExactKeyMap.prototype.toString`. Node's `util.inspect`
+ * (and thus `console.log`) passes its own options of the same names.
+ */
+export type InspectOptions = {
+  /**
+   * How many levels of nested maps are expanded; deeper maps are shown as
+   * `ExactKeyMap(size) {…}`. Defaults to `Infinity`.
+   */
+  readonly depth?: number;
+  /**
+   * The maximum number of array items and bytes of a typed array to show.
+   * Defaults to `100`.
+   */
+  readonly maxArrayLength?: number;
+  /**
+   * The maximum number of characters of a string to show. Defaults to `10000`.
+   */
+  readonly maxStringLength?: number;
+};
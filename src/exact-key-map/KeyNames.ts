@@ -0,0 +1,10 @@
+/**
+ * Names for the keys of a map, shown by `ExactKeyMap.prototype.toString` and
+ * Node's `util.inspect`.
+ *
+ * A numeric enum object such as `Headers` names its numeric keys through its
+ * reverse mapping (`Headers[1]` is `'Algorithm'`); a record such as
+ * `{ iss: 'issuer' }` names string keys. Entries whose value is not a string
+ * are ignored.
+ */
+export type KeyNames = { readonly [key: string | number]: string | number };
@@ -0,0 +1,52 @@
+import { compareEncodedKeys, encodeItem } from '@/cbor/encode';
+
+/**
+ * Compares two keys, as for `Array.prototype.sort`.
+ *
+ * Comparators apply to nested maps as well, so they receive keys of any level.
+ */
+export type KeyComparator = (a: unknown, b: unknown) => number;
+
+/**
+ * The order in which an `ExactKeyMap` iterates and exports its entries.
+ *
+ * - `'insertion'` - native `Map` insertion order (the default)
+ * - `'deterministic'` - keys ordered by their CBOR encoding: shorter encodings
+ *   first, then bytewise (the length-first ordering of RFC 8949, Section 4.2.3).
+ *   Keys must be CBOR-encodable.
+ * - a {@link KeyComparator} - a custom order
+ */
+export type KeyOrder = 'insertion' | 'deterministic' | KeyComparator;
+
+/**
+ * Sorts entries according to a key order.
+ *
+ * @param entries - The entries to sort (left untouched)
+ * @param order - The key order to apply
+ * @returns A new, sorted array of entries
+ *
+ * @example
+ * ```ts
+ * sortEntries([[100, 'a'], [-1, 'b'], [1, 'c']], 'deterministic');
+ * // [[1, 'c'], [-1, 'b'], [100, 'a']]
+ * ```
+ */
+export const sortEntries = <K, V>(
+  entries: Iterable<readonly [K, V]>,
+  order: KeyOrder,
+): [K, V][] => {
+  const copy = Array.from(entries, ([key, value]): [K, V] => [key, value]);
+
+  if (order === 'insertion') {
+    return copy;
+  }
+
+  if (order === 'deterministic') {
+    return copy
+      .map((entry) => [encodeItem(entry[0]), entry] as const)
+      .sort(([a], [b]) => compareEncodedKeys(a, b))
+      .map(([, entry]) => entry);
+  }
+
+  return copy.sort(([a], [b]) => order(a, b));
+};
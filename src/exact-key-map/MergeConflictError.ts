@@ -0,0 +1,37 @@
+import { formatPath } from '@/schema/SchemaValidationError';
+
+/**
+ * Thrown by `ExactKeyMap.merge` when the `'throw'` strategy meets a key whose
+ * values differ in both maps.
+ */
+export class MergeConflictError extends Error {
+  /**
+   * The key path of the conflicting entry, from the root map.
+   */
+  readonly path: readonly unknown[];
+
+  /**
+   * The value in the left map.
+   */
+  readonly left: unknown;
+
+  /**
+   * The value in the right map.
+   */
+  readonly right: unknown;
+
+  /**
+   * Creates a new error for a conflicting entry.
+   *
+   * @param path - The key path of the conflicting entry
+   * @param left - The value in the left map
+   * @param right - The value in the right map
+   */
+  constructor(path: readonly unknown[], left: unknown, right: unknown) {
+    super(`Merge conflict at ${formatPath(path)}`);
+    this.name = 'MergeConflictError';
+    this.path = path;
+    this.left = left;
+    this.right = right;
+  }
+}
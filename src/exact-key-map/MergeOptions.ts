@@ -0,0 +1,73 @@
+import type { Es } from '@/types/Es';
+import type { Entry } from '@/types/Entry';
+import type { KeyPath } from '@/types/KeyPath';
+import type { ValueAtPath } from '@/types/ValueAtPath';
+
+/**
+ * Resolves a conflict between two values of the same key.
+ *
+ * @typeParam Value - The values of the merged maps, which the resolver receives and returns
+ * @param left - The value in the left map
+ * @param right - The value in the right map
+ * @param path - The key path of the conflicting entry
+ * @returns The value to store in the merged map
+ */
+export type MergeResolver<Value = unknown> = (
+  left: Value,
+  right: Value,
+  path: readonly unknown[],
+) => Value;
+
+/**
+ * How `ExactKeyMap.merge` resolves a key whose values differ in both maps
+ * (unless both values are maps, which are merged recursively):
+ *
+ * - `'left'` keeps the left value,
+ * - `'right'` keeps the right value,
+ * - `'throw'` throws a `MergeConflictError`,
+ * - a function computes the merged value.
+ *
+ * @typeParam Value - The values a resolver function receives and returns
+ */
+export type MergeStrategy<Value = unknown> =
+  | 'left'
+  | 'right'
+  | 'throw'
+  | MergeResolver<Value>;
+
+/**
+ * The values a resolver receives and returns for a merged map: the value type
+ * of any key path, since strategies also apply to conflicts in nested maps.
+ */
+type MergedValue<Entries extends Es<Entry>> = ValueAtPath<
+  Entries,
+  KeyPath<Entries>
+>;
+
+/**
+ * Options accepted by `ExactKeyMap.merge`.
+ *
+ * @typeParam Entries - The entries of the merged map (see `MergeEs`)
+ */
+export type MergeOptions<Entries extends Es<Entry> = Es<Entry>> = {
+  /**
+   * The strategy for conflicts without a per-key strategy.
+   * Defaults to `'right'`.
+   */
+  readonly strategy?: MergeStrategy<MergedValue<Entries>>;
+  /**
+   * Per-key strategies as `[keyPath, strategy]` pairs. A strategy applies to
+   * the entry at its key path and to all conflicts within it; the longest
+   * matching path wins.
+   */
+  readonly keys?: readonly (readonly [
+    KeyPath<Entries>,
+    MergeStrategy<MergedValue<Entries>>,
+  ])[];
+  /**
+   * How to merge two arrays: `'concat'` concatenates them (left first), while
+   * `'replace'` treats them like any other conflicting values.
+   * Defaults to `'replace'`.
+   */
+  readonly arrays?: 'concat' | 'replace';
+};
@@ -0,0 +1,24 @@
+import { formatPath } from '@/schema/SchemaValidationError';
+
+/**
+ * Thrown by `assertComplete()` when required keys are missing from a map.
+ */
+export class MissingKeyError extends Error {
+  /**
+   * The key path of every missing key, from the root map.
+   */
+  readonly paths: readonly (readonly unknown[])[];
+
+  /**
+   * Creates a new error from the missing key paths.
+   *
+   * @param paths - The key path of every missing key
+   */
+  constructor(paths: readonly (readonly unknown[])[]) {
+    super(
+      `Missing ${paths.length} required key(s): ${paths.map(formatPath).join(', ')}`,
+    );
+    this.name = 'MissingKeyError';
+    this.paths = paths;
+  }
+}
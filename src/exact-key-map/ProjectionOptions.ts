@@ -0,0 +1,12 @@
+/**
+ * Options accepted by `ExactKeyMap.prototype.pick` and `omit`.
+ */
+export type ProjectionOptions = {
+  /**
+   * Whether the projection shares the nested maps of the original map
+   * (`'share'`) or holds deep clones of them (`'clone'`), so that changing
+   * one map never affects the other. Other values are always shared.
+   * Defaults to `'share'`.
+   */
+  readonly nested?: 'share' | 'clone';
+};
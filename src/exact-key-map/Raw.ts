@@ -0,0 +1,50 @@
+/**
+ * Marks a value to be stored as-is instead of being converted into a nested map.
+ *
+ * The constructors of `ExactKeyMap` and `ImmutableExactKeyMap` turn every
+ * entries-shaped value (an array of pairs, including an empty array) into a
+ * nested map. Declare such a value as `Raw<T>` in the `Es` and pass it wrapped
+ * with {@link raw}: the map stores the unwrapped value, and `NormalizeValue`
+ * resolves the value type to `T`, so `get` and `set` use the plain value.
+ *
+ * @typeParam T - The type of the wrapped value.
+ */
+export class Raw<T> {
+  readonly #value: T;
+
+  /**
+   * Creates a new raw marker.
+   *
+   * @param value - The value to store as-is
+   */
+  constructor(value: T) {
+    this.#value = value;
+  }
+
+  /**
+   * The wrapped value.
+   */
+  get value(): T {
+    return this.#value;
+  }
+}
+
+/**
+ * Wraps a value so the map constructors store it as-is; see {@link Raw}.
+ *
+ * @typeParam T - The type of the value.
+ * @param value - The value to store as-is.
+ * @returns A marker holding the value.
+ *
+ * @example
+ * ```ts
+ * type Entries = Es<['name', string] | ['points', Raw<[number, number][]>]>;
+ *
+ * const shape = new ExactKeyMap<Entries>([
+ *   ['name', 'line'],
+ *   ['points', raw([[0, 0], [3, 4]])],
+ * ]);
+ * shape.get('points'); // [number, number][] | undefined
+ * ```
+ */
+export const raw = <T>(value: T): Raw<T> => new Raw(value);
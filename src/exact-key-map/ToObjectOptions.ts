@@ -0,0 +1,13 @@
+/**
+ * Options accepted by `ExactKeyMap.prototype.toObject`.
+ *
+ * @typeParam Keys - How keys become property names; see `keys`.
+ */
+export type ToObjectOptions<Keys extends 'labels' | 'names' = 'labels'> = {
+  /**
+   * Whether properties are named by the keys themselves (`'labels'`) or by
+   * the aliases declared in the map's schema (`'names'`). Keys without an
+   * alias keep their label in both modes. Defaults to `'labels'`.
+   */
+  readonly keys?: Keys;
+};
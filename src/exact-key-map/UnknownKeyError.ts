@@ -0,0 +1,39 @@
+import { KeyPattern } from '@/schema/KeyPattern';
+import { formatPath } from '@/schema/SchemaValidationError';
+
+/**
+ * Thrown by maps in strict mode (see the `strict` option) when a key outside
+ * the allowed set is passed to the constructor, `set` or `get`.
+ */
+export class UnknownKeyError extends Error {
+  /**
+   * The offending key.
+   */
+  readonly key: unknown;
+
+  /**
+   * The keys and key patterns the map allows, in declaration order.
+   */
+  readonly allowedKeys: readonly unknown[];
+
+  /**
+   * Creates a new error for an unknown key.
+   *
+   * @param key - The offending key
+   * @param allowedKeys - The keys and key patterns the map allows
+   */
+  constructor(key: unknown, allowedKeys: readonly unknown[]) {
+    const allowed = allowedKeys.map((allowedKey) =>
+      allowedKey instanceof KeyPattern
+        ? `(${allowedKey.description})`
+        : formatPath([allowedKey]).slice(1, -1),
+    );
+
+    super(
+      `Unknown key ${formatPath([key])}; allowed keys: ${allowed.join(', ') || 'none'}`,
+    );
+    this.name = 'UnknownKeyError';
+    this.key = key;
+    this.allowedKeys = allowedKeys;
+  }
+}
@@ -1,6 +1,39 @@
 import { describe, it, expect, expectTypeOf } from 'vitest';
+import { inspect } from 'node:util';
+import { setFlagsFromString } from 'node:v8';
+import { runInNewContext } from 'node:vm';
+import { setTimeout } from 'node:timers/promises';
 import { ExactKeyMap } from '../ExactKeyMap';
 import { Es } from '@/types/Es';
+import type { Entry } from '@/types/Entry';
+import type { RequiredEntry } from '@/types/RequiredEntry';
+import type { InitialEntries } from '@/types/InitialEntries';
+import type { KeysOfEntries } from '@/types/KeysOfEntries';
+import type { ValueOfKey } from '@/types/ValueOfKey';
+import { MissingKeyError } from '../MissingKeyError';
+import { UnknownKeyError } from '../UnknownKeyError';
+import { Raw, raw } from '../Raw';
+import type { ChangeEvent } from '../ChangeEvent';
+import { MergeConflictError } from '../MergeConflictError';
+import type { InferEs } from '@/types/InferEs';
+import type { EsFromObject, RequiredEsFromObject } from '@/types/EsFromObject';
+import type { ObjectFromEs } from '@/types/ObjectFromEs';
+import type { DeepPartialEs, PartialEs } from '@/types/PartialEs';
+import type { AliasedEntry } from '@/types/AliasedEntry';
+import { encode } from '@/cbor/encode';
+import { defineSchema } from '@/schema/Schema';
+import { keyMatching } from '@/schema/KeyPattern';
+import { SchemaValidationError } from '@/schema/SchemaValidationError';
+import {
+  arrayOf,
+  isBigInt,
+  isDate,
+  isNumber,
+  isString,
+  isUint8Array,
+  literal,
+  oneOf,
+} from '@/schema/validators';
 
 enum Headers {
   Algorithm = 1,
@@ -420,4 +453,2720 @@ describe('ExactKeyMap', () => {
       expect(level3Map.get('value')).toBe('deep');
     });
   });
+
+  describe('parse', () => {
+    type OtherHeaders = Exclude<
+      Headers,
+      Headers.Algorithm | Headers.Critical | Headers.ContentType | Headers.KeyID
+    >;
+    const headerValues = Object.values(Headers).filter(
+      (value): value is Headers => typeof value === 'number',
+    );
+    const isOtherHeader = (key: unknown): key is OtherHeaders =>
+      headerValues.includes(key as Headers) &&
+      key !== Headers.Algorithm &&
+      key !== Headers.Critical &&
+      key !== Headers.ContentType &&
+      key !== Headers.KeyID;
+    const ProtectedHeadersSchema = defineSchema([
+      [Headers.Algorithm, isNumber],
+      [Headers.Critical, arrayOf(literal(...headerValues))],
+      [Headers.ContentType, oneOf(isNumber, isUint8Array)],
+      [Headers.KeyID, isUint8Array],
+      [
+        keyMatching(isOtherHeader),
+        oneOf(isUint8Array, arrayOf(isUint8Array), isNumber, arrayOf(isNumber)),
+      ],
+    ]);
+
+    it('valid: parses protected headers with the inferred Es type', () => {
+      const iv = new Uint8Array([0x01, 0x02]);
+      const headers = ExactKeyMap.parse(ProtectedHeadersSchema, [
+        [Headers.Algorithm, -7],
+        [Headers.IV, iv],
+      ] as unknown);
+
+      expect(headers).toBeInstanceOf(ExactKeyMap);
+      expect(headers.get(Headers.Algorithm)).toBe(-7);
+      expect(headers.get(Headers.IV)).toBe(iv);
+      expectTypeOf(headers).toEqualTypeOf<
+        ExactKeyMap<ProtectedHeadersEntries>
+      >();
+    });
+
+    it('valid: parses nested schemas into nested ExactKeyMaps', () => {
+      const schema = defineSchema([
+        ['id', isNumber],
+        ['profile', defineSchema([['name', isString]])],
+      ]);
+      const user = ExactKeyMap.parse(
+        schema,
+        new Map<unknown, unknown>([
+          ['id', 1],
+          ['profile', new Map([['name', 'Alice']])],
+        ]),
+      );
+
+      const profile = user.get('profile');
+      expect(profile).toBeInstanceOf(ExactKeyMap);
+      expect(profile?.get('name')).toBe('Alice');
+      expectTypeOf(profile).toEqualTypeOf<
+        ExactKeyMap<Es<['name', string]>> | undefined
+      >();
+    });
+
+    it('valid: keeps validated values as-is instead of nesting them', () => {
+      const isPairs = arrayOf(arrayOf(isNumber));
+      const schema = defineSchema([['points', isPairs]]);
+      const map = ExactKeyMap.parse(schema, [['points', [[1, 2]]]]);
+
+      expect(map.get('points')).toEqual([[1, 2]]);
+    });
+
+    it('invalid: throws with the key path of every violation', () => {
+      const schema = defineSchema([
+        ['id', isNumber],
+        ['profile', defineSchema([['name', isString]])],
+      ]);
+
+      expect(() =>
+        ExactKeyMap.parse(schema, [
+          ['id', 'one'],
+          ['profile', [['name', 1]]],
+        ]),
+      ).toThrow(SchemaValidationError);
+
+      try {
+        ExactKeyMap.parse(schema, [
+          ['id', 'one'],
+          ['profile', [['name', 1]]],
+        ]);
+      } catch (error) {
+        expect((error as SchemaValidationError).issues).toEqual([
+          { path: ['id'], message: 'Invalid value' },
+          { path: ['profile', 'name'], message: 'Invalid value' },
+        ]);
+      }
+    });
+
+    it('invalid: rejects unknown keys, including outside catch-all patterns', () => {
+      expect(() =>
+        ExactKeyMap.parse(ProtectedHeadersSchema, [[99, 1]]),
+      ).toThrow(SchemaValidationError);
+    });
+  });
+
+  describe('key order', () => {
+    type NestedEs = Es<['z', number] | ['a', number]>;
+    type Entries = Es<
+      [100, string] | [-1, string] | [1, string] | ['nested', NestedEs]
+    >;
+    const entries: Entries = [
+      [
+        'nested',
+        [
+          ['z', 1],
+          ['a', 2],
+        ],
+      ],
+      [100, 'c'],
+      [-1, 'b'],
+      [1, 'a'],
+    ];
+
+    it('valid: defaults to insertion order', () => {
+      const m = new ExactKeyMap<Entries>(entries);
+
+      expect([...m.keys()]).toEqual(['nested', 100, -1, 1]);
+    });
+
+    it('valid: deterministic order applies to every iteration API', () => {
+      const m = new ExactKeyMap<Entries>(entries, { order: 'deterministic' });
+      const expected = [1, -1, 100, 'nested'];
+
+      expect([...m.keys()]).toEqual(expected);
+      expect([...m.entries()].map(([key]) => key)).toEqual(expected);
+      expect([...m].map(([key]) => key)).toEqual(expected);
+      expect([...m.values()].slice(0, 3)).toEqual(['a', 'b', 'c']);
+
+      const visited: unknown[] = [];
+      m.forEach((_value, key, map) => {
+        visited.push(key);
+        expect(map).toBe(m);
+      });
+      expect(visited).toEqual(expected);
+    });
+
+    it('valid: order is independent of set order', () => {
+      const a = new ExactKeyMap<Entries>([], { order: 'deterministic' });
+      a.set(100, 'c').set(1, 'a');
+      const b = new ExactKeyMap<Entries>([], { order: 'deterministic' });
+      b.set(1, 'a').set(100, 'c');
+
+      expect([...a]).toEqual([...b]);
+      expect(encode(a)).toEqual(encode(b));
+    });
+
+    it('valid: nested maps created by the constructor inherit the order', () => {
+      const m = new ExactKeyMap<Entries>(entries, { order: 'deterministic' });
+
+      expect([...(m.get('nested')?.keys() ?? [])]).toEqual(['a', 'z']);
+    });
+
+    it('valid: nested maps stored with set follow the order on export', () => {
+      type OuterEs = Es<['n', ExactKeyMap<Es<[100, number] | [1, number]>>]>;
+      const q = new ExactKeyMap<OuterEs>([], { order: 'deterministic' });
+      const n = new ExactKeyMap<Es<[100, number] | [1, number]>>([
+        [100, 1],
+        [1, 2],
+      ]);
+      q.set('n', n);
+
+      expect(q.get('n')).toBe(n);
+      expect([...n.keys()]).toEqual([100, 1]);
+      expect([...n.entries()]).toEqual([
+        [100, 1],
+        [1, 2],
+      ]);
+      expect(JSON.stringify(q)).toBe('[["n",{"$map":[[1,2],[100,1]]}]]');
+      expect(JSON.stringify(n)).toBe('[[100,1],[1,2]]');
+      expect([...(q.asMap().get('n') as Map<number, number>).keys()]).toEqual([
+        1, 100,
+      ]);
+      expect(encode(q)).toEqual(
+        new Uint8Array([0xa1, 0x61, 0x6e, 0xa2, 0x01, 0x02, 0x18, 0x64, 0x01]),
+      );
+    });
+
+    it('valid: toObject exports nested maps stored with set in the order', () => {
+      type OuterEs = Es<['n', ExactKeyMap<Es<['bb', number] | ['a', number]>>]>;
+      const q = new ExactKeyMap<OuterEs>([], { order: 'deterministic' });
+      const n = new ExactKeyMap<Es<['bb', number] | ['a', number]>>([
+        ['bb', 1],
+        ['a', 2],
+      ]);
+      q.set('n', n);
+
+      expect(Object.keys(q.toObject().n ?? {})).toEqual(['a', 'bb']);
+      expect(Object.keys(n.toObject())).toEqual(['bb', 'a']);
+    });
+
+    it('valid: asMap exports in key order, recursively', () => {
+      const m = new ExactKeyMap<Entries>(entries, { order: 'deterministic' });
+      const plain = m.asMap();
+
+      expect([...plain.keys()]).toEqual([1, -1, 100, 'nested']);
+      expect([...(plain.get('nested') as Map<string, number>).keys()]).toEqual([
+        'a',
+        'z',
+      ]);
+    });
+
+    it('valid: CBOR export follows the key order', () => {
+      type HeadersEs = Es<[1, number] | [4, Uint8Array]>;
+      const m = new ExactKeyMap<HeadersEs>(
+        [
+          [4, new Uint8Array([0xaa])],
+          [1, -7],
+        ],
+        { order: 'deterministic' },
+      );
+
+      expect(encode(m)).toEqual(
+        new Uint8Array([0xa2, 0x01, 0x26, 0x04, 0x41, 0xaa]),
+      );
+    });
+
+    it('valid: supports a custom comparator', () => {
+      const descending = (a: unknown, b: unknown): number =>
+        String(b).localeCompare(String(a));
+      const m = new ExactKeyMap<Entries>(entries, { order: descending });
+
+      expect([...m.keys()]).toEqual(['nested', 100, 1, -1]);
+      expect([...(m.get('nested')?.keys() ?? [])]).toEqual(['z', 'a']);
+    });
+
+    it('valid: parse applies the order to the parsed maps', () => {
+      const schema = defineSchema([
+        [2, isNumber],
+        [
+          1,
+          defineSchema([
+            ['b', isNumber],
+            ['a', isNumber],
+          ]),
+        ],
+      ]);
+      const m = ExactKeyMap.parse(
+        schema,
+        [
+          [2, 0],
+          [
+            1,
+            [
+              ['b', 1],
+              ['a', 2],
+            ],
+          ],
+        ],
+        { order: 'deterministic' },
+      );
+
+      expect([...m.keys()]).toEqual([1, 2]);
+      expect([...(m.get(1)?.keys() ?? [])]).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('JSON', () => {
+    const ProfileSchema = defineSchema([
+      ['name', isString],
+      ['avatar', isUint8Array],
+    ]);
+    const AccountSchema = defineSchema([
+      [1, isNumber],
+      [Headers.KeyID, isUint8Array],
+      ['created', isDate],
+      ['balance', isBigInt],
+      ['profile', ProfileSchema],
+    ]);
+
+    const createAccount = (): ExactKeyMap<InferEs<typeof AccountSchema>> =>
+      ExactKeyMap.parse(AccountSchema, [
+        [1, -7],
+        [Headers.KeyID, new Uint8Array([0xaa, 0xbb])],
+        ['created', new Date(0)],
+        ['balance', 2n ** 70n],
+        [
+          'profile',
+          [
+            ['name', 'Alice'],
+            ['avatar', new Uint8Array([1, 2, 3])],
+          ],
+        ],
+      ]);
+
+    it('valid: JSON.stringify uses toJSON and keeps key types', () => {
+      type Entries = Es<[Headers.Algorithm, number] | ['name', string]>;
+      const m = new ExactKeyMap<Entries>([
+        [Headers.Algorithm, -7],
+        ['name', 'Alice'],
+      ]);
+
+      expect(JSON.stringify(m)).toBe('[[1,-7],["name","Alice"]]');
+    });
+
+    it('valid: toJSON tags binary, dates, bigints and nested maps', () => {
+      expect(createAccount().toJSON()).toEqual([
+        [1, -7],
+        [4, { $bytes: 'qrs' }],
+        ['created', { $date: '1970-01-01T00:00:00.000Z' }],
+        ['balance', { $bigint: '1180591620717411303424' }],
+        [
+          'profile',
+          {
+            $map: [
+              ['name', 'Alice'],
+              ['avatar', { $bytes: 'AQID' }],
+            ],
+          },
+        ],
+      ]);
+    });
+
+    it('valid: toJSON follows the key order', () => {
+      type Entries = Es<[100, number] | [1, number]>;
+      const m = new ExactKeyMap<Entries>(
+        [
+          [100, 1],
+          [1, 2],
+        ],
+        { order: 'deterministic' },
+      );
+
+      expect(m.toJSON()).toEqual([
+        [1, 2],
+        [100, 1],
+      ]);
+    });
+
+    it('valid: fromJSON round-trips into typed nested ExactKeyMaps', () => {
+      const account = createAccount();
+      const restored = ExactKeyMap.fromJSON(
+        JSON.stringify(account),
+        AccountSchema,
+      );
+
+      expect(restored.get(1)).toBe(-7);
+      expect(restored.get(Headers.KeyID)).toEqual(new Uint8Array([0xaa, 0xbb]));
+      expect(restored.get('created')).toEqual(new Date(0));
+      expect(restored.get('balance')).toBe(2n ** 70n);
+
+      const profile = restored.get('profile');
+      expect(profile).toBeInstanceOf(ExactKeyMap);
+      expect(profile?.get('avatar')).toEqual(new Uint8Array([1, 2, 3]));
+      expectTypeOf(profile).toEqualTypeOf<
+        ExactKeyMap<Es<['name', string] | ['avatar', Uint8Array]>> | undefined
+      >();
+    });
+
+    it('valid: fromJSON accepts an already-parsed JSON value', () => {
+      const restored = ExactKeyMap.fromJSON(
+        createAccount().toJSON(),
+        AccountSchema,
+      );
+
+      expect(restored.get('profile')?.get('name')).toBe('Alice');
+    });
+
+    it('invalid: fromJSON validates the revived data', () => {
+      expect(() =>
+        ExactKeyMap.fromJSON('[[1,{"$bytes":"AQ"}]]', AccountSchema),
+      ).toThrow(SchemaValidationError);
+      expect(() => ExactKeyMap.fromJSON('[[1,', AccountSchema)).toThrow(
+        SyntaxError,
+      );
+    });
+  });
+
+  describe('required keys', () => {
+    type RequiredHeadersEntries = Es<
+      | RequiredEntry<[Headers.Algorithm, number]>
+      | [Headers.KeyID, Uint8Array]
+      | [Headers.IV, Uint8Array]
+    >;
+
+    class RequiredHeaders extends ExactKeyMap<RequiredHeadersEntries> {
+      constructor(entries: InitialEntries<RequiredHeadersEntries>) {
+        super(entries);
+      }
+    }
+
+    type AccountEs = Es<
+      | RequiredEntry<['id', number]>
+      | ['owner', Es<RequiredEntry<['name', string]> | ['email', string]>]
+    >;
+
+    const AccountSchema = defineSchema([
+      ['id', isNumber, { required: true }],
+      [
+        'owner',
+        defineSchema([
+          ['name', isString, { required: true }],
+          ['email', isString],
+        ]),
+      ],
+    ]);
+
+    it('get returns the bare value type for required keys', () => {
+      const headers = new RequiredHeaders([[Headers.Algorithm, -7]]);
+
+      expect(headers.get(Headers.Algorithm)).toBe(-7);
+      expectTypeOf(headers.get(Headers.Algorithm)).toEqualTypeOf<number>();
+      expectTypeOf(headers.get(Headers.KeyID)).toEqualTypeOf<
+        Uint8Array | undefined
+      >();
+    });
+
+    it('get keeps undefined for unions that include optional keys', () => {
+      const headers = new RequiredHeaders([[Headers.Algorithm, -7]]);
+      const key = Headers.KeyID as Headers.Algorithm | Headers.KeyID;
+
+      expectTypeOf(headers.get(key)).toEqualTypeOf<
+        number | Uint8Array | undefined
+      >();
+    });
+
+    it('requires entries in the constructor, in any order', () => {
+      const kid = new Uint8Array([1]);
+
+      // @ts-expect-error - entries are mandatory
+      new ExactKeyMap<RequiredHeadersEntries>();
+      // @ts-expect-error - Algorithm values are numbers
+      new ExactKeyMap<RequiredHeadersEntries>([[Headers.Algorithm, 'ES256']]);
+
+      const headers = new ExactKeyMap<RequiredHeadersEntries>([
+        [Headers.KeyID, kid],
+        [Headers.Algorithm, -7],
+      ]);
+      expect([...headers.keys()]).toEqual([Headers.KeyID, Headers.Algorithm]);
+    });
+
+    it('rejects deleting required keys', () => {
+      const headers = new RequiredHeaders([
+        [Headers.Algorithm, -7],
+        [Headers.KeyID, new Uint8Array([1])],
+      ]);
+
+      expect(headers.delete(Headers.KeyID)).toBe(true);
+      // @ts-expect-error - Algorithm is required
+      headers.delete(Headers.Algorithm);
+    });
+
+    it('rejects clearing maps with required keys', () => {
+      const headers = new RequiredHeaders([
+        [Headers.Algorithm, -7],
+        [Headers.KeyID, new Uint8Array([1])],
+      ]);
+      const optional = new ExactKeyMap<Es<[Headers.IV, Uint8Array]>>([
+        [Headers.IV, new Uint8Array([1])],
+      ]);
+
+      expectTypeOf(headers.clear).thisParameter.toEqualTypeOf<never>();
+      expectTypeOf(optional.clear).thisParameter.toEqualTypeOf<
+        ExactKeyMap<Es<[Headers.IV, Uint8Array]>>
+      >();
+      // @ts-expect-error - Algorithm is required
+      headers.clear();
+      optional.clear();
+      expect(optional.size).toBe(0);
+    });
+
+    it('rejects removing keys the schema declares as required at runtime', () => {
+      const account = ExactKeyMap.parse(AccountSchema, [
+        ['id', 1],
+        ['owner', [['name', 'Alice']]],
+      ]);
+      const upcast: Map<unknown, unknown> = account;
+
+      expect(() => upcast.delete('id')).toThrow(
+        new TypeError('Cannot remove required key ["id"]'),
+      );
+      expect(() => upcast.clear()).toThrow(TypeError);
+      expect(account.get('id')).toBe(1);
+      expect(account.get('owner')?.get('name')).toBe('Alice');
+      expect(upcast.delete('owner')).toBe(true);
+    });
+
+    it('parse infers required keys and reports missing ones', () => {
+      const account = ExactKeyMap.parse(AccountSchema, [
+        ['id', 1],
+        ['owner', [['name', 'Alice']]],
+      ]);
+
+      expectTypeOf(account.get('id')).toEqualTypeOf<number>();
+      expectTypeOf(account.get('owner')?.get('name')).toEqualTypeOf<
+        string | undefined
+      >();
+      expect(() => ExactKeyMap.parse(AccountSchema, [['owner', []]])).toThrow(
+        SchemaValidationError,
+      );
+    });
+
+    it('assertComplete passes for complete maps', () => {
+      const account = ExactKeyMap.parse(AccountSchema, [['id', 1]]);
+
+      expect(() => account.assertComplete()).not.toThrow();
+    });
+
+    it('assertComplete reports missing keys using the map schema', () => {
+      const account = ExactKeyMap.parse(AccountSchema, [
+        ['id', 1],
+        ['owner', [['name', 'Alice']]],
+      ]);
+
+      account.get('owner')?.delete('email');
+      Map.prototype.delete.call(account, 'id');
+      Map.prototype.delete.call(account.get('owner'), 'name');
+
+      expect(() => account.assertComplete()).toThrow(MissingKeyError);
+      expect(() => account.assertComplete()).toThrow(
+        'Missing 2 required key(s): ["id"], ["owner", "name"]',
+      );
+    });
+
+    it('assertComplete checks untyped data against a given schema', () => {
+      const decoded = new ExactKeyMap<AccountEs>([
+        ['id', 1],
+        ['owner', [['email', 'a@b.c']]],
+      ] as unknown as InitialEntries<AccountEs>);
+
+      try {
+        decoded.assertComplete(AccountSchema);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(MissingKeyError);
+        expect((error as MissingKeyError).paths).toEqual([['owner', 'name']]);
+      }
+    });
+
+    it('passes nested schemas to nested maps created from the schema option', () => {
+      const account = new ExactKeyMap<AccountEs>(
+        [['id', 1], ['owner', [['email', 'a@b.c']]] as never],
+        { schema: AccountSchema },
+      );
+
+      expect(() => account.get('owner')?.assertComplete()).toThrow(
+        'Missing 1 required key(s): ["name"]',
+      );
+    });
+
+    it('assertComplete throws a TypeError without a schema', () => {
+      const headers = new RequiredHeaders([[Headers.Algorithm, -7]]);
+
+      expect(() => headers.assertComplete()).toThrow(TypeError);
+    });
+  });
+
+  describe('path access', () => {
+    type TagsEs = Es<['main', string] | ['extra', string[]]>;
+    type ProfileEs = Es<['name', string] | ['age', number] | ['tags', TagsEs]>;
+    type UserEs = Es<['id', number] | ['profile', ProfileEs]>;
+    type AppEs = Es<['user', UserEs] | ['version', string]>;
+
+    const createApp = (): ExactKeyMap<AppEs> =>
+      new ExactKeyMap<AppEs>([
+        [
+          'user',
+          [
+            ['id', 1],
+            [
+              'profile',
+              [
+                ['name', 'Alice'],
+                ['age', 30],
+              ],
+            ],
+          ],
+        ],
+        ['version', '1.0'],
+      ]);
+
+    it('getIn reads nested values with the ValueAtPath type', () => {
+      const app = createApp();
+
+      expect(app.getIn(['user', 'profile', 'name'])).toBe('Alice');
+      expect(app.getIn(['version'])).toBe('1.0');
+      expect(app.getIn(['user', 'profile'])).toBe(
+        app.get('user')?.get('profile'),
+      );
+      expectTypeOf(app.getIn(['user', 'profile', 'name'])).toEqualTypeOf<
+        string | undefined
+      >();
+      expectTypeOf(
+        app.getIn(['user', 'profile', 'tags', 'extra']),
+      ).toEqualTypeOf<string[] | undefined>();
+    });
+
+    it('getIn returns undefined for missing keys along the path', () => {
+      const app = createApp();
+
+      expect(app.getIn(['user', 'profile', 'tags', 'main'])).toBeUndefined();
+      expect(new ExactKeyMap<AppEs>().getIn(['user', 'id'])).toBeUndefined();
+    });
+
+    it('rejects invalid paths at compile time', () => {
+      const app = createApp();
+
+      // @ts-expect-error - unknown nested key
+      app.getIn(['user', 'email']);
+      // @ts-expect-error - id is not a map
+      app.hasIn(['user', 'id', 'x']);
+      // @ts-expect-error - name expects a string
+      app.setIn(['user', 'profile', 'name'], 42);
+      expect(app.getIn(['user', 'id'])).toBe(1);
+    });
+
+    it('hasIn checks every key along the path', () => {
+      const app = createApp();
+
+      expect(app.hasIn(['user', 'profile', 'age'])).toBe(true);
+      expect(app.hasIn(['user', 'profile', 'tags'])).toBe(false);
+      expect(app.hasIn(['user', 'profile', 'tags', 'main'])).toBe(false);
+    });
+
+    it('setIn updates nested values in place', () => {
+      const app = createApp();
+      const profile = app.get('user')?.get('profile');
+
+      expect(app.setIn(['user', 'profile', 'name'], 'Bob')).toBe(app);
+      expect(profile?.get('name')).toBe('Bob');
+    });
+
+    it('setIn creates missing intermediate maps with inherited options', () => {
+      const app = new ExactKeyMap<AppEs>([['version', '1.0']], {
+        order: 'deterministic',
+      });
+
+      app.setIn(['user', 'profile', 'tags', 'main'], 'admin');
+      app.setIn(['user', 'id'], 1);
+
+      const tags = app.getIn(['user', 'profile', 'tags']);
+      expect(tags).toBeInstanceOf(ExactKeyMap);
+      expect(tags?.get('main')).toBe('admin');
+      expect([...(app.get('user')?.keys() ?? [])]).toEqual(['id', 'profile']);
+    });
+
+    it('setIn throws for paths through non-map values', () => {
+      const app = new ExactKeyMap<Es<[string, unknown]>>([['id', 1]]);
+
+      expect(() => app.setIn(['id', 'x'] as never, 1 as never)).toThrow(
+        'Cannot set a value at key path ["id", "x"]: the value at ["id"] is not a map',
+      );
+    });
+
+    it('rejects empty paths at runtime', () => {
+      const app = createApp();
+
+      expect(() => app.getIn([] as never)).toThrow(
+        'Key path must not be empty',
+      );
+      expect(() => app.setIn([] as never, 1 as never)).toThrow(TypeError);
+    });
+
+    it('updateIn passes the current value to the updater', () => {
+      const app = createApp();
+
+      app.updateIn(['user', 'profile', 'age'], (age) => {
+        expectTypeOf(age).toEqualTypeOf<number | undefined>();
+        return (age ?? 0) + 1;
+      });
+      app.updateIn(['user', 'profile', 'tags', 'extra'], (extra) => [
+        ...(extra ?? []),
+        'new',
+      ]);
+
+      expect(app.getIn(['user', 'profile', 'age'])).toBe(31);
+      expect(app.getIn(['user', 'profile', 'tags', 'extra'])).toEqual(['new']);
+    });
+
+    it('setIn stores values through set', () => {
+      const calls: unknown[] = [];
+      class TrackedMap extends ExactKeyMap<AppEs> {
+        set<K extends KeysOfEntries<AppEs>>(
+          key: K,
+          value: ValueOfKey<AppEs, K>,
+        ): this {
+          calls.push(key);
+          return super.set(key, value);
+        }
+      }
+
+      new TrackedMap().setIn(['version'], '2.0');
+      expect(calls).toEqual(['version']);
+    });
+  });
+
+  describe('iterables and fromMap', () => {
+    type CredentialsEs = Es<['username', string] | ['password', string]>;
+    type DatabaseEs = Es<
+      ['host', string] | ['port', number] | ['credentials', CredentialsEs]
+    >;
+    type ConfigEs = Es<['database', DatabaseEs] | ['debug', boolean]>;
+
+    const createConfig = (): ExactKeyMap<ConfigEs> =>
+      new ExactKeyMap<ConfigEs>([
+        [
+          'database',
+          [
+            ['host', 'localhost'],
+            ['port', 5432],
+            [
+              'credentials',
+              [
+                ['username', 'admin'],
+                ['password', 'secret'],
+              ],
+            ],
+          ],
+        ],
+        ['debug', true],
+      ]);
+
+    it('accepts a native Map and converts nested Maps', () => {
+      const config = createConfig();
+      const restored = new ExactKeyMap(config.asMap());
+
+      expect(restored.get('database')).toBeInstanceOf(ExactKeyMap);
+      expect(
+        (restored.get('database') as ExactKeyMap<DatabaseEs>).get(
+          'credentials',
+        ),
+      ).toBeInstanceOf(ExactKeyMap);
+      expect(encode(restored)).toEqual(encode(config));
+    });
+
+    it('accepts generators and Sets of pairs', () => {
+      function* pairs(): Generator<['port', number] | ['host', string]> {
+        yield ['host', 'localhost'];
+        yield ['port', 5432];
+      }
+      const fromGenerator = new ExactKeyMap<DatabaseEs>(pairs());
+      const fromSet = new ExactKeyMap<DatabaseEs>(
+        new Set<DatabaseEs[number]>([['port', 1]]),
+      );
+
+      expect([...fromGenerator.keys()]).toEqual(['host', 'port']);
+      expect(fromSet.get('port')).toBe(1);
+    });
+
+    it('applies options to nested maps built from native Maps', () => {
+      const map = ExactKeyMap.fromMap<Es<[number, Es<[number, string]>]>>(
+        new Map([
+          [
+            2,
+            new Map([
+              [10, 'b'],
+              [1, 'a'],
+            ]),
+          ],
+        ]),
+        { order: 'deterministic' },
+      );
+
+      expect(map.get(2)).toBeInstanceOf(ExactKeyMap);
+      expect([...(map.get(2)?.keys() ?? [])]).toEqual([1, 10]);
+    });
+
+    it('keeps nested ExactKeyMap values as-is', () => {
+      const config = createConfig();
+      const copy = new ExactKeyMap(config);
+
+      expect(copy.get('database')).toBe(config.get('database'));
+    });
+
+    it('fromMap rebuilds a typed deep copy of asMap output', () => {
+      const config = createConfig();
+      const restored = ExactKeyMap.fromMap<ConfigEs>(config.asMap());
+
+      expectTypeOf(restored).toEqualTypeOf<ExactKeyMap<ConfigEs>>();
+      expect(restored.getIn(['database', 'credentials', 'username'])).toBe(
+        'admin',
+      );
+      expect(restored.get('database')).not.toBe(config.get('database'));
+      expect(restored.toJSON()).toEqual(config.toJSON());
+    });
+
+    it('fromMap passes options to nested maps', () => {
+      const restored = ExactKeyMap.fromMap<ConfigEs>(createConfig().asMap(), {
+        order: 'deterministic',
+      });
+
+      expect([...(restored.get('database')?.keys() ?? [])]).toEqual([
+        'host',
+        'port',
+        'credentials',
+      ]);
+    });
+  });
+
+  describe('plain objects', () => {
+    it('fromObject infers entries and converts nested plain objects', () => {
+      const config = ExactKeyMap.fromObject({
+        host: 'localhost',
+        port: 5432,
+        credentials: { username: 'admin', password: 'secret' },
+      });
+
+      expect(config.get('host')).toBe('localhost');
+      expect(config.get('credentials')).toBeInstanceOf(ExactKeyMap);
+      expect(config.getIn(['credentials', 'username'])).toBe('admin');
+      expectTypeOf(config).toEqualTypeOf<
+        ExactKeyMap<
+          Es<
+            | ['host', string]
+            | ['port', number]
+            | ['credentials', Es<['username', string] | ['password', string]>]
+          >
+        >
+      >();
+    });
+
+    it('fromObject converts numeric keys to numbers', () => {
+      const headers = ExactKeyMap.fromObject({ 1: -7, '4': 'kid', '01': 'x' });
+
+      expect([...headers.keys()]).toEqual([1, 4, '01']);
+      expectTypeOf(headers.get(4)).toEqualTypeOf<string | undefined>();
+      expectTypeOf(headers.get('01')).toEqualTypeOf<string | undefined>();
+    });
+
+    it('fromObject keeps arrays and non-plain objects as values', () => {
+      const bytes = new Uint8Array([1]);
+      const created = new Date(0);
+      const map = ExactKeyMap.fromObject({
+        pairs: [
+          ['a', 1],
+          ['b', 2],
+        ],
+        bytes,
+        created,
+      });
+
+      expect(map.get('pairs')).toEqual([
+        ['a', 1],
+        ['b', 2],
+      ]);
+      expect(map.get('bytes')).toBe(bytes);
+      expect(map.get('created')).toBe(created);
+    });
+
+    it('fromObject accepts null-prototype objects and passes options', () => {
+      const obj = Object.assign(Object.create(null), {
+        b: 1,
+        a: 2,
+      }) as { b: number; a: number };
+      const map = ExactKeyMap.fromObject(obj, { order: 'deterministic' });
+
+      expect([...map.keys()]).toEqual(['a', 'b']);
+    });
+
+    it('fromObject rejects symbol keys', () => {
+      const tag = Symbol('tag');
+
+      expect(() =>
+        // @ts-expect-error - symbol keys are not supported
+        ExactKeyMap.fromObject({ name: 'x', [tag]: 1 }),
+      ).toThrow('fromObject does not support symbol keys');
+      expect(() =>
+        // @ts-expect-error - nested symbol keys are not supported
+        ExactKeyMap.fromObject({ nested: { [tag]: 1 } }),
+      ).toThrow(TypeError);
+    });
+
+    it('fromObject rejects non-plain objects', () => {
+      expect(() => ExactKeyMap.fromObject(new Date())).toThrow(
+        'fromObject expects a plain object',
+      );
+    });
+
+    it('toObject converts nested maps to nested objects', () => {
+      type Entries = Es<
+        RequiredEntry<['name', string]> | ['profile', Es<['age', number]>]
+      >;
+      const user = new ExactKeyMap<Entries>([
+        ['name', 'Alice'],
+        ['profile', [['age', 30]]],
+      ]);
+      const obj = user.toObject();
+
+      expect(obj).toEqual({ name: 'Alice', profile: { age: 30 } });
+      expectTypeOf(obj).toEqualTypeOf<{
+        name: string;
+        profile?: { age?: number };
+      }>();
+    });
+
+    it('toObject keeps keys such as __proto__ as own properties', () => {
+      const map = new ExactKeyMap<Es<[string, number]>>([['__proto__', 1]]);
+      const obj = map.toObject();
+
+      expect(Object.keys(obj)).toEqual(['__proto__']);
+      expect(Object.getPrototypeOf(obj)).toBe(Object.prototype);
+    });
+
+    it('round trips through fromObject and toObject', () => {
+      const source = { 1: 'one', name: 'x', nested: { deep: { value: true } } };
+
+      expect(ExactKeyMap.fromObject(source).toObject()).toEqual(source);
+    });
+
+    it('converts recursive interfaces', () => {
+      interface Employee {
+        name: string;
+        manager?: Employee;
+      }
+      const source: Employee = { name: 'Bob', manager: { name: 'Alice' } };
+      const employee = ExactKeyMap.fromObject(source);
+
+      expect(employee.get('manager')?.get('name')).toBe('Alice');
+      expect(employee.toObject()).toEqual(source);
+      expectTypeOf(employee.get('manager')?.get('name')).toEqualTypeOf<
+        string | undefined
+      >();
+      expectTypeOf(employee.toObject().manager?.manager).toEqualTypeOf<
+        ObjectFromEs<EsFromObject<Employee>> | undefined
+      >();
+    });
+
+    it('types maps from interfaces with RequiredEsFromObject', () => {
+      interface Account {
+        id: number;
+        note?: string;
+      }
+      const account = new ExactKeyMap<RequiredEsFromObject<Account>>([
+        ['id', 1],
+      ]);
+
+      expectTypeOf(account.get('id')).toEqualTypeOf<number>();
+      expectTypeOf(account.get('note')).toEqualTypeOf<string | undefined>();
+      expectTypeOf(account.toObject()).toEqualTypeOf<Account>();
+      // @ts-expect-error - entries are mandatory, since id is required
+      new ExactKeyMap<RequiredEsFromObject<Account>>();
+    });
+
+    it('toObject rejects keys that are not strings or numbers', () => {
+      const map = new ExactKeyMap<Es<[boolean, number]>>([[true, 1]]);
+      const nested = new ExactKeyMap<Es<['a', Es<[symbol, number]>]>>([
+        ['a', [[Symbol('s'), 1]]],
+      ]);
+
+      // @ts-expect-error - boolean keys cannot become properties
+      expect(() => map.toObject()).toThrow(
+        'toObject supports only string and number keys, got true',
+      );
+      // @ts-expect-error - nested symbol keys cannot become properties
+      expect(() => nested.toObject()).toThrow(TypeError);
+    });
+  });
+
+  describe('equality and hashing', () => {
+    type ConfigEs = Es<
+      ['name', string] | ['server', Es<['host', string] | ['port', number]>]
+    >;
+
+    const createHeaders = (): ProtectedHeaders =>
+      new ProtectedHeaders([
+        [Headers.Algorithm, -7],
+        [Headers.KeyID, new Uint8Array([1, 2, 3])],
+      ]);
+
+    it('compares maps structurally, ignoring insertion order', () => {
+      const a = createHeaders();
+      const b = new ProtectedHeaders([
+        [Headers.KeyID, new Uint8Array([1, 2, 3])],
+        [Headers.Algorithm, -7],
+      ]);
+
+      expect(a).not.toBe(b);
+      expect(a.equals(b)).toBe(true);
+      expect(ExactKeyMap.equals(a, b)).toBe(true);
+    });
+
+    it('compares typed arrays byte-wise', () => {
+      const a = createHeaders();
+      const b = createHeaders();
+
+      b.set(Headers.KeyID, new Uint8Array([1, 2, 4]));
+
+      expect(a.equals(b)).toBe(false);
+      expect(a.equals(createHeaders())).toBe(true);
+    });
+
+    it('compares nested maps recursively', () => {
+      const a = new ExactKeyMap<ConfigEs>([
+        ['name', 'api'],
+        [
+          'server',
+          [
+            ['host', 'localhost'],
+            ['port', 80],
+          ],
+        ],
+      ]);
+      const b = new ExactKeyMap<ConfigEs>([
+        [
+          'server',
+          [
+            ['port', 80],
+            ['host', 'localhost'],
+          ],
+        ],
+        ['name', 'api'],
+      ]);
+
+      expect(a.equals(b)).toBe(true);
+
+      b.setIn(['server', 'port'], 443);
+
+      expect(a.equals(b)).toBe(false);
+    });
+
+    it('detects missing and extra keys', () => {
+      const a = createHeaders();
+      const b = createHeaders();
+
+      b.delete(Headers.KeyID);
+
+      expect(a.equals(b)).toBe(false);
+      expect(b.equals(a)).toBe(false);
+    });
+
+    it('ignores the key order option and compares with native maps', () => {
+      const a = new ExactKeyMap<ConfigEs>([['name', 'api']], {
+        order: 'deterministic',
+      });
+      const b = new ExactKeyMap<ConfigEs>([['name', 'api']]);
+
+      expect(a.equals(b)).toBe(true);
+      expect(a.equals(new Map([['name', 'api']]))).toBe(true);
+      expect(a.hash()).toBe(b.hash());
+    });
+
+    it('returns the same hash for equal maps', () => {
+      const a = createHeaders();
+      const b = new ProtectedHeaders([
+        [Headers.KeyID, new Uint8Array([1, 2, 3])],
+        [Headers.Algorithm, -7],
+      ]);
+
+      expect(a.hash()).toBe(b.hash());
+      expect(Number.isSafeInteger(a.hash())).toBe(true);
+    });
+
+    it('returns different hashes for different maps', () => {
+      const a = createHeaders();
+      const b = createHeaders();
+
+      b.set(Headers.KeyID, new Uint8Array([1, 2, 4]));
+
+      expect(a.hash()).not.toBe(b.hash());
+    });
+
+    it('can deduplicate maps by hash', () => {
+      const maps = [createHeaders(), createHeaders(), new ProtectedHeaders()];
+      const unique = new Map(maps.map((map) => [map.hash(), map]));
+
+      expect(unique.size).toBe(2);
+    });
+  });
+
+  describe('clone', () => {
+    type EventEs = Es<
+      | ['name', string]
+      | ['at', Date]
+      | ['payload', Es<['data', Uint8Array] | ['chunks', Uint8Array[]]>]
+    >;
+
+    const createEvent = (): ExactKeyMap<EventEs> =>
+      new ExactKeyMap<EventEs>([
+        ['name', 'signed'],
+        ['at', new Date(0)],
+        [
+          'payload',
+          [
+            ['data', new Uint8Array([1, 2])],
+            ['chunks', [new Uint8Array([3])]],
+          ],
+        ],
+      ]);
+
+    it('returns an equal map of the same subclass', () => {
+      const headers = new ProtectedHeaders([
+        [Headers.Algorithm, -7],
+        [Headers.KeyID, new Uint8Array([1, 2])],
+      ]);
+      const copy = headers.clone();
+
+      expect(copy).not.toBe(headers);
+      expect(copy).toBeInstanceOf(ProtectedHeaders);
+      expect(copy.equals(headers)).toBe(true);
+      expect(copy.get(Headers.Algorithm)).toBe(-7);
+      expectTypeOf(copy).toEqualTypeOf<ProtectedHeaders>();
+    });
+
+    it('creates copies with createEmpty for constructors with arguments', () => {
+      class SignedHeaders extends ExactKeyMap<ProtectedHeadersEntries> {
+        constructor(
+          readonly signer: string,
+          entries?: ProtectedHeadersEntries,
+        ) {
+          super(entries, { order: 'deterministic' });
+        }
+
+        protected override createEmpty(): this {
+          return new SignedHeaders(this.signer) as this;
+        }
+      }
+
+      const headers = new SignedHeaders('alice', [
+        [Headers.KeyID, new Uint8Array([1])],
+        [Headers.Algorithm, -7],
+      ]);
+      const copy = headers.clone();
+      const filtered = headers.filter((value) => typeof value === 'number');
+
+      expect(copy).toBeInstanceOf(SignedHeaders);
+      expect(copy.signer).toBe('alice');
+      expect(copy.equals(headers)).toBe(true);
+      expect(filtered).toBeInstanceOf(SignedHeaders);
+      expect([...filtered.keys()]).toEqual([Headers.Algorithm]);
+    });
+
+    it('copies nested maps and binary values deeply', () => {
+      const event = createEvent();
+      const copy = event.clone();
+
+      copy.setIn(['payload', 'data'], new Uint8Array([9]));
+      copy.get('payload')?.get('chunks')?.[0]?.fill(0);
+      event.get('payload')?.get('data')?.fill(7);
+
+      expect(copy.get('payload')).not.toBe(event.get('payload'));
+      expect(copy.get('payload')).toBeInstanceOf(ExactKeyMap);
+      expect(event.getIn(['payload', 'data'])).toEqual(new Uint8Array([7, 7]));
+      expect(event.getIn(['payload', 'chunks'])).toEqual([new Uint8Array([3])]);
+      expect(copy.getIn(['payload', 'data'])).toEqual(new Uint8Array([9]));
+    });
+
+    it('copies only the viewed bytes of typed arrays', () => {
+      const buffer = new Uint8Array([0, 1, 2, 3]);
+      const headers = new ProtectedHeaders([
+        [Headers.KeyID, buffer.subarray(1, 3)],
+      ]);
+      const kid = headers.clone().get(Headers.KeyID);
+
+      expect(kid).toEqual(new Uint8Array([1, 2]));
+      expect(kid?.buffer.byteLength).toBe(2);
+    });
+
+    it('keeps other values unless a cloner is given', () => {
+      const event = createEvent();
+
+      expect(event.clone().get('at')).toBe(event.get('at'));
+
+      const copy = event.clone({
+        cloner: (value) => (value instanceof Date ? new Date(value) : value),
+      });
+
+      expect(copy.get('at')).not.toBe(event.get('at'));
+      expect(copy.get('at')).toEqual(new Date(0));
+    });
+
+    it('passes only values it does not copy itself to the cloner', () => {
+      const seen: unknown[] = [];
+
+      createEvent().clone({
+        cloner: (value) => {
+          seen.push(value);
+          return value;
+        },
+      });
+
+      expect(seen).toEqual(['signed', new Date(0)]);
+    });
+
+    it('shares nested values when shallow', () => {
+      const event = createEvent();
+      const copy = event.clone({ deep: false });
+
+      copy.set('name', 'copied');
+
+      expect(copy.get('payload')).toBe(event.get('payload'));
+      expect(event.get('name')).toBe('signed');
+    });
+
+    it('keeps the key order and the schema', () => {
+      const schema = defineSchema([
+        ['b', isNumber, { required: true }],
+        ['a', isNumber],
+      ]);
+      const map = ExactKeyMap.parse(
+        schema,
+        [
+          ['a', 1],
+          ['b', 2],
+        ],
+        {
+          order: 'deterministic',
+        },
+      );
+      const copy = map.clone();
+
+      expect([...copy.keys()]).toEqual(['a', 'b']);
+      expect(() => copy.assertComplete()).not.toThrow();
+      expect(() => copy.clone().assertComplete()).not.toThrow();
+    });
+  });
+
+  describe('change events', () => {
+    type ServerEs = Es<['host', string] | ['port', number]>;
+    type ConfigEs = Es<['name', string] | ['server', ServerEs]>;
+
+    const createConfig = (): ExactKeyMap<ConfigEs> =>
+      new ExactKeyMap<ConfigEs>([
+        ['name', 'api'],
+        [
+          'server',
+          [
+            ['host', 'localhost'],
+            ['port', 80],
+          ],
+        ],
+      ]);
+
+    const record = <Entries extends Es<readonly [unknown, unknown]>>(
+      map: ExactKeyMap<Entries>,
+    ): ChangeEvent<Entries>[] => {
+      const events: ChangeEvent<Entries>[] = [];
+      map.subscribe((event) => events.push(event));
+      return events;
+    };
+
+    it('emits set, delete and clear events', () => {
+      const headers = new ProtectedHeaders([[Headers.Algorithm, -7]]);
+      const kid = new Uint8Array([1]);
+      const events = record(headers);
+
+      headers.set(Headers.Algorithm, -35);
+      headers.set(Headers.KeyID, kid);
+      headers.delete(Headers.Algorithm);
+      headers.clear();
+
+      expect(events).toEqual([
+        {
+          operation: 'set',
+          path: [Headers.Algorithm],
+          key: Headers.Algorithm,
+          oldValue: -7,
+          newValue: -35,
+        },
+        {
+          operation: 'set',
+          path: [Headers.KeyID],
+          key: Headers.KeyID,
+          oldValue: undefined,
+          newValue: kid,
+        },
+        {
+          operation: 'delete',
+          path: [Headers.Algorithm],
+          key: Headers.Algorithm,
+          oldValue: -35,
+          newValue: undefined,
+        },
+        {
+          operation: 'clear',
+          path: [Headers.KeyID],
+          key: Headers.KeyID,
+          oldValue: kid,
+          newValue: undefined,
+        },
+      ]);
+    });
+
+    it('does not emit for identical values or absent keys', () => {
+      const kid = new Uint8Array([1]);
+      const headers = new ProtectedHeaders([
+        [Headers.Algorithm, -7],
+        [Headers.KeyID, kid],
+      ]);
+      const events = record(headers);
+
+      headers.set(Headers.Algorithm, -7);
+      headers.set(Headers.KeyID, kid);
+      headers.delete(Headers.IV);
+      new ProtectedHeaders().clear();
+
+      expect(events).toEqual([]);
+      expect(headers.delete(Headers.IV)).toBe(false);
+    });
+
+    it('bubbles changes in nested maps with the full key path', () => {
+      const config = createConfig();
+      const events = record(config);
+
+      config.setIn(['server', 'port'], 443);
+      config.get('server')?.delete('host');
+
+      expect(events).toEqual([
+        {
+          operation: 'set',
+          path: ['server', 'port'],
+          key: 'port',
+          oldValue: 80,
+          newValue: 443,
+        },
+        {
+          operation: 'delete',
+          path: ['server', 'host'],
+          key: 'host',
+          oldValue: 'localhost',
+          newValue: undefined,
+        },
+      ]);
+    });
+
+    it('stops bubbling once a nested map is replaced or removed', () => {
+      const config = createConfig();
+      const server = config.get('server');
+      const events = record(config);
+
+      config.set('server', new ExactKeyMap<ServerEs>([['port', 1]]));
+      server?.set('port', 2);
+      config.get('server')?.set('port', 3);
+      const current = config.get('server');
+      config.delete('server');
+      current?.set('port', 4);
+
+      expect(events.map(({ path, newValue }) => [path, newValue])).toEqual([
+        [['server'], current],
+        [['server', 'port'], 3],
+        [['server'], undefined],
+      ]);
+    });
+
+    it('bubbles to every parent holding a shared nested map', () => {
+      type Entries = Es<['a', ServerEs] | ['b', ServerEs]>;
+      const shared = new ExactKeyMap<ServerEs>();
+      const map = new ExactKeyMap<Entries>();
+
+      map.set('a', shared);
+      map.set('b', shared);
+      const events = record(map);
+
+      shared.set('port', 80);
+
+      expect(events.map(({ path }) => path)).toEqual([
+        ['a', 'port'],
+        ['b', 'port'],
+      ]);
+    });
+
+    it('returns an unsubscribe handle', () => {
+      const config = createConfig();
+      const events: unknown[] = [];
+      const unsubscribe = config.on('change', (event) => events.push(event));
+
+      config.set('name', 'web');
+      unsubscribe();
+      config.set('name', 'api');
+
+      expect(events).toHaveLength(1);
+      expect(() => config.on('other' as 'change', () => {})).toThrow(
+        'Unknown event type: other',
+      );
+    });
+
+    it('types events from the Es', () => {
+      const config = createConfig();
+
+      config.subscribe((event) => {
+        expectTypeOf(event.operation).toEqualTypeOf<
+          'set' | 'delete' | 'clear'
+        >();
+        expectTypeOf(event.key).toEqualTypeOf<
+          'name' | 'server' | 'host' | 'port'
+        >();
+
+        if (event.key === 'port') {
+          expectTypeOf(event.path).toEqualTypeOf<readonly ['server', 'port']>();
+          expectTypeOf(event.newValue).toEqualTypeOf<number | undefined>();
+        }
+      });
+    });
+
+    it('does not report changes of shared nested maps to projections', () => {
+      const config = createConfig();
+      const picked = config.pick(['server']);
+      const projections = [
+        picked,
+        config.omit(['name']),
+        config.clone({ deep: false }),
+        config.filter(() => true),
+        config.mapValues({ name: (name) => name.toUpperCase() }),
+      ];
+      const events = projections.map((projection) => record(projection));
+      const owned = config.pick(['server'], { nested: 'clone' });
+      const ownedEvents = record(owned);
+
+      config.get('server')?.set('port', 443);
+      owned.get('server')?.set('port', 8080);
+
+      expect(events).toEqual(projections.map(() => []));
+      expect(ownedEvents).toHaveLength(1);
+      expect(picked.getIn(['server', 'port'])).toBe(443);
+    });
+
+    it('does not keep projections alive through shared nested maps', async () => {
+      setFlagsFromString('--expose-gc');
+      const gc = runInNewContext('gc') as () => void;
+      // WeakRef is not part of the ES2020 lib the package targets
+      const { WeakRef } = globalThis as unknown as {
+        WeakRef: new <T extends object>(
+          target: T,
+        ) => { deref(): T | undefined };
+      };
+      const config = createConfig();
+      const projection = new WeakRef(config.pick(['server']));
+
+      await setTimeout(0);
+      gc();
+
+      expect(projection.deref()).toBeUndefined();
+      expect(config.get('server')?.get('port')).toBe(80);
+    });
+
+    it('bubbles events through maps nested in themselves once', () => {
+      const a = new ExactKeyMap<Es<Entry>>();
+      const b = new ExactKeyMap<Es<Entry>>();
+      const self = new ExactKeyMap<Es<Entry>>();
+      const aEvents = record(a);
+      const bEvents = record(b);
+      const selfEvents = record(self);
+
+      a.set('b', b);
+      b.set('a', a);
+      self.set('self', self);
+      a.set('x', 1);
+
+      expect(b.get('a')).toBe(a);
+      expect(self.get('self')).toBe(self);
+      expect(selfEvents.map((event) => event.path)).toEqual([['self']]);
+      expect(aEvents.map((event) => event.path)).toEqual([
+        ['b'],
+        ['b', 'a'],
+        ['x'],
+      ]);
+      expect(bEvents.map((event) => event.path)).toEqual([['a'], ['a', 'x']]);
+    });
+  });
+
+  describe('merge', () => {
+    type ProtectedEs = Es<
+      [Headers.Algorithm, number] | [Headers.Critical, Headers[]]
+    >;
+    type UnprotectedEs = Es<
+      [Headers.KeyID, Uint8Array] | [Headers.IV, Uint8Array]
+    >;
+    type ServerEs = Es<['host', string] | ['port', number]>;
+    type ConfigEs = Es<
+      ['name', string] | ['server', ServerEs] | ['tags', string[]]
+    >;
+
+    const defaults = (): ExactKeyMap<ConfigEs> =>
+      new ExactKeyMap<ConfigEs>([
+        ['name', 'default'],
+        [
+          'server',
+          [
+            ['host', 'localhost'],
+            ['port', 80],
+          ],
+        ],
+        ['tags', ['base']],
+      ]);
+
+    const user = (): ExactKeyMap<ConfigEs> =>
+      new ExactKeyMap<ConfigEs>([
+        ['name', 'api'],
+        ['server', [['port', 443]]],
+        ['tags', ['custom']],
+      ]);
+
+    it('produces the union of disjoint maps', () => {
+      const kid = new Uint8Array([1]);
+      const protectedHeaders = new ExactKeyMap<ProtectedEs>([
+        [Headers.Algorithm, -7],
+      ]);
+      const unprotectedHeaders = new ExactKeyMap<UnprotectedEs>([
+        [Headers.KeyID, kid],
+      ]);
+      const headers = ExactKeyMap.merge(protectedHeaders, unprotectedHeaders, {
+        strategy: 'throw',
+      });
+
+      expect([...headers]).toEqual([
+        [Headers.Algorithm, -7],
+        [Headers.KeyID, kid],
+      ]);
+      expectTypeOf(headers.get(Headers.Algorithm)).toEqualTypeOf<
+        number | undefined
+      >();
+      expectTypeOf(headers.get(Headers.KeyID)).toEqualTypeOf<
+        Uint8Array | undefined
+      >();
+      // @ts-expect-error - Algorithm expects a number
+      headers.set(Headers.Algorithm, 'ES256');
+    });
+
+    it('merges nested maps recursively and prefers the right side', () => {
+      const config = ExactKeyMap.merge(defaults(), user());
+
+      expect(config.get('name')).toBe('api');
+      expect(config.getIn(['server', 'host'])).toBe('localhost');
+      expect(config.getIn(['server', 'port'])).toBe(443);
+      expect(config.get('tags')).toEqual(['custom']);
+      expectTypeOf(config.getIn(['server', 'port'])).toEqualTypeOf<
+        number | undefined
+      >();
+    });
+
+    it('keeps the left side with the left strategy', () => {
+      const config = ExactKeyMap.merge(defaults(), user(), {
+        strategy: 'left',
+      });
+
+      expect(config.get('name')).toBe('default');
+      expect(config.getIn(['server', 'port'])).toBe(80);
+    });
+
+    it('throws on conflicts with the throw strategy', () => {
+      try {
+        ExactKeyMap.merge(defaults(), user(), { strategy: 'throw' });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(MergeConflictError);
+        expect((error as MergeConflictError).path).toEqual(['name']);
+        expect((error as MergeConflictError).left).toBe('default');
+        expect((error as MergeConflictError).right).toBe('api');
+      }
+    });
+
+    it('does not treat structurally equal values as conflicts', () => {
+      const a = new ExactKeyMap<UnprotectedEs>([
+        [Headers.KeyID, new Uint8Array([1])],
+      ]);
+      const b = new ExactKeyMap<UnprotectedEs>([
+        [Headers.KeyID, new Uint8Array([1])],
+      ]);
+
+      expect(() =>
+        ExactKeyMap.merge(a, b, { strategy: 'throw' }),
+      ).not.toThrow();
+    });
+
+    it('calls a custom resolver with both values and the key path', () => {
+      const calls: unknown[] = [];
+      const config = ExactKeyMap.merge(defaults(), user(), {
+        strategy: (left, right, path) => {
+          calls.push([left, right, path]);
+          return right;
+        },
+        keys: [
+          [
+            ['name'],
+            (left, right): string => `${String(left)}+${String(right)}`,
+          ],
+        ],
+      });
+
+      expect(config.get('name')).toBe('default+api');
+      expect(calls).toEqual([
+        [80, 443, ['server', 'port']],
+        [['base'], ['custom'], ['tags']],
+      ]);
+    });
+
+    it('drops aliases and defaults, since the merged map has no schema', () => {
+      const schema = defineSchema([
+        [Headers.Algorithm, isNumber, { alias: 'alg' }],
+        [Headers.KeyID, isUint8Array, { default: new Uint8Array() }],
+      ]);
+      const merged = ExactKeyMap.merge(
+        ExactKeyMap.parse(schema, [[Headers.Algorithm, -7]]),
+        ExactKeyMap.parse(schema, []),
+      );
+
+      expect(merged.get(Headers.Algorithm)).toBe(-7);
+      // @ts-expect-error - the merged map does not resolve aliases
+      merged.get('alg');
+      // @ts-expect-error - the merged map has no defaults
+      expect(() => merged.getOrDefault(Headers.KeyID)).toThrow(TypeError);
+    });
+
+    it('types resolvers with the values of the merged maps', () => {
+      ExactKeyMap.merge(defaults(), user(), {
+        strategy: (left, right) => {
+          expectTypeOf(left).toEqualTypeOf<
+            string | number | string[] | ExactKeyMap<ServerEs>
+          >();
+          return right;
+        },
+      });
+      // @ts-expect-error - the resolver must return a value of the maps
+      ExactKeyMap.merge(defaults(), user(), { strategy: () => true });
+      ExactKeyMap.merge(defaults(), user(), {
+        // @ts-expect-error - per-key resolvers are constrained as well
+        keys: [[['name'], (): Date => new Date()]],
+      });
+    });
+
+    it('applies per-key strategies to their subtree, longest path first', () => {
+      const config = ExactKeyMap.merge(defaults(), user(), {
+        strategy: 'throw',
+        keys: [
+          [['server'], 'left'],
+          [['server', 'port'], 'right'],
+          [['name'], 'left'],
+          [['tags'], 'right'],
+        ],
+      });
+
+      expect(config.get('name')).toBe('default');
+      expect(config.getIn(['server', 'port'])).toBe(443);
+      // @ts-expect-error - invalid key path
+      ExactKeyMap.merge(defaults(), user(), { keys: [[['missing'], 'left']] });
+    });
+
+    it('concatenates or replaces arrays', () => {
+      expect(
+        ExactKeyMap.merge(defaults(), user(), { arrays: 'concat' }).get('tags'),
+      ).toEqual(['base', 'custom']);
+      expect(
+        ExactKeyMap.merge(defaults(), user(), { arrays: 'replace' }).get(
+          'tags',
+        ),
+      ).toEqual(['custom']);
+    });
+
+    it('leaves the inputs unchanged and shares no nested maps', () => {
+      const left = defaults();
+      const right = user();
+      const config = ExactKeyMap.merge(left, right);
+
+      config.setIn(['server', 'host'], 'example.com');
+
+      expect(left.getIn(['server', 'host'])).toBe('localhost');
+      expect(right.getIn(['server', 'host'])).toBeUndefined();
+      expect(config.get('server')).not.toBe(left.get('server'));
+      expect(left.equals(defaults())).toBe(true);
+    });
+
+    it('merges values of different shapes by strategy', () => {
+      type A = Es<['value', Es<['x', number]>]>;
+      type B = Es<['value', string]>;
+      const merged = ExactKeyMap.merge(
+        new ExactKeyMap<A>([['value', [['x', 1]]]]),
+        new ExactKeyMap<B>([['value', 'flat']]),
+      );
+
+      expect(merged.get('value')).toBe('flat');
+      expect(
+        ExactKeyMap.merge(
+          new ExactKeyMap<B>([['value', 'flat']]),
+          new ExactKeyMap<A>([['value', [['x', 1]]]]),
+        ).get('value'),
+      ).toBeInstanceOf(ExactKeyMap);
+    });
+  });
+
+  describe('defaults', () => {
+    const ServerSchema = defineSchema([
+      ['host', isString, { default: 'localhost' }],
+      ['port', isNumber],
+    ]);
+    const ConfigSchema = defineSchema([
+      ['retries', isNumber, { default: 3 }],
+      ['tags', arrayOf(isString), { default: ['base'] }],
+      ['name', isString],
+      ['server', ServerSchema],
+    ]);
+    type ConfigEs = InferEs<typeof ConfigSchema>;
+
+    const createConfig = (): ExactKeyMap<ConfigEs> =>
+      new ExactKeyMap<ConfigEs>([], { schema: ConfigSchema });
+
+    it('returns the value or the declared default without inserting it', () => {
+      const config = createConfig();
+
+      expect(config.getOrDefault('retries')).toBe(3);
+      expect(config.has('retries')).toBe(false);
+
+      config.set('retries', 5);
+
+      expect(config.getOrDefault('retries')).toBe(5);
+      expectTypeOf(config.getOrDefault('retries')).toEqualTypeOf<number>();
+    });
+
+    it('copies mutable defaults on every use', () => {
+      const config = createConfig();
+      const tags = config.getOrDefault('tags');
+
+      tags.push('changed');
+
+      expect(config.getOrDefault('tags')).toEqual(['base']);
+      expect(ConfigSchema.defaultFor('tags')).toEqual(['base']);
+    });
+
+    it('defaults nested schema keys to a fresh nested map', () => {
+      const config = createConfig();
+      const server = config.getOrDefault('server');
+
+      expect(server).toBeInstanceOf(ExactKeyMap);
+      expect(server.size).toBe(0);
+      expect(server.getOrDefault('host')).toBe('localhost');
+      expect(config.getOrDefault('server')).not.toBe(server);
+    });
+
+    it('throws for absent keys without a default', () => {
+      const config = createConfig();
+
+      // @ts-expect-error - name has no default
+      expect(() => config.getOrDefault('name')).toThrow(
+        'No default value for key ["name"]',
+      );
+      expect(() => new ExactKeyMap<ConfigEs>().getOrDefault('retries')).toThrow(
+        TypeError,
+      );
+    });
+
+    it('inserts defaults or factory results with getOrInsert', () => {
+      const config = createConfig();
+
+      config.getOrInsert('server').set('port', 443);
+
+      expect(config.getIn(['server', 'port'])).toBe(443);
+      expect(config.getOrInsert('retries')).toBe(3);
+      expect(config.get('retries')).toBe(3);
+      expect(config.getOrInsert('name', () => 'api')).toBe('api');
+      expect(config.getOrInsert('name', () => 'other')).toBe('api');
+      expectTypeOf(
+        config.getOrInsert('name', () => 'api'),
+      ).toEqualTypeOf<string>();
+      // @ts-expect-error - name has no default, so a factory is required
+      config.getOrInsert('name');
+      // @ts-expect-error - the factory must return a string
+      config.getOrInsert('name', () => 1);
+    });
+
+    it('updates values from the current value or the default', () => {
+      const config = createConfig();
+
+      config.update('retries', (retries) => retries + 1);
+      config.update('retries', (retries) => retries * 2);
+      config.update('tags', (tags) => [...tags, 'extra']);
+
+      expect(config.get('retries')).toBe(8);
+      expect(config.get('tags')).toEqual(['base', 'extra']);
+      // @ts-expect-error - retries expects a number
+      config.update('retries', () => 'many');
+      // @ts-expect-error - name has no default, use set instead
+      expect(() => config.update('name', (name) => name)).toThrow(TypeError);
+    });
+
+    it('keeps the nested schema on inserted maps', () => {
+      const config = createConfig();
+
+      expect(config.getOrInsert('server').getOrInsert('host')).toBe(
+        'localhost',
+      );
+      expect(config.getIn(['server', 'host'])).toBe('localhost');
+    });
+  });
+
+  describe('correlated iteration', () => {
+    type UserEs = Es<
+      ['name', string] | ['age', number] | ['profile', Es<['bio', string]>]
+    >;
+
+    const createUser = (): ExactKeyMap<UserEs> =>
+      new ExactKeyMap<UserEs>([
+        ['name', 'Alice'],
+        ['age', 30],
+        ['profile', [['bio', 'hi']]],
+      ]);
+
+    it('narrows values by key in for...of', () => {
+      const seen: unknown[] = [];
+
+      for (const [key, value] of createUser()) {
+        if (key === 'age') {
+          expectTypeOf(value).toEqualTypeOf<number>();
+          seen.push(value + 1);
+        } else if (key === 'profile') {
+          expectTypeOf(value).toEqualTypeOf<ExactKeyMap<Es<['bio', string]>>>();
+          seen.push(value.get('bio'));
+        } else {
+          expectTypeOf(value).toEqualTypeOf<string>();
+          seen.push(value.toUpperCase());
+        }
+      }
+
+      expect(seen).toEqual(['ALICE', 31, 'hi']);
+    });
+
+    it('narrows entries() pairs with a switch on the key', () => {
+      const user = createUser();
+      const described = Array.from(user.entries(), (entry): string => {
+        switch (entry[0]) {
+          case 'name':
+            expectTypeOf(entry[1]).toEqualTypeOf<string>();
+            return entry[1];
+          case 'age':
+            expectTypeOf(entry[1]).toEqualTypeOf<number>();
+            return entry[1].toFixed(1);
+          case 'profile':
+            return String(entry[1].size);
+        }
+      });
+
+      expect(described).toEqual(['Alice', '30.0', '1']);
+    });
+
+    it('narrows forEach values by key', () => {
+      const user = createUser();
+      const ages: number[] = [];
+
+      user.forEach((value, key, map) => {
+        if (key === 'age') {
+          expectTypeOf(value).toEqualTypeOf<number>();
+          ages.push(value);
+        }
+        expect(map).toBe(user);
+      });
+
+      expect(ages).toEqual([30]);
+    });
+
+    it('keeps the key order and narrows in ordered maps', () => {
+      const map = new ExactKeyMap<Es<['b', number] | ['a', string]>>(
+        [
+          ['b', 1],
+          ['a', 'x'],
+        ],
+        { order: 'deterministic' },
+      );
+      const keys: string[] = [];
+
+      map.forEach((value, key) => {
+        if (key === 'b') {
+          expectTypeOf(value).toEqualTypeOf<number>();
+        }
+        keys.push(key);
+      });
+
+      expect(keys).toEqual(['a', 'b']);
+      expect([...map]).toEqual([
+        ['a', 'x'],
+        ['b', 1],
+      ]);
+    });
+
+    it('narrows catch-all header entries', () => {
+      const headers = new ProtectedHeaders([
+        [Headers.Algorithm, -7],
+        [Headers.IV, new Uint8Array([1])],
+      ]);
+
+      for (const [key, value] of headers) {
+        if (key === Headers.Algorithm) {
+          expectTypeOf(value).toEqualTypeOf<number>();
+        } else if (key === Headers.IV) {
+          expectTypeOf(value).toEqualTypeOf<
+            Uint8Array | Uint8Array[] | number | number[]
+          >();
+        }
+      }
+
+      expect([...headers.keys()]).toEqual([Headers.Algorithm, Headers.IV]);
+    });
+  });
+
+  describe('has as a type guard', () => {
+    type UserEs = Es<['name', string] | ['age', number] | ['note', string]>;
+
+    const createUser = (): ExactKeyMap<UserEs> =>
+      new ExactKeyMap<UserEs>([
+        ['name', 'Alice'],
+        ['age', 30],
+      ]);
+
+    it('narrows get for the checked key only', () => {
+      const user = createUser();
+
+      if (user.has('name')) {
+        expectTypeOf(user.get('name')).toEqualTypeOf<string>();
+        expectTypeOf(user.get('age')).toEqualTypeOf<number | undefined>();
+      } else {
+        expect.unreachable();
+      }
+
+      expect(user.has('note')).toBe(false);
+    });
+
+    it('accumulates narrowing across checks', () => {
+      const user = createUser();
+
+      if (user.has('name') && user.has('age')) {
+        expectTypeOf(user.get('name')).toEqualTypeOf<string>();
+        expectTypeOf(user.get('age')).toEqualTypeOf<number>();
+        expectTypeOf(user.get('note')).toEqualTypeOf<string | undefined>();
+      }
+    });
+
+    it('does not narrow for a union of keys', () => {
+      const user = createUser();
+      const key = 'name' as 'name' | 'age';
+
+      if (user.has(key)) {
+        expectTypeOf(user.get('name')).toEqualTypeOf<string | undefined>();
+      }
+    });
+
+    it('narrows catch-all header keys individually', () => {
+      const headers = new ProtectedHeaders([[Headers.IV, new Uint8Array([1])]]);
+
+      if (headers.has(Headers.IV)) {
+        expectTypeOf(headers.get(Headers.IV)).toEqualTypeOf<
+          Uint8Array | Uint8Array[] | number | number[]
+        >();
+        expectTypeOf(headers.get(Headers.PartialIV)).toEqualTypeOf<
+          Uint8Array | Uint8Array[] | number | number[] | undefined
+        >();
+      }
+    });
+
+    it('checks several keys with hasAll', () => {
+      const user = createUser();
+
+      expect(user.hasAll(['name', 'age'])).toBe(true);
+      expect(user.hasAll(['name', 'note'])).toBe(false);
+      expect(user.hasAll([])).toBe(true);
+
+      if (user.hasAll(['name', 'age'])) {
+        expectTypeOf(user.get('name')).toEqualTypeOf<string>();
+        expectTypeOf(user.get('age')).toEqualTypeOf<number>();
+        expectTypeOf(user.get('note')).toEqualTypeOf<string | undefined>();
+      }
+
+      // @ts-expect-error - unknown key
+      user.hasAll(['name', 'missing']);
+    });
+
+    it('does not narrow for arrays of unknown length', () => {
+      const user = createUser();
+      const keys: 'name'[] = [];
+
+      if (user.hasAll(keys)) {
+        expectTypeOf(user.get('name')).toEqualTypeOf<string | undefined>();
+      }
+    });
+  });
+
+  describe('strict mode', () => {
+    type UserEs = Es<['name', string] | ['profile', Es<['bio', string]>]>;
+
+    const isOtherHeader = (key: unknown): key is Headers =>
+      typeof key === 'number' && key in Headers && key !== Headers.Algorithm;
+    const headerKeys = [
+      Headers.Algorithm,
+      keyMatching(isOtherHeader, 'other header'),
+    ];
+
+    it('accepts allowed keys and catch-all key patterns', () => {
+      const headers = new ExactKeyMap<ProtectedHeadersEntries>(
+        [
+          [Headers.Algorithm, -7],
+          [Headers.IV, new Uint8Array([1])],
+        ],
+        { strict: headerKeys },
+      );
+
+      headers.set(Headers.PartialIV, new Uint8Array([2]));
+
+      expect(headers.get(Headers.Algorithm)).toBe(-7);
+      expect(headers.get(Headers.KeyID)).toBeUndefined();
+      expect(headers.size).toBe(3);
+    });
+
+    it('rejects unknown keys when asked for their default', () => {
+      const schema = defineSchema([['retries', isNumber, { default: 3 }]]);
+      const config = new ExactKeyMap<Es<Entry>>([], { schema, strict: true });
+
+      expect(config.getOrDefault('retries' as never)).toBe(3);
+      expect(() => config.getOrDefault('retires' as never)).toThrow(
+        UnknownKeyError,
+      );
+      expect(() => config.getOrInsert('retires' as never)).toThrow(
+        'Unknown key ["retires"]; allowed keys: "retries"',
+      );
+      expect(config.size).toBe(0);
+    });
+
+    it('rejects unknown keys in the constructor, set and get', () => {
+      const untyped = (): ExactKeyMap<Es<Entry>> =>
+        new ExactKeyMap<Es<Entry>>([], { strict: ['name'] });
+
+      expect(
+        () => new ExactKeyMap<Es<Entry>>([['nmae', 'x']], { strict: ['name'] }),
+      ).toThrow(UnknownKeyError);
+      expect(() => untyped().set('nmae', 'x')).toThrow(
+        'Unknown key ["nmae"]; allowed keys: "name"',
+      );
+      expect(() => untyped().get(99)).toThrow(UnknownKeyError);
+      expect(() =>
+        new ExactKeyMap<ProtectedHeadersEntries>([], {
+          strict: headerKeys,
+        }).set(99 as Headers, 1),
+      ).toThrow('Unknown key [99]; allowed keys: 1, (other header)');
+    });
+
+    it('reports the key and the allowed keys', () => {
+      const map = new ExactKeyMap<Es<Entry>>([], { strict: ['name', 1] });
+
+      try {
+        map.set('age', 30);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(UnknownKeyError);
+        expect((error as UnknownKeyError).key).toBe('age');
+        expect((error as UnknownKeyError).allowedKeys).toEqual(['name', 1]);
+      }
+    });
+
+    it('is off by default', () => {
+      const map = new ExactKeyMap<Es<Entry>>();
+
+      map.set('anything', 1);
+
+      expect(map.get('anything')).toBe(1);
+    });
+
+    it('uses the schema keys with strict: true, also in nested maps', () => {
+      const schema = defineSchema([
+        ['name', isString],
+        ['profile', defineSchema([['bio', isString]])],
+      ]);
+      const user = ExactKeyMap.parse(
+        schema,
+        [
+          ['name', 'Alice'],
+          ['profile', [['bio', 'hi']]],
+        ],
+        { strict: true },
+      );
+      const profile = user.get('profile') as unknown as ExactKeyMap<Es<Entry>>;
+
+      expect(() => profile.set('email', 'a@example.com')).toThrow(
+        'Unknown key ["email"]; allowed keys: "bio"',
+      );
+      expect(() => user.setIn(['profile', 'bio'], 'hello')).not.toThrow();
+      expect(() =>
+        (user as unknown as ExactKeyMap<Es<Entry>>).set('age', 1),
+      ).toThrow(UnknownKeyError);
+    });
+
+    it('applies key lists to the map itself only', () => {
+      const user = new ExactKeyMap<UserEs>([['profile', [['bio', 'hi']]]], {
+        strict: ['name', 'profile'],
+      });
+      const profile = user.get('profile') as unknown as ExactKeyMap<Es<Entry>>;
+
+      profile.set('email', 'a@example.com');
+
+      expect(profile.get('email')).toBe('a@example.com');
+    });
+
+    it('requires a schema or a key list', () => {
+      expect(() => new ExactKeyMap<UserEs>([], { strict: true })).toThrow(
+        'Strict mode needs a schema or a list of keys',
+      );
+    });
+
+    it('is kept by clone', () => {
+      const user = new ExactKeyMap<UserEs>([], { strict: ['name'] });
+      const copy = user.clone() as unknown as ExactKeyMap<Es<Entry>>;
+
+      expect(() => copy.set('age', 1)).toThrow(UnknownKeyError);
+    });
+  });
+
+  describe('raw values', () => {
+    type ShapeEs = Es<
+      | ['name', string]
+      | ['points', Raw<[number, number][]>]
+      | ['tags', Raw<string[]>]
+    >;
+
+    it('stores raw() values as-is instead of nesting them', () => {
+      const shape = new ExactKeyMap<ShapeEs>([
+        ['name', 'line'],
+        [
+          'points',
+          raw([
+            [0, 0],
+            [3, 4],
+          ]),
+        ],
+        ['tags', raw([])],
+      ]);
+
+      expect(shape.get('points')).toEqual([
+        [0, 0],
+        [3, 4],
+      ]);
+      expect(shape.get('tags')).toEqual([]);
+      expect(shape.get('points')).not.toBeInstanceOf(Raw);
+      expectTypeOf(shape.get('points')).toEqualTypeOf<
+        [number, number][] | undefined
+      >();
+      expectTypeOf(shape.get('tags')).toEqualTypeOf<string[] | undefined>();
+    });
+
+    it('sets and serializes the plain value', () => {
+      const shape = new ExactKeyMap<ShapeEs>();
+
+      shape.set('points', [[1, 2]]);
+      // @ts-expect-error - set takes the plain value, not the marker
+      shape.set('points', raw([[1, 2]]));
+
+      expect(
+        JSON.stringify(new ExactKeyMap<ShapeEs>([['tags', raw([])]])),
+      ).toBe('[["tags",[]]]');
+    });
+
+    it('keeps raw values in nested entries', () => {
+      type Entries = Es<['shape', Es<['points', Raw<[number, number][]>]>]>;
+      const map = new ExactKeyMap<Entries>([
+        ['shape', [['points', raw([[1, 2]])]]],
+      ]);
+
+      expect(map.get('shape')).toBeInstanceOf(ExactKeyMap);
+      expect(map.get('shape')?.get('points')).toEqual([[1, 2]]);
+      expectTypeOf(map.get('shape')?.get('points')).toEqualTypeOf<
+        [number, number][] | undefined
+      >();
+    });
+
+    it('keeps values with a validator rule as-is when a schema is given', () => {
+      const schema = defineSchema([
+        ['points', arrayOf(arrayOf(isNumber))],
+        ['profile', defineSchema([['name', isString]])],
+      ]);
+      const map = new ExactKeyMap<InferEs<typeof schema>>(
+        [
+          ['points', [[1, 2]]],
+          ['profile', [['name', 'Alice']]],
+        ],
+        { schema },
+      );
+      const untyped = new ExactKeyMap<Es<Entry>>(
+        [
+          ['points', []],
+          ['other', []],
+        ],
+        { schema },
+      );
+
+      expect(map.get('points')).toEqual([[1, 2]]);
+      expect(map.get('profile')).toBeInstanceOf(ExactKeyMap);
+      expect(untyped.get('points')).toEqual([]);
+      expect(untyped.get('other')).toBeInstanceOf(ExactKeyMap);
+      expectTypeOf(map.get('points')).toEqualTypeOf<number[][] | undefined>();
+    });
+
+    it('keeps arrays of pairs from plain objects as-is', () => {
+      const map = ExactKeyMap.fromObject({
+        points: [[1, 2]] as [number, number][],
+      });
+
+      expect(map.get('points')).toEqual([[1, 2]]);
+      expectTypeOf(map.get('points')).toEqualTypeOf<
+        [number, number][] | undefined
+      >();
+    });
+  });
+
+  describe('pick and omit', () => {
+    type UserEs = Es<
+      | RequiredEntry<['id', number]>
+      | ['name', string]
+      | ['password', string]
+      | ['profile', Es<['bio', string]>]
+    >;
+
+    const createUser = (): ExactKeyMap<UserEs> =>
+      new ExactKeyMap<UserEs>([
+        ['id', 1],
+        ['name', 'Alice'],
+        ['password', 'secret'],
+        ['profile', [['bio', 'hi']]],
+      ]);
+
+    it('picks the given keys and narrows the Es', () => {
+      const user = createUser();
+      const picked = user.pick(['name', 'id']);
+
+      expect([...picked.keys()]).toEqual(['id', 'name']);
+      expect(picked).not.toBe(user);
+      expect(user.size).toBe(4);
+      expectTypeOf(picked).toEqualTypeOf<
+        ExactKeyMap<Es<RequiredEntry<['id', number]> | ['name', string]>>
+      >();
+      expectTypeOf(picked.get('id')).toEqualTypeOf<number>();
+      // @ts-expect-error - password was not picked
+      picked.get('password');
+      // @ts-expect-error - unknown key
+      user.pick(['age']);
+    });
+
+    it('omits the given keys and narrows the Es', () => {
+      const user = createUser();
+      const publicUser = user.omit(['password']);
+
+      expect([...publicUser.keys()]).toEqual(['id', 'name', 'profile']);
+      expect(publicUser.has('password' as never)).toBe(false);
+      expectTypeOf(publicUser).toEqualTypeOf<
+        ExactKeyMap<
+          Es<
+            | RequiredEntry<['id', number]>
+            | ['name', string]
+            | ['profile', Es<['bio', string]>]
+          >
+        >
+      >();
+      // @ts-expect-error - password was omitted
+      publicUser.set('password', 'x');
+    });
+
+    it('narrows catch-all entries', () => {
+      const headers = new ExactKeyMap<ProtectedHeadersEntries>([
+        [Headers.Algorithm, -7],
+        [Headers.IV, new Uint8Array([1])],
+        [Headers.PartialIV, new Uint8Array([2])],
+      ]);
+      const ivs = headers.pick([Headers.IV, Headers.PartialIV]);
+
+      expect(ivs.size).toBe(2);
+      expect(
+        headers.omit([Headers.Algorithm]).has(Headers.Algorithm as never),
+      ).toBe(false);
+      expectTypeOf(ivs.get(Headers.IV)).toEqualTypeOf<
+        Uint8Array | Uint8Array[] | number | number[] | undefined
+      >();
+      // @ts-expect-error - Algorithm was not picked
+      ivs.get(Headers.Algorithm);
+    });
+
+    it('skips absent keys', () => {
+      const user = new ExactKeyMap<UserEs>([['id', 1]]);
+
+      expect(user.pick(['id', 'name']).size).toBe(1);
+      expect(user.omit(['name']).size).toBe(1);
+      expect(user.pick([]).size).toBe(0);
+    });
+
+    it('shares nested maps by default and clones them on request', () => {
+      const user = createUser();
+      const shared = user.pick(['profile']);
+      const cloned = user.pick(['profile'], { nested: 'clone' });
+
+      shared.get('profile')?.set('bio', 'changed');
+
+      expect(shared.get('profile')).toBe(user.get('profile'));
+      expect(cloned.get('profile')).not.toBe(user.get('profile'));
+      expect(cloned.get('profile')?.get('bio')).toBe('hi');
+      expect(user.omit(['id'], { nested: 'clone' }).get('profile')).not.toBe(
+        user.get('profile'),
+      );
+    });
+
+    it('keeps the key order and strict mode', () => {
+      const user = new ExactKeyMap<Es<Entry>>(
+        [
+          ['b', 2],
+          ['a', 1],
+          ['c', 3],
+        ],
+        { order: 'deterministic', strict: ['a', 'b', 'c'] },
+      );
+      const picked = user.pick(['c', 'a']);
+
+      expect([...picked.keys()]).toEqual(['a', 'c']);
+      expect(() => picked.set('d' as never, 4 as never)).toThrow(
+        UnknownKeyError,
+      );
+      expectTypeOf(picked).toEqualTypeOf<
+        ExactKeyMap<Es<['c' | 'a', unknown]>>
+      >();
+    });
+
+    it('relaxes required keys with PartialEs', () => {
+      const draft = new ExactKeyMap<PartialEs<UserEs>>([['name', 'Alice']]);
+
+      expect(draft.delete('id')).toBe(false);
+      expectTypeOf(draft.get('id')).toEqualTypeOf<number | undefined>();
+    });
+  });
+
+  describe('mapValues and filter', () => {
+    type UserEs = Es<
+      | RequiredEntry<['id', number]>
+      | ['name', string]
+      | ['profile', Es<['bio', string] | ['age', number]>]
+    >;
+
+    const createUser = (): ExactKeyMap<UserEs> =>
+      new ExactKeyMap<UserEs>([
+        ['id', 1],
+        ['name', 'Alice'],
+        [
+          'profile',
+          [
+            ['bio', ''],
+            ['age', 30],
+          ],
+        ],
+      ]);
+
+    it('maps values per key and types the result from the mappers', () => {
+      const user = createUser();
+      const mapped = user.mapValues({
+        id: (id, key) => `${key}-${id}`,
+        name: (name) => name.length,
+      });
+
+      expect(mapped.get('id')).toBe('id-1');
+      expect(mapped.get('name')).toBe(5);
+      expect(mapped.get('profile')).toBe(user.get('profile'));
+      expect(user.get('id')).toBe(1);
+      expectTypeOf(mapped.get('id')).toEqualTypeOf<string>();
+      expectTypeOf(mapped.get('name')).toEqualTypeOf<number | undefined>();
+      expectTypeOf(mapped.get('profile')?.get('age')).toEqualTypeOf<
+        number | undefined
+      >();
+      // @ts-expect-error - name expects a string
+      user.mapValues({ name: (name: number) => name });
+      // @ts-expect-error - unknown key
+      user.mapValues({ email: () => 1 });
+    });
+
+    it('maps nested maps with nested mappers or as a whole', () => {
+      const user = createUser();
+      const mapped = user.mapValues({ profile: { age: (age) => age > 18 } });
+      const replaced = user.mapValues({ profile: (profile) => profile.size });
+
+      expect(mapped.get('profile')).toBeInstanceOf(ExactKeyMap);
+      expect(mapped.get('profile')?.get('age')).toBe(true);
+      expect(mapped.get('profile')?.get('bio')).toBe('');
+      expect(replaced.get('profile')).toBe(2);
+      expectTypeOf(mapped.get('profile')?.get('age')).toEqualTypeOf<
+        boolean | undefined
+      >();
+      expectTypeOf(mapped.getIn(['profile', 'age'])).toEqualTypeOf<
+        boolean | undefined
+      >();
+      expectTypeOf(replaced.get('profile')).toEqualTypeOf<number | undefined>();
+    });
+
+    it('keeps the class, typed as ExactKeyMap if the value types change', () => {
+      const headers = new ProtectedHeaders([[Headers.Algorithm, -7]]);
+      const mapped = headers.mapValues({ [Headers.Algorithm]: String });
+      const negated = headers.mapValues({ [Headers.Algorithm]: (alg) => -alg });
+
+      expect(mapped).toBeInstanceOf(ProtectedHeaders);
+      expect(mapped.get(Headers.Algorithm)).toBe('-7');
+      expectTypeOf(mapped).not.toEqualTypeOf<ProtectedHeaders>();
+      expectTypeOf(mapped.get(Headers.Algorithm)).toEqualTypeOf<
+        string | undefined
+      >();
+      expect(negated.get(Headers.Algorithm)).toBe(7);
+      expectTypeOf(negated).toEqualTypeOf<ProtectedHeaders>();
+    });
+
+    it('filters entries and types the result as partial', () => {
+      const user = createUser();
+      const strings = user.filter((value) => typeof value === 'string');
+
+      expect([...strings.keys()]).toEqual(['name']);
+      expect(user.size).toBe(3);
+      expectTypeOf(strings).toEqualTypeOf<ExactKeyMap<PartialEs<UserEs>>>();
+      expectTypeOf(strings.get('id')).toEqualTypeOf<number | undefined>();
+    });
+
+    it('passes keys to the predicate', () => {
+      const user = createUser();
+      const keys: unknown[] = [];
+
+      user.filter((_value, key) => {
+        keys.push(key);
+        expectTypeOf(key).toEqualTypeOf<'id' | 'name' | 'profile'>();
+        return true;
+      });
+
+      expect(keys).toEqual(['id', 'name', 'profile']);
+    });
+
+    it('filters nested maps with deep: true', () => {
+      const user = createUser();
+      const paths: unknown[] = [];
+      const compact = user.filter(
+        (value, _key, path) => {
+          paths.push(path);
+          return value !== '';
+        },
+        { deep: true },
+      );
+
+      expect(compact.get('profile')?.has('bio')).toBe(false);
+      expect(compact.get('profile')?.get('age')).toBe(30);
+      expect(user.get('profile')?.get('bio')).toBe('');
+      expect(user.filter((value) => value !== '').get('profile')).toBe(
+        user.get('profile'),
+      );
+      expect(paths).toContainEqual(['profile', 'bio']);
+      expectTypeOf(compact).toEqualTypeOf<ExactKeyMap<DeepPartialEs<UserEs>>>();
+    });
+
+    it('returns the same subclass with the same schema', () => {
+      const headers = new ProtectedHeaders([
+        [Headers.Algorithm, -7],
+        [Headers.IV, new Uint8Array([1])],
+      ]);
+      const numbers = headers.filter((value) => typeof value === 'number');
+      const schema = defineSchema([['name', isString]]);
+      const typed = new ExactKeyMap<Es<Entry>>([['name', 'x']], {
+        schema,
+        strict: true,
+      }).filter(() => false);
+
+      expect(numbers).toBeInstanceOf(ProtectedHeaders);
+      expect([...numbers.keys()]).toEqual([Headers.Algorithm]);
+      expect(() => typed.set('other' as never, 1 as never)).toThrow(
+        UnknownKeyError,
+      );
+    });
+  });
+
+  describe('aliases', () => {
+    const HeaderSchema = defineSchema([
+      [Headers.Algorithm, isNumber, { alias: 'alg', required: true }],
+      [Headers.KeyID, isUint8Array, { alias: 'kid' }],
+      [Headers.IV, isUint8Array],
+      [
+        Headers.CounterSignature,
+        defineSchema([['sig', isUint8Array, { alias: 'signature' }]]),
+        { alias: 'countersign' },
+      ],
+    ]);
+    type HeaderEs = InferEs<typeof HeaderSchema>;
+
+    const createHeaders = (): ExactKeyMap<HeaderEs> =>
+      new ExactKeyMap<HeaderEs>([[Headers.Algorithm, -7]], {
+        schema: HeaderSchema,
+      });
+
+    it('reads and writes values by key or alias', () => {
+      const headers = createHeaders();
+      const kid = new Uint8Array([1]);
+
+      headers.set('kid', kid);
+
+      expect(headers.get(Headers.KeyID)).toBe(kid);
+      expect(headers.get('kid')).toBe(kid);
+      expect(headers.get('alg')).toBe(-7);
+      expect(headers.has('kid')).toBe(true);
+      expect(headers.hasAll(['alg', Headers.KeyID])).toBe(true);
+      expect([...headers.keys()]).toEqual([Headers.Algorithm, Headers.KeyID]);
+      expect(headers.delete('kid')).toBe(true);
+      expect(headers.has(Headers.KeyID)).toBe(false);
+      headers.getOrInsert('countersign').set('signature', kid);
+      expect(headers.get(Headers.CounterSignature)?.get('sig')).toBe(kid);
+    });
+
+    it('types aliases like the keys they stand for', () => {
+      const headers = createHeaders();
+
+      expectTypeOf(headers.get('alg')).toEqualTypeOf<number>();
+      expectTypeOf(headers.get('kid')).toEqualTypeOf<Uint8Array | undefined>();
+      if (headers.has('kid')) {
+        expectTypeOf(headers.get('kid')).toEqualTypeOf<Uint8Array>();
+        expectTypeOf(headers.get(Headers.KeyID)).toEqualTypeOf<Uint8Array>();
+      }
+
+      // @ts-expect-error required keys cannot be deleted by alias either
+      expect(() => headers.delete('alg')).toThrow(TypeError);
+      // @ts-expect-error unknown aliases are rejected
+      headers.set('iv', new Uint8Array());
+      expect(headers.size).toBe(2);
+    });
+
+    it('parses input keyed by aliases', () => {
+      const parsed = ExactKeyMap.parse(HeaderSchema, [
+        ['alg', -35],
+        ['kid', new Uint8Array([1])],
+        ['countersign', [['signature', new Uint8Array([2])]]],
+      ]);
+
+      expect([...parsed.keys()]).toEqual([
+        Headers.Algorithm,
+        Headers.KeyID,
+        Headers.CounterSignature,
+      ]);
+      expect(parsed.get('countersign')?.get('sig')).toBeInstanceOf(Uint8Array);
+      expect(() => ExactKeyMap.parse(HeaderSchema, [['kid', 1]])).toThrow(
+        SchemaValidationError,
+      );
+    });
+
+    it('exports labels or names with toObject', () => {
+      const sig = new Uint8Array([2]);
+      const headers = createHeaders()
+        .set(Headers.IV, new Uint8Array([3]))
+        .set('countersign', new ExactKeyMap([['sig', sig]]));
+      const named = headers.toObject({ keys: 'names' });
+
+      expect(headers.toObject()).toEqual({
+        [Headers.Algorithm]: -7,
+        [Headers.IV]: new Uint8Array([3]),
+        [Headers.CounterSignature]: { sig },
+      });
+      expect(named).toEqual({
+        alg: -7,
+        [Headers.IV]: new Uint8Array([3]),
+        countersign: { sig },
+      });
+      expectTypeOf(named).toEqualTypeOf<{
+        alg: number;
+        kid?: Uint8Array;
+        [Headers.IV]?: Uint8Array;
+        countersign?: { signature?: Uint8Array };
+      }>();
+    });
+
+    it('requires a schema for entries with aliases', () => {
+      type Entries = Es<AliasedEntry<['name', string], 'n'>>;
+      const schema = defineSchema([['name', isString, { alias: 'n' }]]);
+      const map = new ExactKeyMap<Entries>([['name', 'Alice']], { schema });
+
+      expect(map.get('n')).toBe('Alice');
+      // @ts-expect-error - aliases are only resolved with a schema
+      new ExactKeyMap<Entries>([['name', 'Alice']]);
+      // @ts-expect-error - aliases are only resolved with a schema
+      new ExactKeyMap<Entries>([['name', 'Alice']], { order: 'deterministic' });
+      // @ts-expect-error - aliases are only resolved with a schema
+      ExactKeyMap.fromMap<Entries>(new Map([['name', 'Alice']]));
+      expect(
+        ExactKeyMap.fromMap<Entries>(new Map([['name', 'Alice']]), {
+          schema,
+        }).get('n'),
+      ).toBe('Alice');
+    });
+  });
+
+  describe('inspection', () => {
+    it('renders nested maps as an indented tree', () => {
+      const user = new ExactKeyMap<
+        Es<
+          | ['name', string]
+          | ['profile', Es<['age', number]>]
+          | ['tags', string[]]
+        >
+      >([
+        ['name', 'Alice'],
+        ['profile', [['age', 30]]],
+        ['tags', ['a', 'b']],
+      ]);
+
+      expect(user.toString()).toBe(
+        [
+          'ExactKeyMap(3) {',
+          '  "name" => "Alice",',
+          '  "profile" => ExactKeyMap(1) {',
+          '    "age" => 30',
+          '  },',
+          '  "tags" => ["a", "b"]',
+          '}',
+        ].join('\n'),
+      );
+      expect(new ExactKeyMap().toString()).toBe('ExactKeyMap(0) {}');
+    });
+
+    it('names keys from keyNames and schema aliases and shows bytes in hex', () => {
+      const headers = new ExactKeyMap<ProtectedHeadersEntries>(
+        [
+          [Headers.Algorithm, -7],
+          [Headers.KeyID, new Uint8Array([0xaa, 0x0b])],
+        ],
+        { keyNames: Headers },
+      );
+      const AliasedSchema = defineSchema([
+        [Headers.Algorithm, isNumber, { alias: 'alg' }],
+      ]);
+      const aliased = ExactKeyMap.parse(AliasedSchema, [['alg', -7]], {
+        keyNames: Headers,
+      });
+
+      expect(headers.toString()).toBe(
+        [
+          'ExactKeyMap(2) {',
+          '  Algorithm (1) => -7,',
+          '  KeyID (4) => <Uint8Array aa 0b>',
+          '}',
+        ].join('\n'),
+      );
+      expect(aliased.toString()).toBe('ExactKeyMap(1) {\n  alg (1) => -7\n}');
+    });
+
+    it('truncates long values and deep nesting', () => {
+      const map = new ExactKeyMap<Es<Entry>>([
+        ['bytes', new Uint8Array(40)],
+        ['items', [1, 2, 3]],
+        ['text', 'abcdef'],
+        ['nested', [['inner', [['x', 1]]]]],
+      ]);
+
+      expect(
+        map.toString({ depth: 1, maxArrayLength: 2, maxStringLength: 3 }),
+      ).toBe(
+        [
+          'ExactKeyMap(4) {',
+          '  "bytes" => <Uint8Array 00 00 ... 38 more bytes>,',
+          '  "items" => [1, 2, ... 1 more item],',
+          '  "text" => "abc"... 3 more characters,',
+          '  "nested" => ExactKeyMap(1) {',
+          '    "inner" => ExactKeyMap(1) {...}',
+          '  }',
+          '}',
+        ].join('\n'),
+      );
+    });
+
+    it('renders other values', () => {
+      const map = new ExactKeyMap<Es<Entry>>([
+        [1n, new Date(0)],
+        ['map', new Map([[1, true]])],
+        ['floats', new Float64Array([0.5])],
+        ['none', null],
+      ]);
+
+      expect(map.toString()).toBe(
+        [
+          'ExactKeyMap(4) {',
+          '  1n => 1970-01-01T00:00:00.000Z,',
+          '  "map" => ExactKeyMap(1) {',
+          '    1 => true',
+          '  },',
+          '  "floats" => Float64Array(1) [0.5],',
+          '  "none" => null',
+          '}',
+        ].join('\n'),
+      );
+    });
+
+    it('is used by util.inspect with its depth and length limits', () => {
+      const map = new ExactKeyMap<Es<Entry>>(
+        [
+          ['a', [['b', [['c', [['d', 1]]]]]]],
+          ['bytes', new Uint8Array(3)],
+        ],
+        { keyNames: { a: 'first' } },
+      );
+
+      expect(inspect(map, { maxArrayLength: 1 })).toBe(
+        [
+          'ExactKeyMap(2) {',
+          '  first ("a") => ExactKeyMap(1) {',
+          '    "b" => ExactKeyMap(1) {',
+          '      "c" => ExactKeyMap(1) {...}',
+          '    }',
+          '  },',
+          '  "bytes" => <Uint8Array 00 ... 2 more bytes>',
+          '}',
+        ].join('\n'),
+      );
+      expect(inspect(map, { depth: null })).toContain('"d" => 1');
+      expect(String(map)).toBe(map.toString());
+    });
+
+    it('is collapsed by util.inspect beyond the depth limit', () => {
+      const map = new ExactKeyMap<Es<['a', Es<['b', number]>]>>([
+        ['a', [['b', 1]]],
+      ]);
+
+      expect(inspect({ wrap: map }, { depth: 0 })).toBe(
+        '{ wrap: ExactKeyMap(1) {...} }',
+      );
+      expect(inspect([[map]], { depth: 1 })).toBe(
+        '[ [ ExactKeyMap(1) {...} ] ]',
+      );
+      expect(inspect({ wrap: map }, { depth: 1 })).toBe(
+        [
+          '{',
+          '  wrap: ExactKeyMap(1) {',
+          '    "a" => ExactKeyMap(1) {...}',
+          '  }',
+          '}',
+        ].join('\n'),
+      );
+    });
+  });
 });
@@ -0,0 +1,353 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { ImmutableExactKeyMap, ImmutableValue } from '../ImmutableExactKeyMap';
+import { ExactKeyMap } from '../ExactKeyMap';
+import { Raw, raw } from '../Raw';
+import { Es } from '@/types/Es';
+import type { ValueOfKey } from '@/types/ValueOfKey';
+import type { RequiredEntry } from '@/types/RequiredEntry';
+
+enum Headers {
+  Algorithm = 1,
+  KeyID = 4,
+  IV = 5,
+  PartialIV = 6,
+}
+
+type HeaderEntries = Es<
+  | [Headers.Algorithm, number]
+  | [Headers.KeyID, Uint8Array]
+  | [Exclude<Headers, Headers.Algorithm | Headers.KeyID>, Uint8Array]
+>;
+
+type ProfileEs = Es<['name', string] | ['tags', Es<['main', string]>]>;
+type UserEs = Es<['id', number] | ['profile', ProfileEs] | ['note', string]>;
+type ProfileMap = ValueOfKey<UserEs, 'profile'>;
+
+const createUser = (): ImmutableExactKeyMap<UserEs> =>
+  new ImmutableExactKeyMap<UserEs>([
+    ['id', 1],
+    [
+      'profile',
+      [
+        ['name', 'Alice'],
+        ['tags', [['main', 'admin']]],
+      ],
+    ],
+    ['note', 'hello'],
+  ]);
+
+describe('ImmutableExactKeyMap', () => {
+  describe('construction', () => {
+    it('creates nested immutable maps from nested entries', () => {
+      const user = createUser();
+      const profile = user.get('profile');
+
+      expect(profile).toBeInstanceOf(ImmutableExactKeyMap);
+      expect(profile?.get('tags')?.get('main')).toBe('admin');
+      expect(user.size).toBe(3);
+      expectTypeOf(profile).toEqualTypeOf<
+        ImmutableValue<ProfileMap> | undefined
+      >();
+      expectTypeOf(profile?.get('name')).toEqualTypeOf<string | undefined>();
+    });
+
+    it('snapshots an ExactKeyMap with from()', () => {
+      const source = new ExactKeyMap<UserEs>([
+        ['id', 1],
+        ['profile', [['name', 'Alice']]],
+      ]);
+      const snapshot = ImmutableExactKeyMap.from(source);
+
+      source.set('id', 2);
+      source.get('profile')?.set('name', 'Bob');
+
+      expect(snapshot.get('id')).toBe(1);
+      expect(snapshot.get('profile')).toBeInstanceOf(ImmutableExactKeyMap);
+      expect(snapshot.get('profile')?.get('name')).toBe('Alice');
+      expectTypeOf(snapshot).toEqualTypeOf<ImmutableExactKeyMap<UserEs>>();
+    });
+
+    it('is not a Map and implements ReadonlyMap', () => {
+      const user = createUser();
+
+      expect(user).not.toBeInstanceOf(Map);
+      expect([...user.keys()]).toEqual(['id', 'profile', 'note']);
+      expect([...user.values()][0]).toBe(1);
+      expect(new Map(user).get('note')).toBe('hello');
+      expectTypeOf(user).toMatchTypeOf<ReadonlyMap<unknown, unknown>>();
+    });
+
+    it('stores raw() values as-is instead of nesting them', () => {
+      type Entries = Es<['points', Raw<[number, number][]>]>;
+      const map = new ImmutableExactKeyMap<Entries>([
+        ['points', raw([[1, 2]])],
+      ]);
+
+      expect(map.get('points')).toEqual([[1, 2]]);
+      expect(map.get('points')).not.toBeInstanceOf(ImmutableExactKeyMap);
+    });
+  });
+
+  describe('immutability', () => {
+    it('is frozen', () => {
+      const user = createUser();
+
+      expect(Object.isFrozen(user)).toBe(true);
+      expect(Object.isFrozen(user.get('profile'))).toBe(true);
+      expect(() => {
+        (user as unknown as Record<string, unknown>).extra = 1;
+      }).toThrow(TypeError);
+    });
+
+    it('rejects Map.prototype methods', () => {
+      const user = createUser();
+
+      expect(() => Map.prototype.set.call(user, 'id', 2)).toThrow(TypeError);
+      expect(() => Map.prototype.delete.call(user, 'id')).toThrow(TypeError);
+      expect(() => Map.prototype.clear.call(user)).toThrow(TypeError);
+      expect(user.get('id')).toBe(1);
+    });
+
+    it('has no mutating methods', () => {
+      const user = createUser();
+
+      expect('set' in user).toBe(false);
+      expect('delete' in user).toBe(false);
+      expect('clear' in user).toBe(false);
+    });
+  });
+
+  describe('with', () => {
+    it('returns a new map and leaves the original unchanged', () => {
+      const headers = new ImmutableExactKeyMap<HeaderEntries>([
+        [Headers.Algorithm, -7],
+      ]);
+      const kid = new Uint8Array([1, 2]);
+      const next = headers.with(Headers.KeyID, kid);
+
+      expect(next).not.toBe(headers);
+      expect(headers.has(Headers.KeyID)).toBe(false);
+      expect(next.get(Headers.KeyID)).toBe(kid);
+      expect(next.get(Headers.Algorithm)).toBe(-7);
+      expect(Object.isFrozen(next)).toBe(true);
+    });
+
+    it('keeps the Es-driven typing of ExactKeyMap.set', () => {
+      const headers = new ImmutableExactKeyMap<HeaderEntries>();
+
+      headers.with(Headers.IV, new Uint8Array([1]));
+      // @ts-expect-error - Algorithm expects a number
+      headers.with(Headers.Algorithm, 'ES256');
+      // @ts-expect-error - unknown key
+      headers.with(99, 1);
+
+      expectTypeOf(headers.with(Headers.Algorithm, -7)).toEqualTypeOf<
+        ImmutableExactKeyMap<HeaderEntries>
+      >();
+    });
+
+    it('shares unchanged nested maps', () => {
+      const user = createUser();
+      const next = user.with('id', 2);
+
+      expect(next.get('profile')).toBe(user.get('profile'));
+    });
+
+    it('returns the same map if the value is unchanged', () => {
+      const user = createUser();
+
+      expect(user.with('id', 1)).toBe(user);
+    });
+
+    it('converts ExactKeyMap values to immutable snapshots', () => {
+      const user = createUser();
+      const profile: ProfileMap = new ExactKeyMap([['name', 'Bob']]);
+      const next = user.with('profile', profile);
+
+      profile.set('name', 'Carol');
+
+      expect(next.get('profile')).toBeInstanceOf(ImmutableExactKeyMap);
+      expect(next.get('profile')?.get('name')).toBe('Bob');
+    });
+
+    it('accepts immutable nested maps as-is', () => {
+      const user = createUser();
+      const profile: ImmutableValue<ProfileMap> = new ImmutableExactKeyMap([
+        ['name', 'Bob'],
+      ]);
+
+      expect(user.with('profile', profile).get('profile')).toBe(profile);
+    });
+  });
+
+  describe('without', () => {
+    it('returns a new map without the key', () => {
+      const user = createUser();
+      const next = user.without('note');
+
+      expect(next.has('note')).toBe(false);
+      expect(user.has('note')).toBe(true);
+      expect(next.get('profile')).toBe(user.get('profile'));
+    });
+
+    it('returns the same map if the key is absent', () => {
+      const user = createUser().without('note');
+
+      expect(user.without('note')).toBe(user);
+    });
+  });
+
+  describe('withIn', () => {
+    it('updates a nested value and only recreates maps on the path', () => {
+      const user = createUser();
+      const next = user.withIn(['profile', 'name'], 'Bob');
+
+      expect(next.get('profile')?.get('name')).toBe('Bob');
+      expect(user.get('profile')?.get('name')).toBe('Alice');
+      expect(next.get('profile')).not.toBe(user.get('profile'));
+      expect(next.get('profile')?.get('tags')).toBe(
+        user.get('profile')?.get('tags'),
+      );
+    });
+
+    it('creates missing intermediate maps', () => {
+      const user = new ImmutableExactKeyMap<UserEs>([['id', 1]]);
+      const next = user.withIn(['profile', 'tags', 'main'], 'owner');
+
+      expect(next.get('profile')?.get('tags')?.get('main')).toBe('owner');
+      expect(next.get('profile')).toBeInstanceOf(ImmutableExactKeyMap);
+    });
+
+    it('behaves like with() for single-key paths', () => {
+      const user = createUser();
+
+      expect(user.withIn(['id'], 2).get('id')).toBe(2);
+      expect(user.withIn(['id'], 1)).toBe(user);
+    });
+
+    it('types paths and values from Es', () => {
+      const user = createUser().without('id');
+
+      user.withIn(['profile', 'tags', 'main'], 'x');
+      // @ts-expect-error - name expects a string
+      user.withIn(['profile', 'name'], 42);
+      // @ts-expect-error - invalid path
+      user.withIn(['profile', 'missing'], 'x');
+      // @ts-expect-error - id is not a map
+      user.withIn(['id', 'name'], 'x');
+    });
+
+    it('throws for paths through non-map values or empty paths', () => {
+      const user = createUser();
+
+      expect(() => user.withIn(['id', 'x'] as never, 1 as never)).toThrow(
+        'the value at key id is not a map',
+      );
+      expect(() => user.withIn([] as never, 1 as never)).toThrow(
+        'Key path must not be empty',
+      );
+    });
+  });
+
+  describe('conversion', () => {
+    it('creates a mutable deep copy with toExactKeyMap()', () => {
+      const user = createUser();
+      const mutable = user.toExactKeyMap();
+
+      mutable.get('profile')?.set('name', 'Bob');
+
+      expect(mutable).toBeInstanceOf(ExactKeyMap);
+      expect(mutable.get('profile')).toBeInstanceOf(ExactKeyMap);
+      expect(user.get('profile')?.get('name')).toBe('Alice');
+      expectTypeOf(mutable).toEqualTypeOf<ExactKeyMap<UserEs>>();
+    });
+
+    it('serializes like ExactKeyMap', () => {
+      const user = createUser();
+
+      expect(JSON.stringify(user)).toBe(JSON.stringify(user.toExactKeyMap()));
+    });
+
+    it('converts to native maps with asMap()', () => {
+      const plain = createUser().asMap();
+      const profile = plain.get('profile');
+
+      expect(profile).toBeInstanceOf(Map);
+      expect(profile).not.toBeInstanceOf(ImmutableExactKeyMap);
+      expect((profile as Map<string, unknown>).get('name')).toBe('Alice');
+    });
+
+    it('is converted by ExactKeyMap.asMap() when nested', () => {
+      type Entries = Es<['inner', ImmutableExactKeyMap<Es<['a', number]>>]>;
+      const outer = new ExactKeyMap<Entries>([
+        ['inner', new ImmutableExactKeyMap([['a', 1]])],
+      ]);
+
+      expect(outer.asMap().get('inner')).toBeInstanceOf(Map);
+    });
+  });
+
+  describe('equality and hashing', () => {
+    it('compares structurally with immutable and mutable maps', () => {
+      const user = createUser();
+      const next = user.withIn(['profile', 'name'], 'Bob');
+
+      expect(user.equals(createUser())).toBe(true);
+      expect(user.equals(user.toExactKeyMap())).toBe(true);
+      expect(user.toExactKeyMap().equals(user)).toBe(true);
+      expect(user.equals(next)).toBe(false);
+      expect(next.withIn(['profile', 'name'], 'Alice').equals(user)).toBe(true);
+    });
+
+    it('hashes like the equivalent ExactKeyMap', () => {
+      const user = createUser();
+
+      expect(user.hash()).toBe(user.toExactKeyMap().hash());
+      expect(user.hash()).not.toBe(user.with('id', 2).hash());
+    });
+  });
+
+  describe('has as a type guard', () => {
+    it('narrows get for checked keys', () => {
+      const user = createUser();
+
+      if (user.has('note')) {
+        expectTypeOf(user.get('note')).toEqualTypeOf<string>();
+        expectTypeOf(user.get('id')).toEqualTypeOf<number | undefined>();
+      }
+      if (user.hasAll(['id', 'profile'])) {
+        expectTypeOf(user.get('id')).toEqualTypeOf<number>();
+        expectTypeOf(user.get('profile')).toEqualTypeOf<
+          ImmutableValue<ProfileMap>
+        >();
+      }
+
+      expect(user.hasAll(['id', 'note'])).toBe(true);
+      expect(user.without('note').hasAll(['id', 'note'])).toBe(false);
+    });
+  });
+
+  describe('required keys', () => {
+    type Entries = Es<RequiredEntry<['id', number]> | ['note', string]>;
+
+    it('types required keys without undefined and requires them', () => {
+      const map = new ImmutableExactKeyMap<Entries>([['id', 1]]);
+
+      expectTypeOf(map.get('id')).toEqualTypeOf<number>();
+      expectTypeOf(map.get('note')).toEqualTypeOf<string | undefined>();
+      // @ts-expect-error - entries are mandatory, since id is required
+      new ImmutableExactKeyMap<Entries>();
+    });
+
+    it('rejects removing required keys', () => {
+      const map = new ImmutableExactKeyMap<Entries>([
+        ['id', 1],
+        ['note', 'x'],
+      ]);
+
+      expect(map.without('note').has('note')).toBe(false);
+      // @ts-expect-error - id is required
+      map.without('id');
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { sortEntries } from '../KeyOrder';
+
+describe('sortEntries', () => {
+  const entries: [unknown, string][] = [
+    [100, 'a'],
+    ['b', 'b'],
+    [-1, 'c'],
+    [1, 'd'],
+    ['a', 'e'],
+  ];
+
+  it('keeps insertion order and returns a copy', () => {
+    const sorted = sortEntries(entries, 'insertion');
+
+    expect(sorted).toEqual(entries);
+    expect(sorted).not.toBe(entries);
+  });
+
+  it('sorts by encoded length first, then bytewise', () => {
+    expect(sortEntries(entries, 'deterministic')).toEqual([
+      [1, 'd'],
+      [-1, 'c'],
+      [100, 'a'],
+      ['a', 'e'],
+      ['b', 'b'],
+    ]);
+  });
+
+  it('sorts with a custom comparator', () => {
+    const byString = (a: unknown, b: unknown): number =>
+      String(a).localeCompare(String(b));
+
+    expect(sortEntries(entries, byString).map(([key]) => key)).toEqual([
+      -1,
+      1,
+      100,
+      'a',
+      'b',
+    ]);
+  });
+
+  it('does not modify the input', () => {
+    const input: [number, string][] = [
+      [2, 'b'],
+      [1, 'a'],
+    ];
+    sortEntries(input, 'deterministic');
+
+    expect(input).toEqual([
+      [2, 'b'],
+      [1, 'a'],
+    ]);
+  });
+});
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { MergeConflictError } from '../MergeConflictError';
+
+describe('MergeConflictError', () => {
+  it('reports the key path and both values', () => {
+    const error = new MergeConflictError(['server', 'port'], 80, 443);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('MergeConflictError');
+    expect(error.message).toBe('Merge conflict at ["server", "port"]');
+    expect(error.path).toEqual(['server', 'port']);
+    expect(error.left).toBe(80);
+    expect(error.right).toBe(443);
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { MissingKeyError } from '../MissingKeyError';
+
+describe('MissingKeyError', () => {
+  it('carries the missing key paths and lists them in the message', () => {
+    const paths = [[1], ['owner', 'name']];
+    const error = new MissingKeyError(paths);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('MissingKeyError');
+    expect(error.paths).toBe(paths);
+    expect(error.message).toBe(
+      'Missing 2 required key(s): [1], ["owner", "name"]',
+    );
+  });
+});
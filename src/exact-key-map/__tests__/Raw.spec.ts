@@ -0,0 +1,13 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { Raw, raw } from '../Raw';
+
+describe('raw', () => {
+  it('wraps a value in a Raw marker', () => {
+    const points: [number, number][] = [[1, 2]];
+    const marker = raw(points);
+
+    expect(marker).toBeInstanceOf(Raw);
+    expect(marker.value).toBe(points);
+    expectTypeOf(marker).toEqualTypeOf<Raw<[number, number][]>>();
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { UnknownKeyError } from '../UnknownKeyError';
+import { keyMatching } from '@/schema/KeyPattern';
+
+describe('UnknownKeyError', () => {
+  it('names the key and lists the allowed keys', () => {
+    const error = new UnknownKeyError('nmae', ['name', 1]);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('UnknownKeyError');
+    expect(error.message).toBe('Unknown key ["nmae"]; allowed keys: "name", 1');
+    expect(error.key).toBe('nmae');
+    expect(error.allowedKeys).toEqual(['name', 1]);
+  });
+
+  it('describes key patterns', () => {
+    const isHeader = (key: unknown): key is number => typeof key === 'number';
+    const error = new UnknownKeyError('x', [
+      'name',
+      keyMatching(isHeader, 'numeric header'),
+    ]);
+
+    expect(error.message).toBe(
+      'Unknown key ["x"]; allowed keys: "name", (numeric header)',
+    );
+  });
+
+  it('reports an empty key set', () => {
+    expect(new UnknownKeyError('x', []).message).toBe(
+      'Unknown key ["x"]; allowed keys: none',
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { defineExactKeyMap } from '../defineExactKeyMap';
+import { ExactKeyMap } from '../ExactKeyMap';
+import { defineSchema } from '@/schema/Schema';
+import { isNumber, isString, isUint8Array } from '@/schema/validators';
+
+enum Headers {
+  Algorithm = 1,
+  KeyID = 4,
+  IV = 5,
+}
+
+const HeadersSchema = defineSchema([
+  [Headers.Algorithm, isNumber, { required: true }],
+  [Headers.KeyID, isUint8Array, { alias: 'kid' }],
+  [Headers.IV, isUint8Array],
+  ['note', isString, { default: '' }],
+]);
+
+const BaseHeaders = defineExactKeyMap(HeadersSchema, {
+  accessors: { algorithm: Headers.Algorithm, keyId: 'kid', iv: Headers.IV },
+});
+
+class ProtectedHeaders extends BaseHeaders {
+  isEncrypted(): boolean {
+    return this.hasIv();
+  }
+}
+
+describe('defineExactKeyMap', () => {
+  it('creates an ExactKeyMap subclass that uses the schema', () => {
+    const headers = new BaseHeaders([[Headers.Algorithm, -7]]);
+
+    expect(headers).toBeInstanceOf(BaseHeaders);
+    expect(headers).toBeInstanceOf(ExactKeyMap);
+    expect(BaseHeaders.schema).toBe(HeadersSchema);
+    expect(headers.getOrDefault('note')).toBe('');
+    expect(headers.get('kid')).toBeUndefined();
+    expect(() => headers.assertComplete()).not.toThrow();
+  });
+
+  it('generates getters, has-methods and setters for the accessors', () => {
+    const headers = new BaseHeaders([[Headers.Algorithm, -7]]);
+    const kid = new Uint8Array([1]);
+
+    expect(headers.getAlgorithm()).toBe(-7);
+    expect(headers.hasKeyId()).toBe(false);
+    expect(headers.setKeyId(kid)).toBe(headers);
+    expect(headers.hasKeyId()).toBe(true);
+    expect(headers.getKeyId()).toBe(kid);
+    expect(headers.get(Headers.KeyID)).toBe(kid);
+  });
+
+  it('types the accessors like get, has and set', () => {
+    const headers = new BaseHeaders([[Headers.Algorithm, -7]]);
+
+    expectTypeOf(headers.getAlgorithm()).toEqualTypeOf<number>();
+    expectTypeOf(headers.getIv()).toEqualTypeOf<Uint8Array | undefined>();
+    if (headers.hasIv()) {
+      expectTypeOf(headers.getIv()).toEqualTypeOf<Uint8Array>();
+    }
+    expectTypeOf(headers.setIv).parameter(0).toEqualTypeOf<Uint8Array>();
+
+    // @ts-expect-error values are checked against the key's type
+    expect(() => headers.setAlgorithm('ES256')).not.toThrow();
+    // @ts-expect-error required keys are mandatory in the constructor
+    expect(() => new BaseHeaders()).not.toThrow();
+  });
+
+  it('can be extended with domain methods', () => {
+    const headers = new ProtectedHeaders([[Headers.Algorithm, -7]]);
+
+    expect(headers).toBeInstanceOf(ProtectedHeaders);
+    expect(headers).toBeInstanceOf(BaseHeaders);
+    expect(headers.isEncrypted()).toBe(false);
+    expect(headers.setIv(new Uint8Array(12)).isEncrypted()).toBe(true);
+    expect(headers.clone()).toBeInstanceOf(ProtectedHeaders);
+    expectTypeOf(
+      headers.setIv(new Uint8Array()),
+    ).toEqualTypeOf<ProtectedHeaders>();
+  });
+
+  it('keeps the class and schema in mapValues and filter', () => {
+    const headers = new ProtectedHeaders([
+      [Headers.Algorithm, -7],
+      ['note', 'signed'],
+    ]);
+    const negated = headers.mapValues({ [Headers.Algorithm]: (alg) => -alg });
+    const Notes = defineExactKeyMap(defineSchema([['text', isString]]));
+    const notes = new Notes([['text', 'hi']]).filter((text) => text !== '');
+
+    expect(negated).toBeInstanceOf(ProtectedHeaders);
+    expect(negated.getAlgorithm()).toBe(7);
+    expect(negated.isEncrypted()).toBe(false);
+    expect(negated.get('kid')).toBeUndefined();
+    expect(() => negated.assertComplete()).not.toThrow();
+    expectTypeOf(negated).toEqualTypeOf<ProtectedHeaders>();
+    expect(notes).toBeInstanceOf(Notes);
+    expect(notes.get('text')).toBe('hi');
+    expectTypeOf(notes).toEqualTypeOf<InstanceType<typeof Notes>>();
+  });
+
+  it('defines classes without accessors', () => {
+    const Notes = defineExactKeyMap(defineSchema([['text', isString]]));
+    const notes = new Notes([['text', 'hi']]);
+
+    expect(notes.get('text')).toBe('hi');
+    expect(Object.keys(Notes.prototype)).toEqual([]);
+  });
+
+  it('rejects invalid accessors', () => {
+    expect(() =>
+      defineExactKeyMap(HeadersSchema, { accessors: { '': Headers.IV } }),
+    ).toThrow('Accessor names must not be empty');
+    expect(() =>
+      defineExactKeyMap(HeadersSchema, { accessors: { orDefault: 'note' } }),
+    ).toThrow('Accessor method getOrDefault conflicts with an existing method');
+    expect(() =>
+      defineExactKeyMap(HeadersSchema, {
+        accessors: { iv: Headers.IV, Iv: Headers.IV },
+      }),
+    ).toThrow('Accessor method getIv conflicts with an existing method');
+    expect(() =>
+      defineExactKeyMap(HeadersSchema, {
+        // @ts-expect-error the key is not in the schema
+        accessors: { other: 99 },
+      }),
+    ).toThrow('Key [99] of accessor "other" is not allowed by the schema');
+  });
+});
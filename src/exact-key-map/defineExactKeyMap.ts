@@ -0,0 +1,146 @@
+import type { InferEs } from '@/types/InferEs';
+import type { AccessorKeys, AccessorMethods } from '@/types/AccessorMethods';
+import { Es } from '@/types/Es';
+import { Entry } from '@/types/Entry';
+import type { RequiredKeys } from '@/types/RequiredEntry';
+import type { InitialEntries } from '@/types/InitialEntries';
+import type { Schema, SchemaDefinition } from '@/schema/Schema';
+import { formatPath } from '@/schema/SchemaValidationError';
+import { ExactKeyMap } from './ExactKeyMap';
+import type { ExactKeyMapOptions } from './ExactKeyMapOptions';
+import type { DefineExactKeyMapOptions } from './DefineExactKeyMapOptions';
+
+/**
+ * Constructor arguments of a defined class: those of the `ExactKeyMap`
+ * constructor, except that options stay optional since the class supplies
+ * the schema that resolves aliases.
+ */
+type ConstructorArgs<Entries extends Es<Entry>> = [
+  RequiredKeys<Entries>,
+] extends [never]
+  ? [
+      entries?: Entries | Iterable<Entries[number]>,
+      options?: ExactKeyMapOptions,
+    ]
+  : [entries: InitialEntries<Entries>, options?: ExactKeyMapOptions];
+
+/**
+ * The class returned by `defineExactKeyMap`: an `ExactKeyMap` subclass for
+ * the entries of schema `S`, with the accessor methods of `A`.
+ *
+ * The constructor takes the same arguments as the `ExactKeyMap` constructor,
+ * except that options are always optional, and always uses the schema. The
+ * class can be extended like any other class.
+ *
+ * @typeParam S - The schema the class is defined with.
+ * @typeParam A - The accessor names and their keys.
+ */
+export type ExactKeyMapClass<
+  S extends Schema<readonly SchemaDefinition[]>,
+  A extends AccessorKeys<InferEs<S>>,
+> = {
+  new (
+    ...args: ConstructorArgs<InferEs<S>>
+  ): ExactKeyMap<InferEs<S>> & AccessorMethods<InferEs<S>, A>;
+  /**
+   * The schema the class was defined with.
+   */
+  readonly schema: S;
+};
+
+/**
+ * Defines an `ExactKeyMap` subclass for a schema, with typed accessor
+ * methods for selected keys.
+ *
+ * Instances use the schema as if it were passed as the `schema` option, so
+ * defaults, aliases and `assertComplete()` work without further setup. Each
+ * accessor name gets a `get<Name>()`, `has<Name>()` and `set<Name>(value)`
+ * method, typed like `get`, `has` and `set` for its key. The class works with
+ * `instanceof` and can be extended to add domain-specific methods.
+ *
+ * @typeParam S - The schema describing the map's entries
+ * @typeParam A - The accessor names and their keys
+ * @param schema - The schema describing the map's entries
+ * @param options - The accessors to generate; see `DefineExactKeyMapOptions`
+ * @returns The new class
+ * @throws {TypeError} If an accessor name is empty, an accessor method would
+ *   replace an existing method, or an accessor's key is not allowed by the schema
+ *
+ * @example
+ * ```typescript
+ * class ProtectedHeaders extends defineExactKeyMap(ProtectedHeadersSchema, {
+ *   accessors: { algorithm: Headers.Algorithm, iv: Headers.IV },
+ * }) {
+ *   isEncrypted(): boolean {
+ *     return this.hasIv();
+ *   }
+ * }
+ *
+ * const headers = new ProtectedHeaders([[Headers.Algorithm, -7]]);
+ * headers.getAlgorithm(); // number
+ * headers.setIv(new Uint8Array(12)).isEncrypted(); // true
+ * ```
+ */
+export const defineExactKeyMap = <
+  S extends Schema<readonly SchemaDefinition[]>,
+  const A extends AccessorKeys<InferEs<S>> = Record<never, never>,
+>(
+  schema: S,
+  options: DefineExactKeyMapOptions<InferEs<S>, A> = {},
+): ExactKeyMapClass<S, A> => {
+  class DefinedExactKeyMap extends ExactKeyMap<Es<Entry>> {
+    static readonly schema = schema;
+
+    constructor(entries?: Iterable<Entry>, mapOptions?: ExactKeyMapOptions) {
+      super(entries, { ...mapOptions, schema });
+    }
+  }
+
+  Object.entries(options.accessors ?? {}).forEach(([name, key]) => {
+    if (name === '') {
+      throw new TypeError('Accessor names must not be empty');
+    }
+
+    if (schema.ruleFor(key) === undefined) {
+      throw new TypeError(
+        `Key ${formatPath([key])} of accessor "${name}" is not allowed by the schema`,
+      );
+    }
+
+    const suffix = `${name[0].toUpperCase()}${name.slice(1)}`;
+
+    defineMethod(DefinedExactKeyMap, `get${suffix}`, function () {
+      return this.get(key);
+    });
+    defineMethod(DefinedExactKeyMap, `has${suffix}`, function () {
+      return this.has(key);
+    });
+    defineMethod(DefinedExactKeyMap, `set${suffix}`, function (value) {
+      return this.set(key, value as never);
+    });
+  });
+
+  return DefinedExactKeyMap as unknown as ExactKeyMapClass<S, A>;
+};
+
+/**
+ * Adds a method to a class prototype, refusing to replace an existing one.
+ */
+const defineMethod = (
+  target: { prototype: ExactKeyMap<Es<Entry>> },
+  name: string,
+  method: (this: ExactKeyMap<Es<Entry>>, value?: unknown) => unknown,
+): void => {
+  if (name in target.prototype) {
+    throw new TypeError(
+      `Accessor method ${name} conflicts with an existing method`,
+    );
+  }
+
+  // Non-enumerable like the methods of a class body
+  Object.defineProperty(target.prototype, name, {
+    value: method,
+    writable: true,
+    configurable: true,
+  });
+};
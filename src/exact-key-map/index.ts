@@ -1 +1,18 @@
+export * from './ChangeEvent';
+export * from './CloneOptions';
+export * from './defineExactKeyMap';
+export * from './DefineExactKeyMapOptions';
 export * from './ExactKeyMap';
+export * from './ExactKeyMapOptions';
+export * from './FilterOptions';
+export * from './ImmutableExactKeyMap';
+export * from './InspectOptions';
+export * from './KeyNames';
+export * from './KeyOrder';
+export * from './MergeConflictError';
+export * from './MergeOptions';
+export * from './MissingKeyError';
+export * from './ProjectionOptions';
+export * from './Raw';
+export * from './ToObjectOptions';
+export * from './UnknownKeyError';
@@ -1,3 +1,7 @@
+export * as cbor from './cbor';
 export * from './exact-key-map';
+export * from './json';
+export * from './patch';
+export * from './schema';
 export * from './types';
 export * from './utils';
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { decodeBase64Url, encodeBase64Url } from '../base64url';
+
+const bytes = (...values: number[]): Uint8Array => Uint8Array.from(values);
+
+describe('base64url', () => {
+  it('encodes without padding using the URL-safe alphabet', () => {
+    expect(encodeBase64Url(bytes())).toBe('');
+    expect(encodeBase64Url(bytes(0x66))).toBe('Zg');
+    expect(encodeBase64Url(bytes(0x66, 0x6f))).toBe('Zm8');
+    expect(encodeBase64Url(bytes(0x66, 0x6f, 0x6f))).toBe('Zm9v');
+    expect(encodeBase64Url(bytes(0xfb, 0xff))).toBe('-_8');
+  });
+
+  it('decodes padded and unpadded input', () => {
+    expect(decodeBase64Url('')).toEqual(bytes());
+    expect(decodeBase64Url('Zg')).toEqual(bytes(0x66));
+    expect(decodeBase64Url('Zg==')).toEqual(bytes(0x66));
+    expect(decodeBase64Url('Zm9v')).toEqual(bytes(0x66, 0x6f, 0x6f));
+    expect(decodeBase64Url('-_8')).toEqual(bytes(0xfb, 0xff));
+  });
+
+  it('round-trips arbitrary bytes', () => {
+    const input = Uint8Array.from({ length: 256 }, (_, i) => i);
+
+    expect(decodeBase64Url(encodeBase64Url(input))).toEqual(input);
+  });
+
+  it('rejects invalid input', () => {
+    expect(() => decodeBase64Url('ab+c')).toThrow(SyntaxError);
+    expect(() => decodeBase64Url('abcde')).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { fromJSONValue, toJSONValue } from '../jsonValue';
+
+const roundTrip = (value: unknown): unknown =>
+  fromJSONValue(JSON.parse(JSON.stringify(toJSONValue(value))));
+
+describe('toJSONValue', () => {
+  it('keeps JSON-native values', () => {
+    expect(toJSONValue('a')).toBe('a');
+    expect(toJSONValue(1.5)).toBe(1.5);
+    expect(toJSONValue(true)).toBe(true);
+    expect(toJSONValue(null)).toBeNull();
+    expect(toJSONValue([1, 'a'])).toEqual([1, 'a']);
+    expect(toJSONValue({ a: 1 })).toEqual({ a: 1 });
+  });
+
+  it('tags values JSON cannot represent', () => {
+    expect(toJSONValue(new Uint8Array([0xaa, 0xbb]))).toEqual({
+      $bytes: 'qrs',
+    });
+    expect(toJSONValue(new Date(0))).toEqual({
+      $date: '1970-01-01T00:00:00.000Z',
+    });
+    expect(toJSONValue(10n ** 20n)).toEqual({
+      $bigint: '100000000000000000000',
+    });
+    expect(toJSONValue(NaN)).toEqual({ $number: 'NaN' });
+    expect(toJSONValue(-Infinity)).toEqual({ $number: '-Infinity' });
+    expect(toJSONValue(-0)).toEqual({ $number: '-0' });
+    expect(toJSONValue(undefined)).toEqual({ $undefined: true });
+  });
+
+  it('tags maps with their entries, preserving key types', () => {
+    expect(
+      toJSONValue(
+        new Map<unknown, unknown>([
+          [1, 'a'],
+          ['b', new Map([[2n, true]])],
+        ]),
+      ),
+    ).toEqual({
+      $map: [
+        [1, 'a'],
+        ['b', { $map: [[{ $bigint: '2' }, true]] }],
+      ],
+    });
+  });
+
+  it('escapes plain objects that look like tags', () => {
+    expect(toJSONValue({ $bytes: 'x' })).toEqual({
+      $object: { $bytes: 'x' },
+    });
+  });
+
+  it('throws TypeError for unsupported values', () => {
+    expect(() => toJSONValue(() => 1)).toThrow(TypeError);
+    expect(() => toJSONValue(Symbol('x'))).toThrow(TypeError);
+    expect(() => toJSONValue(new (class Point {})())).toThrow(TypeError);
+  });
+});
+
+describe('fromJSONValue', () => {
+  it('round-trips every supported value', () => {
+    const values: unknown[] = [
+      'a',
+      0,
+      -0,
+      NaN,
+      Infinity,
+      true,
+      null,
+      undefined,
+      12345678901234567890n,
+      new Uint8Array([1, 2, 3]),
+      new Date(1700000000000),
+      [1, [2, new Uint8Array([4])]],
+      { a: { b: [1n] } },
+      { $bytes: 'not bytes' },
+      new Map<unknown, unknown>([
+        [1, new Map([['x', new Uint8Array([9])]])],
+        [-2, [new Date(0)]],
+      ]),
+    ];
+
+    values.forEach((value) => {
+      expect(roundTrip(value)).toEqual(value);
+    });
+    expect(Object.is(roundTrip(-0), -0)).toBe(true);
+  });
+
+  it('revives maps as native Maps', () => {
+    const map = fromJSONValue({ $map: [[1, 'a']] });
+
+    expect(Object.getPrototypeOf(map)).toBe(Map.prototype);
+    expect(map).toEqual(new Map([[1, 'a']]));
+  });
+
+  it('throws SyntaxError for malformed tags', () => {
+    expect(() => fromJSONValue({ $map: 'x' })).toThrow(SyntaxError);
+    expect(() => fromJSONValue({ $map: [[1]] })).toThrow(SyntaxError);
+    expect(() => fromJSONValue({ $bytes: 1 })).toThrow(SyntaxError);
+    expect(() => fromJSONValue({ $date: 1 })).toThrow(SyntaxError);
+    expect(() => fromJSONValue({ $date: 'yesterday' })).toThrow(
+      new SyntaxError('Invalid $date content: yesterday'),
+    );
+    expect(() => fromJSONValue({ $bigint: 1 })).toThrow(SyntaxError);
+    expect(() => fromJSONValue({ $number: 1 })).toThrow(SyntaxError);
+    expect(() => fromJSONValue({ $object: [] })).toThrow(SyntaxError);
+  });
+});
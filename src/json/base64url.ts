@@ -0,0 +1,72 @@
+const ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Encodes bytes as unpadded base64url (RFC 4648, Section 5).
+ *
+ * @param bytes - The bytes to encode.
+ * @returns The base64url string.
+ *
+ * @example
+ * ```ts
+ * encodeBase64Url(new Uint8Array([0xfb, 0xff])); // '-_8'
+ * ```
+ */
+export const encodeBase64Url = (bytes: Uint8Array): string => {
+  let result = '';
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk =
+      (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const length = Math.min(bytes.length - i, 3) + 1;
+
+    for (let j = 0; j < length; j++) {
+      result += ALPHABET[(chunk >> (18 - j * 6)) & 0x3f];
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Decodes an unpadded (or padded) base64url string.
+ *
+ * @param text - The base64url string to decode.
+ * @returns The decoded bytes.
+ * @throws {SyntaxError} If the string is not valid base64url.
+ *
+ * @example
+ * ```ts
+ * decodeBase64Url('-_8'); // Uint8Array [0xfb, 0xff]
+ * ```
+ */
+export const decodeBase64Url = (text: string): Uint8Array => {
+  const input = text.replace(/=+$/, '');
+
+  if (input.length % 4 === 1) {
+    throw new SyntaxError('Invalid base64url length');
+  }
+
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of input) {
+    const index = ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new SyntaxError(
+        `Invalid base64url character ${JSON.stringify(char)}`,
+      );
+    }
+
+    buffer = (buffer << 6) | index;
+    bits += 6;
+
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  return Uint8Array.from(bytes);
+};
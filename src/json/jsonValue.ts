@@ -0,0 +1,199 @@
+import { decodeBase64Url, encodeBase64Url } from './base64url';
+import { isPlainObject } from '@/utils/isPlainObject';
+
+/**
+ * A value that `JSON.stringify` can represent without loss.
+ */
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+const TAGS = [
+  '$map',
+  '$bytes',
+  '$date',
+  '$bigint',
+  '$number',
+  '$undefined',
+  '$object',
+] as const;
+
+type Tag = (typeof TAGS)[number];
+
+const tagOf = (value: Record<PropertyKey, unknown>): Tag | undefined => {
+  const keys = Object.keys(value);
+  return keys.length === 1 && (TAGS as readonly string[]).includes(keys[0])
+    ? (keys[0] as Tag)
+    : undefined;
+};
+
+const mapValues = <T, R>(
+  object: Record<string, T>,
+  fn: (value: T) => R,
+): Record<string, R> =>
+  Object.fromEntries(
+    Object.entries(object).map(([key, value]) => [key, fn(value)]),
+  );
+
+/**
+ * Converts a value to a lossless JSON representation.
+ *
+ * Values JSON cannot represent are wrapped in single-key tag objects:
+ * - `Map`s (including nested `ExactKeyMap`s) become `{ "$map": [[key, value], ...] }`,
+ *   preserving non-string keys and the map's iteration order
+ * - `Uint8Array`s become `{ "$bytes": "<base64url>" }`
+ * - `Date`s become `{ "$date": "<ISO 8601>" }`
+ * - bigints become `{ "$bigint": "<decimal>" }`
+ * - `NaN`, `Infinity`, `-Infinity` and `-0` become `{ "$number": "<text>" }`
+ * - `undefined` becomes `{ "$undefined": true }`
+ * - plain objects that look like a tag object are wrapped in `{ "$object": ... }`
+ *
+ * Strings, finite numbers, booleans, `null`, arrays and other plain objects are
+ * kept as they are (with their contents converted).
+ *
+ * @param value - The value to convert.
+ * @returns The JSON representation, which {@link fromJSONValue} reverts.
+ * @throws {TypeError} If the value (or a value inside it) cannot be represented.
+ *
+ * @example
+ * ```ts
+ * toJSONValue(new Map([[1, new Uint8Array([1, 2])]]));
+ * // { $map: [[1, { $bytes: 'AQI' }]] }
+ * ```
+ */
+export const toJSONValue = (value: unknown): JsonValue => {
+  if (
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    value === null
+  ) {
+    return value;
+  }
+
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && !Object.is(value, -0)
+      ? value
+      : { $number: Object.is(value, -0) ? '-0' : String(value) };
+  }
+
+  if (typeof value === 'bigint') {
+    return { $bigint: value.toString() };
+  }
+
+  if (value === undefined) {
+    return { $undefined: true };
+  }
+
+  if (value instanceof Map) {
+    return {
+      $map: Array.from(value, ([key, entryValue]) => [
+        toJSONValue(key),
+        toJSONValue(entryValue),
+      ]),
+    };
+  }
+
+  if (value instanceof Uint8Array) {
+    return { $bytes: encodeBase64Url(value) };
+  }
+
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(toJSONValue);
+  }
+
+  if (isPlainObject(value)) {
+    const object = mapValues(value, toJSONValue);
+    return tagOf(value) ? { $object: object } : object;
+  }
+
+  throw new TypeError(
+    `Cannot convert value of type ${Object.prototype.toString.call(value)} to JSON`,
+  );
+};
+
+const reviveTagged = (tag: Tag, content: JsonValue): unknown => {
+  switch (tag) {
+    case '$map':
+      if (!Array.isArray(content)) {
+        throw new SyntaxError('Invalid $map content');
+      }
+      return new Map(
+        content.map((entry) => {
+          if (!Array.isArray(entry) || entry.length !== 2) {
+            throw new SyntaxError('Invalid $map entry');
+          }
+          return [fromJSONValue(entry[0]), fromJSONValue(entry[1])];
+        }),
+      );
+    case '$bytes':
+      if (typeof content !== 'string') {
+        throw new SyntaxError('Invalid $bytes content');
+      }
+      return decodeBase64Url(content);
+    case '$date': {
+      if (typeof content !== 'string') {
+        throw new SyntaxError('Invalid $date content');
+      }
+      const date = new Date(content);
+      if (Number.isNaN(date.getTime())) {
+        throw new SyntaxError(`Invalid $date content: ${content}`);
+      }
+      return date;
+    }
+    case '$bigint':
+      if (typeof content !== 'string') {
+        throw new SyntaxError('Invalid $bigint content');
+      }
+      return BigInt(content);
+    case '$number':
+      if (typeof content !== 'string') {
+        throw new SyntaxError('Invalid $number content');
+      }
+      return content === '-0' ? -0 : Number(content);
+    case '$undefined':
+      return undefined;
+    case '$object':
+      if (!isPlainObject(content)) {
+        throw new SyntaxError('Invalid $object content');
+      }
+      return mapValues(content as Record<string, JsonValue>, fromJSONValue);
+  }
+};
+
+/**
+ * Reverts {@link toJSONValue}: tag objects are turned back into `Map`s,
+ * `Uint8Array`s, `Date`s, bigints and special numbers.
+ *
+ * Maps are revived as native `Map`s; `ExactKeyMap.fromJSON` turns them into
+ * typed nested `ExactKeyMap` instances according to a schema.
+ *
+ * @param json - A value produced by {@link toJSONValue} (or parsed from its JSON text).
+ * @returns The revived value.
+ * @throws {SyntaxError} If a tag object has malformed content.
+ *
+ * @example
+ * ```ts
+ * fromJSONValue({ $map: [[1, { $bytes: 'AQI' }]] });
+ * // Map { 1 => Uint8Array [1, 2] }
+ * ```
+ */
+export const fromJSONValue = (json: JsonValue): unknown => {
+  if (Array.isArray(json)) {
+    return json.map(fromJSONValue);
+  }
+
+  if (json !== null && typeof json === 'object') {
+    const tag = tagOf(json);
+    return tag ? reviveTagged(tag, json[tag]) : mapValues(json, fromJSONValue);
+  }
+
+  return json;
+};
@@ -0,0 +1,43 @@
+import { formatPath } from '@/schema/SchemaValidationError';
+
+/**
+ * The operation shape `PatchError` reports, independent of the map's `Es`.
+ */
+export type AnyPatchOperation = {
+  readonly op: 'add' | 'replace' | 'remove';
+  readonly path: readonly unknown[];
+  readonly value?: unknown;
+};
+
+/**
+ * Thrown by `applyPatch` when an operation does not fit the map, e.g. an
+ * `add` for a key that is already present or a path through a value that is
+ * not a map. The map is left unchanged.
+ */
+export class PatchError extends Error {
+  /**
+   * The operation that could not be applied.
+   */
+  readonly operation: AnyPatchOperation;
+
+  /**
+   * The position of the operation in the patch.
+   */
+  readonly index: number;
+
+  /**
+   * Creates a new patch error.
+   *
+   * @param operation - The operation that could not be applied
+   * @param index - The position of the operation in the patch
+   * @param reason - Why the operation could not be applied
+   */
+  constructor(operation: AnyPatchOperation, index: number, reason: string) {
+    super(
+      `Cannot apply patch operation ${index} (${operation.op} at ${formatPath(operation.path)}): ${reason}`,
+    );
+    this.name = 'PatchError';
+    this.operation = operation;
+    this.index = index;
+  }
+}
@@ -0,0 +1,46 @@
+import type { Es } from '@/types/Es';
+import type { Entry } from '@/types/Entry';
+import type { KeyPath } from '@/types/KeyPath';
+import type { ValueAtPath } from '@/types/ValueAtPath';
+
+/**
+ * A single change to an `ExactKeyMap`, as produced by `diff` and consumed by
+ * `applyPatch`.
+ *
+ * `path` is a key path into nested maps (see `KeyPath`). The value type of
+ * `add` and `replace` operations is derived from the path with `ValueAtPath`,
+ * so each operation's value is checked against the `Es` of the map:
+ *
+ * - `add` sets a key that is absent,
+ * - `replace` changes the value of a key that is present,
+ * - `remove` deletes a key that is present.
+ *
+ * @typeParam Entries - The `Es` of the map the operation applies to
+ *
+ * @example
+ * ```typescript
+ * const op: PatchOperation<ProtectedHeadersEntries> = {
+ *   op: 'replace',
+ *   path: [Headers.Algorithm],
+ *   value: -35,
+ * };
+ * // { op: 'replace', path: [Headers.Algorithm], value: 'ES256' } // ❌ TypeScript error
+ * ```
+ */
+export type PatchOperation<Entries extends Es<Entry>> =
+  KeyPath<Entries> extends infer P
+    ? P extends KeyPath<Entries>
+      ?
+          | {
+              readonly op: 'add';
+              readonly path: P;
+              readonly value: ValueAtPath<Entries, P>;
+            }
+          | {
+              readonly op: 'replace';
+              readonly path: P;
+              readonly value: ValueAtPath<Entries, P>;
+            }
+          | { readonly op: 'remove'; readonly path: P }
+      : never
+    : never;
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { applyPatch } from '../applyPatch';
+import { diff } from '../diff';
+import { PatchError } from '../PatchError';
+import type { PatchOperation } from '../PatchOperation';
+import { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+import { defineSchema } from '@/schema/Schema';
+import { isNumber, isString } from '@/schema/validators';
+import { Es } from '@/types/Es';
+import type { InferEs } from '@/types/InferEs';
+
+type ConfigEs = Es<
+  | ['name', string]
+  | ['server', Es<['host', string] | ['port', number]>]
+  | ['retries', number]
+>;
+
+const createConfig = (): ExactKeyMap<ConfigEs> =>
+  new ExactKeyMap<ConfigEs>([
+    ['name', 'api'],
+    [
+      'server',
+      [
+        ['host', 'localhost'],
+        ['port', 80],
+      ],
+    ],
+  ]);
+
+describe('applyPatch', () => {
+  it('turns the original map into the updated map', () => {
+    const before = createConfig();
+    const after = createConfig();
+
+    after.delete('name');
+    after.set('retries', 3);
+    after.setIn(['server', 'port'], 443);
+
+    const replica = createConfig();
+    applyPatch(replica, diff(before, after));
+
+    expect(replica.equals(after)).toBe(true);
+  });
+
+  it('applies add, replace and remove operations in place', () => {
+    const config = createConfig();
+    const server = config.get('server');
+
+    applyPatch(config, [
+      { op: 'add', path: ['retries'], value: 3 },
+      { op: 'replace', path: ['server', 'host'], value: 'example.com' },
+      { op: 'remove', path: ['server', 'port'] },
+    ]);
+
+    expect(config.get('retries')).toBe(3);
+    expect(config.get('server')).toBe(server);
+    expect(server?.get('host')).toBe('example.com');
+    expect(server?.has('port')).toBe(false);
+  });
+
+  it('rejects operations that do not fit the map', () => {
+    const config = createConfig();
+
+    expect(() =>
+      applyPatch(config, [{ op: 'add', path: ['name'], value: 'x' }]),
+    ).toThrow('the key is already present');
+    expect(() =>
+      applyPatch(config, [{ op: 'replace', path: ['retries'], value: 1 }]),
+    ).toThrow('the key is not present');
+    expect(() =>
+      applyPatch(config, [{ op: 'remove', path: ['retries'] }]),
+    ).toThrow(PatchError);
+  });
+
+  it('rejects removing keys the schema declares as required', () => {
+    const AccountSchema = defineSchema([
+      ['id', isNumber, { required: true }],
+      ['name', isString],
+    ]);
+    const account = ExactKeyMap.parse(AccountSchema, [
+      ['id', 1],
+      ['name', 'Alice'],
+    ]);
+    const operations = [
+      { op: 'remove', path: ['name'] },
+      { op: 'remove', path: ['id'] },
+    ] as unknown as PatchOperation<InferEs<typeof AccountSchema>>[];
+
+    expect(() => applyPatch(account, operations)).toThrow(
+      'Cannot apply patch operation 1 (remove at ["id"]): the key is required',
+    );
+    expect(account.get('id')).toBe(1);
+    expect(account.get('name')).toBe('Alice');
+  });
+
+  it('rejects paths through values that are not maps', () => {
+    const config = new ExactKeyMap<ConfigEs>([['name', 'api']]);
+    const operation = {
+      op: 'add',
+      path: ['server', 'port'],
+      value: 80,
+    } as const;
+
+    expect(() => applyPatch(config, [operation])).toThrow(
+      'Cannot apply patch operation 0 (add at ["server", "port"]): the parent is not a map',
+    );
+    expect(() =>
+      applyPatch(config, [{ op: 'remove', path: [] } as never]),
+    ).toThrow('the path is empty');
+  });
+
+  it('reports the failing operation and its index', () => {
+    const config = createConfig();
+    const operations: PatchOperation<ConfigEs>[] = [
+      { op: 'add', path: ['retries'], value: 1 },
+      { op: 'add', path: ['retries'], value: 2 },
+    ];
+
+    try {
+      applyPatch(config, operations);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(PatchError);
+      expect((error as PatchError).index).toBe(1);
+      expect((error as PatchError).operation).toBe(operations[1]);
+      expect((error as PatchError).name).toBe('PatchError');
+    }
+  });
+
+  it('leaves the map unchanged if an operation fails', () => {
+    const config = createConfig();
+
+    expect(() =>
+      applyPatch(config, [
+        { op: 'add', path: ['retries'], value: 1 },
+        { op: 'replace', path: ['server', 'host'], value: 'example.com' },
+        { op: 'remove', path: ['name'] },
+        { op: 'remove', path: ['name'] },
+      ]),
+    ).toThrow(PatchError);
+    expect(config.equals(createConfig())).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { diff } from '../diff';
+import type { PatchOperation } from '../PatchOperation';
+import { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+import { Es } from '@/types/Es';
+
+enum Headers {
+  Algorithm = 1,
+  KeyID = 4,
+  IV = 5,
+}
+
+type HeaderEntries = Es<
+  | [Headers.Algorithm, number]
+  | [Headers.KeyID, Uint8Array]
+  | [Headers.IV, Uint8Array]
+>;
+
+type ConfigEs = Es<
+  | ['name', string]
+  | ['server', Es<['host', string] | ['port', number]>]
+  | ['tags', string[]]
+>;
+
+describe('diff', () => {
+  it('returns no operations for equal maps', () => {
+    const a = new ExactKeyMap<HeaderEntries>([
+      [Headers.Algorithm, -7],
+      [Headers.KeyID, new Uint8Array([1])],
+    ]);
+    const b = new ExactKeyMap<HeaderEntries>([
+      [Headers.KeyID, new Uint8Array([1])],
+      [Headers.Algorithm, -7],
+    ]);
+
+    expect(diff(a, b)).toEqual([]);
+  });
+
+  it('reports added, replaced and removed keys', () => {
+    const kid = new Uint8Array([1]);
+    const a = new ExactKeyMap<HeaderEntries>([
+      [Headers.Algorithm, -7],
+      [Headers.IV, new Uint8Array([2])],
+    ]);
+    const b = new ExactKeyMap<HeaderEntries>([
+      [Headers.Algorithm, -35],
+      [Headers.KeyID, kid],
+    ]);
+
+    expect(diff(a, b)).toEqual([
+      { op: 'remove', path: [Headers.IV] },
+      { op: 'replace', path: [Headers.Algorithm], value: -35 },
+      { op: 'add', path: [Headers.KeyID], value: kid },
+    ]);
+  });
+
+  it('compares typed arrays and arrays structurally', () => {
+    const a = new ExactKeyMap<ConfigEs>([['tags', ['a']]]);
+    const b = new ExactKeyMap<ConfigEs>([['tags', ['a']]]);
+    const c = new ExactKeyMap<ConfigEs>([['tags', ['a', 'b']]]);
+
+    expect(diff(a, b)).toEqual([]);
+    expect(diff(a, c)).toEqual([
+      { op: 'replace', path: ['tags'], value: ['a', 'b'] },
+    ]);
+  });
+
+  it('recurses into nested maps with key paths', () => {
+    const a = new ExactKeyMap<ConfigEs>([
+      ['name', 'api'],
+      ['server', [['host', 'localhost']]],
+    ]);
+    const b = new ExactKeyMap<ConfigEs>([
+      ['name', 'api'],
+      [
+        'server',
+        [
+          ['host', 'example.com'],
+          ['port', 443],
+        ],
+      ],
+    ]);
+
+    expect(diff(a, b)).toEqual([
+      { op: 'replace', path: ['server', 'host'], value: 'example.com' },
+      { op: 'add', path: ['server', 'port'], value: 443 },
+    ]);
+  });
+
+  it('adds whole nested maps that are missing', () => {
+    const a = new ExactKeyMap<ConfigEs>([['name', 'api']]);
+    const b = new ExactKeyMap<ConfigEs>([
+      ['name', 'api'],
+      ['server', [['port', 80]]],
+    ]);
+    const operations = diff(a, b);
+
+    expect(operations).toEqual([
+      { op: 'add', path: ['server'], value: b.get('server') },
+    ]);
+  });
+
+  it('types operations from the Es', () => {
+    const a = new ExactKeyMap<ConfigEs>();
+
+    expectTypeOf(diff(a, a)).toEqualTypeOf<PatchOperation<ConfigEs>[]>();
+    expectTypeOf<PatchOperation<ConfigEs>>().toMatchTypeOf<{
+      op: 'add' | 'replace' | 'remove';
+    }>();
+  });
+});
+
+describe('PatchOperation', () => {
+  it('derives value types from the key path', () => {
+    const replace: PatchOperation<HeaderEntries> = {
+      op: 'replace',
+      path: [Headers.Algorithm],
+      value: -35,
+    };
+    const nested: PatchOperation<ConfigEs> = {
+      op: 'add',
+      path: ['server', 'port'],
+      value: 443,
+    };
+    const remove: PatchOperation<ConfigEs> = {
+      op: 'remove',
+      path: ['server', 'host'],
+    };
+
+    expect([replace, nested, remove]).toHaveLength(3);
+  });
+
+  it('rejects values that do not match the key', () => {
+    const algorithm: PatchOperation<HeaderEntries> = {
+      op: 'replace',
+      path: [Headers.Algorithm],
+      // @ts-expect-error - Algorithm expects a number
+      value: 'ES256',
+    };
+    // @ts-expect-error - port expects a number
+    const port: PatchOperation<ConfigEs> = {
+      op: 'add',
+      path: ['server', 'port'],
+      value: '443',
+    };
+    // @ts-expect-error - invalid path
+    const missing: PatchOperation<ConfigEs> = { op: 'remove', path: ['x'] };
+
+    expect([algorithm, port, missing]).toHaveLength(3);
+  });
+});
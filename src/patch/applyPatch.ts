@@ -0,0 +1,117 @@
+import { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+import type { Es } from '@/types/Es';
+import type { Entry } from '@/types/Entry';
+import { AnyPatchOperation, PatchError } from './PatchError';
+import type { PatchOperation } from './PatchOperation';
+
+/**
+ * Restores the previous state of one entry if a later operation fails.
+ */
+type Undo = () => void;
+
+/**
+ * Applies a single operation and returns how to revert it.
+ */
+const applyOperation = (
+  map: ExactKeyMap<Es<Entry>>,
+  operation: AnyPatchOperation,
+  index: number,
+): Undo => {
+  const { op, path } = operation;
+
+  if (path.length === 0) {
+    throw new PatchError(operation, index, 'the path is empty');
+  }
+
+  const key = path[path.length - 1];
+  const parent = path
+    .slice(0, -1)
+    .reduce<unknown>(
+      (current, step) =>
+        current instanceof ExactKeyMap ? current.get(step) : undefined,
+      map,
+    );
+
+  if (!(parent instanceof ExactKeyMap)) {
+    throw new PatchError(operation, index, 'the parent is not a map');
+  }
+
+  const had = parent.has(key);
+  const previous = parent.get(key);
+
+  if (op === 'add' && had) {
+    throw new PatchError(operation, index, 'the key is already present');
+  }
+
+  if (op !== 'add' && !had) {
+    throw new PatchError(operation, index, 'the key is not present');
+  }
+
+  if (op === 'remove') {
+    try {
+      parent.delete(key as never);
+    } catch (error) {
+      // The map's schema declares the key as required, so it was kept
+      if (parent.has(key)) {
+        throw new PatchError(operation, index, 'the key is required');
+      }
+
+      throw error;
+    }
+  } else {
+    parent.set(key, operation.value);
+  }
+
+  return () => {
+    if (had) {
+      parent.set(key, previous);
+    } else {
+      parent.delete(key as never);
+    }
+  };
+};
+
+/**
+ * Applies operations, such as those produced by `diff`, to a map in place.
+ *
+ * Operations are applied in order. `add` requires the key to be absent,
+ * `replace` and `remove` require it to be present, `remove` also requires
+ * it not to be declared as required by the schema of its map, and every key
+ * but the last must lead to a nested map. Values are stored as given, so nested maps
+ * in `add` and `replace` operations are shared with the patch.
+ *
+ * The patch is applied atomically: if an operation fails, the operations
+ * applied before it are reverted and a `PatchError` is thrown.
+ *
+ * @typeParam Entries - The `Es` of the map
+ * @param map - The map to update
+ * @param operations - The operations to apply
+ * @throws {PatchError} If an operation does not fit the map
+ *
+ * @example
+ * ```typescript
+ * const patch = diff(before, after);
+ * applyPatch(replica, patch); // replica now equals after
+ * ```
+ */
+export const applyPatch = <Entries extends Es<Entry>>(
+  map: ExactKeyMap<Entries>,
+  operations: readonly PatchOperation<Entries>[],
+): void => {
+  const undos: Undo[] = [];
+
+  try {
+    (operations as readonly AnyPatchOperation[]).forEach((operation, index) => {
+      undos.push(
+        applyOperation(
+          map as unknown as ExactKeyMap<Es<Entry>>,
+          operation,
+          index,
+        ),
+      );
+    });
+  } catch (error) {
+    undos.reverse().forEach((undo) => undo());
+    throw error;
+  }
+};
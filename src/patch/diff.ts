@@ -0,0 +1,76 @@
+import { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+import { deepEqual } from '@/utils/deepEqual';
+import type { Es } from '@/types/Es';
+import type { Entry } from '@/types/Entry';
+import type { AnyPatchOperation } from './PatchError';
+import type { PatchOperation } from './PatchOperation';
+
+const collect = (
+  a: ExactKeyMap<Es<Entry>>,
+  b: ExactKeyMap<Es<Entry>>,
+  prefix: readonly unknown[],
+  operations: AnyPatchOperation[],
+): void => {
+  for (const key of a.keys()) {
+    if (!b.has(key)) {
+      operations.push({ op: 'remove', path: [...prefix, key] });
+    }
+  }
+
+  for (const [key, value] of b) {
+    const path = [...prefix, key];
+
+    if (!a.has(key)) {
+      operations.push({ op: 'add', path, value });
+      continue;
+    }
+
+    const previous = a.get(key);
+    if (previous instanceof ExactKeyMap && value instanceof ExactKeyMap) {
+      collect(previous, value, path, operations);
+    } else if (!deepEqual(previous, value)) {
+      operations.push({ op: 'replace', path, value });
+    }
+  }
+};
+
+/**
+ * Computes the operations that turn map `a` into map `b`.
+ *
+ * Nested maps present in both maps are compared recursively, so a change deep
+ * inside a nested map yields a single operation with the full key path. Other
+ * values are compared structurally (see `deepEqual`), so equal typed arrays
+ * produce no operation. Removals come first, followed by additions and
+ * replacements in the key order of `b`. The operations hold the values of `b`
+ * by reference.
+ *
+ * @typeParam Entries - The `Es` shared by both maps
+ * @param a - The original map
+ * @param b - The updated map
+ * @returns The operations to pass to `applyPatch`; empty if the maps are equal
+ *
+ * @example
+ * ```typescript
+ * const before = new ProtectedHeaders([[Headers.Algorithm, -7]]);
+ * const after = new ProtectedHeaders([[Headers.Algorithm, -35], [Headers.KeyID, kid]]);
+ *
+ * diff(before, after);
+ * // [
+ * //   { op: 'replace', path: [Headers.Algorithm], value: -35 },
+ * //   { op: 'add', path: [Headers.KeyID], value: kid },
+ * // ]
+ * ```
+ */
+export const diff = <Entries extends Es<Entry>>(
+  a: ExactKeyMap<Entries>,
+  b: ExactKeyMap<Entries>,
+): PatchOperation<Entries>[] => {
+  const operations: AnyPatchOperation[] = [];
+  collect(
+    a as unknown as ExactKeyMap<Es<Entry>>,
+    b as unknown as ExactKeyMap<Es<Entry>>,
+    [],
+    operations,
+  );
+  return operations as PatchOperation<Entries>[];
+};
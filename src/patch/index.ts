@@ -0,0 +1,4 @@
+export * from './applyPatch';
+export * from './diff';
+export * from './PatchError';
+export * from './PatchOperation';
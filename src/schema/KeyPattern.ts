@@ -0,0 +1,46 @@
+/**
+ * Describes a group of keys by predicate instead of listing them one by one.
+ *
+ * Key patterns are the runtime counterpart of catch-all entries such as
+ * `[Exclude<Headers, Headers.Algorithm>, Uint8Array]`: a schema consults its
+ * literal keys first and falls back to patterns, in declaration order, for
+ * keys it does not list explicitly.
+ *
+ * @typeParam K - The key type accepted by the pattern's type guard.
+ */
+export class KeyPattern<K> {
+  /**
+   * Creates a new key pattern.
+   *
+   * @param matches - A type guard that returns `true` for keys covered by the pattern
+   * @param description - A human-readable description used in error messages
+   */
+  constructor(
+    readonly matches: (key: unknown) => key is K,
+    readonly description: string = 'matching key',
+  ) {}
+}
+
+/**
+ * Creates a {@link KeyPattern} from a key type guard.
+ *
+ * @typeParam K - The key type accepted by the type guard.
+ * @param matches - A type guard that returns `true` for keys covered by the pattern.
+ * @param description - A human-readable description used in error messages.
+ * @returns A key pattern for use as the key of a schema definition.
+ *
+ * @example
+ * ```ts
+ * const isOtherHeader = (key: unknown): key is Exclude<Headers, Headers.Algorithm> =>
+ *   typeof key === 'number' && key in Headers && key !== Headers.Algorithm;
+ *
+ * const schema = defineSchema([
+ *   [Headers.Algorithm, isNumber],
+ *   [keyMatching(isOtherHeader, 'other header'), isUint8Array],
+ * ]);
+ * ```
+ */
+export const keyMatching = <K>(
+  matches: (key: unknown) => key is K,
+  description?: string,
+): KeyPattern<K> => new KeyPattern(matches, description);
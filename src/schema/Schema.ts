@@ -0,0 +1,347 @@
+import { KeyPattern } from './KeyPattern';
+import type { Validator } from './validators';
+import { formatPath, SchemaIssue } from './SchemaValidationError';
+import { toEntries } from '@/utils/toEntries';
+
+/**
+ * The value side of a schema definition: either a validator for plain values
+ * or a nested schema describing a nested `ExactKeyMap`.
+ */
+export type SchemaRule =
+  | Validator<unknown>
+  | Schema<readonly SchemaDefinition[]>;
+
+/**
+ * Options of a single schema definition.
+ */
+export type SchemaDefinitionOptions = {
+  /**
+   * Whether the key must be present. Required keys become `RequiredEntry`
+   * entries in `InferEs`. Key patterns cannot be required.
+   */
+  readonly required?: boolean;
+  /**
+   * The value `ExactKeyMap.prototype.getOrDefault` and related methods use
+   * while the key is absent. It must pass the key's rule; arrays, typed
+   * arrays and maps are copied before use. Key patterns cannot have a
+   * default. Keys governed by a nested schema default to an empty nested map.
+   */
+  readonly default?: unknown;
+  /**
+   * A human-readable name for the key, such as `'alg'` for an integer COSE
+   * label. Maps with this schema accept the alias wherever they accept the
+   * key, `parse` accepts input keyed by aliases, and
+   * `toObject({ keys: 'names' })` exports aliases instead of keys. Aliases
+   * must be unique and must not equal a key of the schema. Key patterns
+   * cannot have an alias.
+   */
+  readonly alias?: string;
+};
+
+/**
+ * A single schema definition: a literal key (or a {@link KeyPattern} for
+ * catch-all keys) paired with the rule its values must satisfy and optional
+ * definition options.
+ */
+export type SchemaDefinition = readonly [
+  key: unknown,
+  rule: SchemaRule,
+  options?: SchemaDefinitionOptions,
+];
+
+/**
+ * A runtime description of an `ExactKeyMap` structure.
+ *
+ * A schema lists, for each key, the validator its value must pass or the
+ * nested schema its nested map must conform to. Its definitions are typed
+ * precisely enough for `InferEs` to derive the matching `Es` type, so the
+ * structure is declared only once.
+ *
+ * Keys are resolved by exact match first; keys without an exact match are
+ * tested against the key patterns in declaration order. Keys declared with
+ * `{ required: true }` must be present.
+ *
+ * @typeParam Definitions - The tuple of definitions the schema was declared with
+ *
+ * @example
+ * ```typescript
+ * const UserSchema = defineSchema([
+ *   ['name', isString],
+ *   ['age', isNumber],
+ * ]);
+ * type UserEs = InferEs<typeof UserSchema>;
+ * // Es<['name', string] | ['age', number]>
+ * ```
+ */
+export class Schema<Definitions extends readonly SchemaDefinition[]> {
+  /**
+   * The definitions the schema was declared with.
+   */
+  readonly definitions: Definitions;
+
+  readonly #exact = new Map<unknown, SchemaRule>();
+  readonly #patterns: (readonly [KeyPattern<unknown>, SchemaRule])[] = [];
+  readonly #required: unknown[] = [];
+  readonly #defaults = new Map<unknown, unknown>();
+  readonly #keysByAlias = new Map<string, unknown>();
+  readonly #aliasesByKey = new Map<unknown, string>();
+
+  /**
+   * Creates a new schema. Prefer {@link defineSchema}, which preserves the
+   * literal key types needed for inference.
+   *
+   * @param definitions - The key/rule definitions
+   * @throws {TypeError} If a key pattern is declared as required, with a
+   *   default or with an alias, if a default value does not pass its rule, or
+   *   if an alias is used twice or equals a key
+   */
+  constructor(definitions: Definitions) {
+    this.definitions = definitions;
+
+    definitions.forEach(([key, rule, options]) => {
+      if (key instanceof KeyPattern) {
+        if (options?.required) {
+          throw new TypeError(
+            `Key pattern (${key.description}) cannot be required`,
+          );
+        }
+
+        if (options && 'default' in options) {
+          throw new TypeError(
+            `Key pattern (${key.description}) cannot have a default`,
+          );
+        }
+
+        if (options?.alias !== undefined) {
+          throw new TypeError(
+            `Key pattern (${key.description}) cannot have an alias`,
+          );
+        }
+
+        this.#patterns.push([key, rule]);
+      } else {
+        this.#exact.set(key, rule);
+
+        if (options?.required) {
+          this.#required.push(key);
+        }
+
+        if (options && 'default' in options) {
+          if (!passes(rule, options.default)) {
+            throw new TypeError(
+              `Default value for key ${formatPath([key])} does not pass its rule`,
+            );
+          }
+
+          this.#defaults.set(key, options.default);
+        }
+
+        if (options?.alias !== undefined) {
+          if (this.#keysByAlias.has(options.alias)) {
+            throw new TypeError(
+              `Alias ${formatPath([options.alias])} is used more than once`,
+            );
+          }
+
+          this.#keysByAlias.set(options.alias, key);
+          this.#aliasesByKey.set(key, options.alias);
+        }
+      }
+    });
+
+    this.#keysByAlias.forEach((_key, alias) => {
+      if (this.#exact.has(alias)) {
+        throw new TypeError(
+          `Alias ${formatPath([alias])} must not equal a key of the schema`,
+        );
+      }
+    });
+  }
+
+  /**
+   * Resolves an alias to the key it stands for.
+   *
+   * @param keyOrAlias - A key or an alias declared with the `alias` option
+   * @returns The aliased key, or `keyOrAlias` itself if it is not an alias
+   */
+  keyFor(keyOrAlias: unknown): unknown {
+    return typeof keyOrAlias === 'string' && this.#keysByAlias.has(keyOrAlias)
+      ? this.#keysByAlias.get(keyOrAlias)
+      : keyOrAlias;
+  }
+
+  /**
+   * Returns the alias declared for a key.
+   *
+   * @param key - The key to look up
+   * @returns The alias, or `undefined` if none is declared
+   */
+  aliasFor(key: unknown): string | undefined {
+    return this.#aliasesByKey.get(key);
+  }
+
+  /**
+   * The keys declared with `{ required: true }`, in declaration order.
+   */
+  get requiredKeys(): readonly unknown[] {
+    return this.#required;
+  }
+
+  /**
+   * Checks whether a default value is declared for a key.
+   *
+   * @param key - The key to look up
+   * @returns `true` if the key was declared with a `default` option
+   */
+  hasDefault(key: unknown): boolean {
+    return this.#defaults.has(key);
+  }
+
+  /**
+   * Returns the default value declared for a key, as declared (not copied).
+   *
+   * @param key - The key to look up
+   * @returns The default value, or `undefined` if none is declared
+   */
+  defaultFor(key: unknown): unknown {
+    return this.#defaults.get(key);
+  }
+
+  /**
+   * Resolves the rule that applies to a key.
+   *
+   * @param key - The key (or its alias) to resolve
+   * @returns The rule for the key, or `undefined` if the schema does not allow the key
+   */
+  ruleFor(key: unknown): SchemaRule | undefined {
+    const resolved = this.keyFor(key);
+
+    if (this.#exact.has(resolved)) {
+      return this.#exact.get(resolved);
+    }
+
+    return this.#patterns.find(([pattern]) => pattern.matches(resolved))?.[1];
+  }
+
+  /**
+   * Validates a value against the schema.
+   *
+   * The value may be an entries array or a `Map` (including an `ExactKeyMap`);
+   * nested values governed by nested schemas may likewise be either shape.
+   *
+   * @param input - The value to validate
+   * @returns Every violation found; an empty array means the value is valid
+   */
+  validate(input: unknown): SchemaIssue[] {
+    return this.#collectIssues(input, []);
+  }
+
+  /**
+   * Lists the required keys missing from a value, including those missing from
+   * nested values governed by nested schemas.
+   *
+   * Unlike {@link Schema.validate}, values are not validated; only presence is checked.
+   *
+   * @param input - An entries array or a `Map`
+   * @returns The key path of every missing key; an empty array means the value is complete
+   */
+  missingKeys(input: unknown): (readonly unknown[])[] {
+    return this.#collectMissing(input, []);
+  }
+
+  /**
+   * Checks whether a value conforms to the schema.
+   *
+   * @param input - The value to check
+   * @returns `true` if {@link Schema.validate} reports no issues
+   */
+  is(input: unknown): boolean {
+    return this.validate(input).length === 0;
+  }
+
+  #collectIssues(input: unknown, path: readonly unknown[]): SchemaIssue[] {
+    const entries = toEntries(input);
+
+    if (!entries) {
+      return [{ path, message: 'Expected an entries array or a Map' }];
+    }
+
+    const issues = entries.flatMap(([key, value]): SchemaIssue[] => {
+      const keyPath = [...path, key];
+      const rule = this.ruleFor(key);
+
+      if (!rule) {
+        return [{ path: keyPath, message: 'Unknown key' }];
+      }
+
+      if (rule instanceof Schema) {
+        return rule.#collectIssues(value, keyPath);
+      }
+
+      return rule(value) ? [] : [{ path: keyPath, message: 'Invalid value' }];
+    });
+
+    return [
+      ...issues,
+      ...this.#missingAt(entries, path).map((keyPath) => ({
+        path: keyPath,
+        message: 'Missing required key',
+      })),
+    ];
+  }
+
+  #collectMissing(
+    input: unknown,
+    path: readonly unknown[],
+  ): (readonly unknown[])[] {
+    const entries = toEntries(input) ?? [];
+
+    return [
+      ...this.#missingAt(entries, path),
+      ...entries.flatMap(([key, value]) => {
+        const rule = this.ruleFor(key);
+        return rule instanceof Schema
+          ? rule.#collectMissing(value, [...path, key])
+          : [];
+      }),
+    ];
+  }
+
+  #missingAt(
+    entries: readonly (readonly [unknown, unknown])[],
+    path: readonly unknown[],
+  ): (readonly unknown[])[] {
+    const present = new Set(entries.map(([key]) => this.keyFor(key)));
+
+    return this.#required
+      .filter((key) => !present.has(key))
+      .map((key) => [...path, key]);
+  }
+}
+
+/**
+ * Checks a single value against a rule.
+ */
+const passes = (rule: SchemaRule, value: unknown): boolean =>
+  rule instanceof Schema ? rule.is(value) : rule(value);
+
+/**
+ * Declares a schema while preserving the literal types of its keys.
+ *
+ * @param definitions - The key/rule definitions
+ * @returns A new schema
+ *
+ * @example
+ * ```typescript
+ * const ProtectedHeadersSchema = defineSchema([
+ *   [Headers.Algorithm, isNumber, { required: true }],
+ *   [Headers.KeyID, isUint8Array],
+ *   [keyMatching(isOtherHeader), oneOf(isUint8Array, isNumber)],
+ * ]);
+ * ```
+ */
+export const defineSchema = <
+  const Definitions extends readonly SchemaDefinition[],
+>(
+  definitions: Definitions,
+): Schema<Definitions> => new Schema(definitions);
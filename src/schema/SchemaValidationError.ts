@@ -0,0 +1,50 @@
+/**
+ * A single schema violation.
+ *
+ * `path` lists the keys leading from the root map to the offending entry;
+ * an empty path refers to the root value itself.
+ */
+export type SchemaIssue = {
+  readonly path: readonly unknown[];
+  readonly message: string;
+};
+
+/**
+ * Formats a key path for error messages, e.g. `[1, "name"]`.
+ *
+ * @param path - The key path to format.
+ * @returns A readable representation of the path.
+ */
+export const formatPath = (path: readonly unknown[]): string =>
+  `[${path.map((key) => (typeof key === 'string' ? JSON.stringify(key) : String(key))).join(', ')}]`;
+
+/**
+ * Thrown when a value does not conform to a schema.
+ *
+ * The error carries every violation found, each with the exact key path of
+ * the offending entry, so callers can report all problems at once.
+ */
+export class SchemaValidationError extends Error {
+  /**
+   * The violations found, in the order they were encountered.
+   */
+  readonly issues: readonly SchemaIssue[];
+
+  /**
+   * Creates a new error from the collected issues.
+   *
+   * @param issues - The violations found during validation
+   */
+  constructor(issues: readonly SchemaIssue[]) {
+    super(
+      [
+        `Schema validation failed with ${issues.length} issue(s):`,
+        ...issues.map(
+          (issue) => `  - ${formatPath(issue.path)}: ${issue.message}`,
+        ),
+      ].join('\n'),
+    );
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { KeyPattern, keyMatching } from '../KeyPattern';
+
+describe('keyMatching', () => {
+  it('creates a KeyPattern from a type guard', () => {
+    const isNumericKey = (key: unknown): key is number =>
+      typeof key === 'number';
+    const pattern = keyMatching(isNumericKey, 'numeric key');
+
+    expect(pattern).toBeInstanceOf(KeyPattern);
+    expect(pattern.matches(1)).toBe(true);
+    expect(pattern.matches('1')).toBe(false);
+    expect(pattern.description).toBe('numeric key');
+  });
+
+  it('uses a default description', () => {
+    const pattern = keyMatching((key): key is string => true);
+
+    expect(pattern.description).toBe('matching key');
+  });
+});
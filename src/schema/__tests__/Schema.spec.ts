@@ -0,0 +1,272 @@
+import { describe, it, expect } from 'vitest';
+import { defineSchema, Schema } from '../Schema';
+import { keyMatching } from '../KeyPattern';
+import { isNumber, isString, isUint8Array, oneOf } from '../validators';
+import { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+
+enum Headers {
+  Algorithm = 1,
+  KeyID = 4,
+  IV = 5,
+  PartialIV = 6,
+}
+
+const isOtherHeader = (
+  key: unknown,
+): key is Exclude<Headers, Headers.Algorithm | Headers.KeyID> =>
+  key === Headers.IV || key === Headers.PartialIV;
+
+const HeadersSchema = defineSchema([
+  [Headers.Algorithm, isNumber],
+  [Headers.KeyID, isUint8Array],
+  [keyMatching(isOtherHeader, 'other header'), oneOf(isUint8Array, isNumber)],
+]);
+
+const ProfileSchema = defineSchema([
+  ['name', isString],
+  ['email', isString],
+]);
+
+const UserSchema = defineSchema([
+  ['id', isNumber],
+  ['profile', ProfileSchema],
+]);
+
+const AccountSchema = defineSchema([
+  ['id', isNumber, { required: true }],
+  [
+    'owner',
+    defineSchema([
+      ['name', isString, { required: true }],
+      ['email', isString],
+    ]),
+  ],
+]);
+
+describe('Schema', () => {
+  describe('defineSchema', () => {
+    it('creates a Schema holding the definitions', () => {
+      expect(UserSchema).toBeInstanceOf(Schema);
+      expect(UserSchema.definitions).toHaveLength(2);
+      expect(UserSchema.definitions[1][1]).toBe(ProfileSchema);
+    });
+  });
+
+  describe('ruleFor', () => {
+    it('resolves exact keys before key patterns', () => {
+      expect(HeadersSchema.ruleFor(Headers.Algorithm)).toBe(isNumber);
+      expect(HeadersSchema.ruleFor(Headers.KeyID)).toBe(isUint8Array);
+      expect(HeadersSchema.ruleFor(Headers.IV)).toBeTypeOf('function');
+    });
+
+    it('returns undefined for keys the schema does not allow', () => {
+      expect(HeadersSchema.ruleFor(99)).toBeUndefined();
+      expect(UserSchema.ruleFor('unknown')).toBeUndefined();
+    });
+  });
+
+  describe('validate', () => {
+    it('accepts valid entries arrays and Maps', () => {
+      expect(
+        HeadersSchema.validate([
+          [Headers.Algorithm, -7],
+          [Headers.IV, new Uint8Array([1])],
+        ]),
+      ).toEqual([]);
+      expect(HeadersSchema.validate(new Map([[Headers.PartialIV, 3]]))).toEqual(
+        [],
+      );
+    });
+
+    it('accepts nested values as entries arrays, Maps or ExactKeyMaps', () => {
+      expect(
+        UserSchema.validate([
+          ['id', 1],
+          ['profile', [['name', 'Alice']]],
+        ]),
+      ).toEqual([]);
+      expect(
+        UserSchema.validate([
+          ['id', 1],
+          ['profile', new Map([['name', 'Alice']])],
+        ]),
+      ).toEqual([]);
+      expect(
+        UserSchema.validate([
+          ['profile', new ExactKeyMap([['email', 'a@example.com']])],
+        ]),
+      ).toEqual([]);
+    });
+
+    it('reports every violation with its key path', () => {
+      const issues = UserSchema.validate([
+        ['id', '1'],
+        ['extra', true],
+        [
+          'profile',
+          [
+            ['name', 42],
+            ['phone', '555'],
+          ],
+        ],
+      ]);
+
+      expect(issues).toEqual([
+        { path: ['id'], message: 'Invalid value' },
+        { path: ['extra'], message: 'Unknown key' },
+        { path: ['profile', 'name'], message: 'Invalid value' },
+        { path: ['profile', 'phone'], message: 'Unknown key' },
+      ]);
+    });
+
+    it('reports values that are not entries arrays or Maps', () => {
+      expect(UserSchema.validate({ id: 1 })).toEqual([
+        { path: [], message: 'Expected an entries array or a Map' },
+      ]);
+      expect(UserSchema.validate([['profile', 'Alice']])).toEqual([
+        { path: ['profile'], message: 'Expected an entries array or a Map' },
+      ]);
+    });
+
+    it('validates catch-all keys through key patterns', () => {
+      expect(HeadersSchema.validate([[Headers.IV, 'iv']])).toEqual([
+        { path: [Headers.IV], message: 'Invalid value' },
+      ]);
+    });
+  });
+
+  describe('required keys', () => {
+    it('lists the required keys', () => {
+      expect(AccountSchema.requiredKeys).toEqual(['id']);
+      expect(UserSchema.requiredKeys).toEqual([]);
+    });
+
+    it('reports missing required keys as validation issues', () => {
+      expect(AccountSchema.validate([['owner', [['email', 'a@b.c']]]])).toEqual(
+        [
+          { path: ['owner', 'name'], message: 'Missing required key' },
+          { path: ['id'], message: 'Missing required key' },
+        ],
+      );
+      expect(AccountSchema.is([['id', 1]])).toBe(true);
+    });
+
+    it('lists missing key paths without validating values', () => {
+      expect(
+        AccountSchema.missingKeys(
+          new Map<string, unknown>([['owner', new Map([['email', 1]])]]),
+        ),
+      ).toEqual([['id'], ['owner', 'name']]);
+      expect(AccountSchema.missingKeys([['id', 'x']])).toEqual([]);
+    });
+
+    it('rejects required key patterns', () => {
+      expect(() =>
+        defineSchema([
+          [
+            keyMatching(isOtherHeader, 'other header'),
+            isNumber,
+            { required: true },
+          ],
+        ]),
+      ).toThrow('Key pattern (other header) cannot be required');
+    });
+  });
+
+  describe('defaults', () => {
+    it('exposes declared default values', () => {
+      const schema = defineSchema([
+        ['retries', isNumber, { default: 3 }],
+        ['name', isString],
+      ]);
+
+      expect(schema.hasDefault('retries')).toBe(true);
+      expect(schema.defaultFor('retries')).toBe(3);
+      expect(schema.hasDefault('name')).toBe(false);
+      expect(schema.defaultFor('name')).toBeUndefined();
+    });
+
+    it('rejects defaults that do not pass their rule', () => {
+      expect(() =>
+        defineSchema([['retries', isNumber, { default: 'three' }]]),
+      ).toThrow('Default value for key ["retries"] does not pass its rule');
+      expect(() =>
+        defineSchema([['profile', ProfileSchema, { default: [['name', 1]] }]]),
+      ).toThrow(TypeError);
+    });
+
+    it('rejects key pattern defaults', () => {
+      expect(() =>
+        defineSchema([
+          [
+            keyMatching(isOtherHeader, 'other header'),
+            isNumber,
+            { default: 1 },
+          ],
+        ]),
+      ).toThrow('Key pattern (other header) cannot have a default');
+    });
+  });
+
+  describe('aliases', () => {
+    const AliasedSchema = defineSchema([
+      [Headers.Algorithm, isNumber, { alias: 'alg', required: true }],
+      [Headers.KeyID, isUint8Array, { alias: 'kid' }],
+      [Headers.IV, isUint8Array],
+    ]);
+
+    it('maps aliases to keys and back', () => {
+      expect(AliasedSchema.keyFor('alg')).toBe(Headers.Algorithm);
+      expect(AliasedSchema.keyFor(Headers.KeyID)).toBe(Headers.KeyID);
+      expect(AliasedSchema.keyFor('unknown')).toBe('unknown');
+      expect(AliasedSchema.aliasFor(Headers.Algorithm)).toBe('alg');
+      expect(AliasedSchema.aliasFor(Headers.IV)).toBeUndefined();
+    });
+
+    it('resolves rules and required keys through aliases', () => {
+      expect(AliasedSchema.ruleFor('kid')).toBe(isUint8Array);
+      expect(
+        AliasedSchema.is([
+          ['alg', -7],
+          ['kid', new Uint8Array([1])],
+        ]),
+      ).toBe(true);
+      expect(AliasedSchema.is([['alg', 'ES256']])).toBe(false);
+      expect(AliasedSchema.is([['kid', new Uint8Array([1])]])).toBe(false);
+    });
+
+    it('rejects duplicate aliases and aliases that equal keys', () => {
+      expect(() =>
+        defineSchema([
+          ['a', isNumber, { alias: 'x' }],
+          ['b', isNumber, { alias: 'x' }],
+        ]),
+      ).toThrow('Alias ["x"] is used more than once');
+      expect(() =>
+        defineSchema([
+          ['a', isNumber, { alias: 'b' }],
+          ['b', isNumber],
+        ]),
+      ).toThrow('Alias ["b"] must not equal a key of the schema');
+    });
+
+    it('rejects key pattern aliases', () => {
+      expect(() =>
+        defineSchema([
+          [
+            keyMatching(isOtherHeader, 'other header'),
+            isNumber,
+            { alias: 'other' },
+          ],
+        ]),
+      ).toThrow('Key pattern (other header) cannot have an alias');
+    });
+  });
+
+  describe('is', () => {
+    it('returns whether the input conforms', () => {
+      expect(UserSchema.is([['id', 1]])).toBe(true);
+      expect(UserSchema.is([['id', 'x']])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { formatPath, SchemaValidationError } from '../SchemaValidationError';
+
+describe('SchemaValidationError', () => {
+  it('carries the issues and lists them in the message', () => {
+    const issues = [
+      { path: ['profile', 'name'], message: 'Invalid value' },
+      { path: [4], message: 'Unknown key' },
+    ];
+    const error = new SchemaValidationError(issues);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('SchemaValidationError');
+    expect(error.issues).toBe(issues);
+    expect(error.message).toBe(
+      [
+        'Schema validation failed with 2 issue(s):',
+        '  - ["profile", "name"]: Invalid value',
+        '  - [4]: Unknown key',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('formatPath', () => {
+  it('formats root and nested paths', () => {
+    expect(formatPath([])).toBe('[]');
+    expect(formatPath(['a', 1, true])).toBe('["a", 1, true]');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  arrayOf,
+  isBigInt,
+  isBoolean,
+  isDate,
+  isInteger,
+  isNumber,
+  isString,
+  isUint8Array,
+  literal,
+  oneOf,
+} from '../validators';
+
+describe('validators', () => {
+  it('checks primitive types', () => {
+    expect(isString('a')).toBe(true);
+    expect(isString(1)).toBe(false);
+    expect(isNumber(1.5)).toBe(true);
+    expect(isNumber('1')).toBe(false);
+    expect(isInteger(2)).toBe(true);
+    expect(isInteger(2.5)).toBe(false);
+    expect(isBoolean(false)).toBe(true);
+    expect(isBoolean(0)).toBe(false);
+    expect(isBigInt(1n)).toBe(true);
+    expect(isBigInt(1)).toBe(false);
+  });
+
+  it('checks Uint8Array and Date values', () => {
+    expect(isUint8Array(new Uint8Array(2))).toBe(true);
+    expect(isUint8Array([1, 2])).toBe(false);
+    expect(isDate(new Date(0))).toBe(true);
+    expect(isDate(new Date(NaN))).toBe(false);
+    expect(isDate(0)).toBe(false);
+  });
+
+  it('literal accepts only the given values', () => {
+    const isAlgorithm = literal(-7, -35);
+
+    expect(isAlgorithm(-7)).toBe(true);
+    expect(isAlgorithm(-35)).toBe(true);
+    expect(isAlgorithm(1)).toBe(false);
+
+    const value: unknown = -7;
+    if (isAlgorithm(value)) {
+      expectTypeOf(value).toEqualTypeOf<-7 | -35>();
+    }
+  });
+
+  it('arrayOf checks every element', () => {
+    const isNumbers = arrayOf(isNumber);
+
+    expect(isNumbers([])).toBe(true);
+    expect(isNumbers([1, 2])).toBe(true);
+    expect(isNumbers([1, '2'])).toBe(false);
+    expect(isNumbers('12')).toBe(false);
+  });
+
+  it('oneOf accepts values passing any validator', () => {
+    const isContentType = oneOf(isNumber, isUint8Array);
+
+    expect(isContentType(1)).toBe(true);
+    expect(isContentType(new Uint8Array(1))).toBe(true);
+    expect(isContentType('text')).toBe(false);
+
+    const value: unknown = 1;
+    if (isContentType(value)) {
+      expectTypeOf(value).toEqualTypeOf<number | Uint8Array>();
+    }
+  });
+});
@@ -0,0 +1,4 @@
+export * from './KeyPattern';
+export * from './Schema';
+export * from './SchemaValidationError';
+export * from './validators';
@@ -0,0 +1,133 @@
+/**
+ * A runtime type guard used by schemas to check a single value.
+ *
+ * @typeParam T - The type the validator narrows to.
+ */
+export type Validator<T> = (value: unknown) => value is T;
+
+/**
+ * Resolves the type checked by a validator.
+ *
+ * @typeParam V - A validator type (or a union of validator types).
+ */
+export type ValidatedBy<V> = V extends Validator<infer T> ? T : never;
+
+/**
+ * Checks that a value is a string.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a string; otherwise false.
+ */
+export const isString = (value: unknown): value is string =>
+  typeof value === 'string';
+
+/**
+ * Checks that a value is a number (including `NaN` and infinities).
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a number; otherwise false.
+ */
+export const isNumber = (value: unknown): value is number =>
+  typeof value === 'number';
+
+/**
+ * Checks that a value is an integral number.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is an integer; otherwise false.
+ */
+export const isInteger = (value: unknown): value is number =>
+  Number.isInteger(value);
+
+/**
+ * Checks that a value is a boolean.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a boolean; otherwise false.
+ */
+export const isBoolean = (value: unknown): value is boolean =>
+  typeof value === 'boolean';
+
+/**
+ * Checks that a value is a bigint.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a bigint; otherwise false.
+ */
+export const isBigInt = (value: unknown): value is bigint =>
+  typeof value === 'bigint';
+
+/**
+ * Checks that a value is a `Uint8Array`.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a `Uint8Array`; otherwise false.
+ */
+export const isUint8Array = (value: unknown): value is Uint8Array =>
+  value instanceof Uint8Array;
+
+/**
+ * Checks that a value is a valid `Date` (an invalid date is rejected).
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a `Date` with a finite time value; otherwise false.
+ */
+export const isDate = (value: unknown): value is Date =>
+  value instanceof Date && !Number.isNaN(value.getTime());
+
+/**
+ * Creates a validator that accepts exactly the given values (compared with `Object.is`).
+ *
+ * @param values - The accepted values.
+ * @returns A validator for the union of the given values.
+ *
+ * @example
+ * ```ts
+ * const isAlgorithm = literal(-7, -35, -36);
+ * isAlgorithm(-7); // true
+ * isAlgorithm(1);  // false
+ * ```
+ */
+export const literal =
+  <const T extends readonly unknown[]>(...values: T): Validator<T[number]> =>
+  (value: unknown): value is T[number] =>
+    values.some((candidate) => Object.is(candidate, value));
+
+/**
+ * Creates a validator that accepts arrays whose every element passes `validator`.
+ *
+ * @param validator - The validator applied to each element.
+ * @returns A validator for arrays of the validated type.
+ *
+ * @example
+ * ```ts
+ * const isNumbers = arrayOf(isNumber);
+ * isNumbers([1, 2]);   // true
+ * isNumbers([1, '2']); // false
+ * ```
+ */
+export const arrayOf =
+  <T>(validator: Validator<T>): Validator<T[]> =>
+  (value: unknown): value is T[] =>
+    Array.isArray(value) && value.every((element) => validator(element));
+
+/**
+ * Creates a validator that accepts values passing at least one of `validators`.
+ *
+ * @param validators - The alternative validators.
+ * @returns A validator for the union of the validated types.
+ *
+ * @example
+ * ```ts
+ * const isContentType = oneOf(isNumber, isUint8Array);
+ * isContentType(1);                 // true
+ * isContentType(new Uint8Array(0)); // true
+ * isContentType('text');            // false
+ * ```
+ */
+export const oneOf =
+  <V extends readonly Validator<unknown>[]>(
+    ...validators: V
+  ): Validator<ValidatedBy<V[number]>> =>
+  (value: unknown): value is ValidatedBy<V[number]> =>
+    validators.some((validator) => validator(value));
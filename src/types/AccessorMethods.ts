@@ -0,0 +1,74 @@
+import { Es } from './Es';
+import { Entry } from './Entry';
+import { ValueOfKey } from './ValueOfKey';
+import { RequiredKeys } from './RequiredEntry';
+import { HasKey } from './HasKey';
+import { KeyOrAlias, ResolveKey } from './AliasedEntry';
+
+/**
+ * The accessors requested from `defineExactKeyMap`: accessor names mapped to
+ * the keys (or aliases) they read and write.
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @example
+ *   const accessors: AccessorKeys<HeaderEntries> = {
+ *     algorithm: Headers.Algorithm,
+ *     iv: Headers.IV,
+ *   };
+ */
+export type AccessorKeys<Entries extends Es<Entry>> = {
+  readonly [name: string]: KeyOrAlias<Entries>;
+};
+
+/**
+ * The getter for the key `K`. Required keys (see `RequiredEntry`) and keys
+ * narrowed by the matching has-method are typed without `undefined`, like
+ * `ExactKeyMap.prototype.get`.
+ */
+type Getter<Entries extends Es<Entry>, K> = [ResolveKey<Entries, K>] extends [
+  RequiredKeys<Entries>,
+]
+  ? () => ValueOfKey<Entries, K>
+  : {
+      (this: HasKey<ResolveKey<Entries, K>>): ValueOfKey<Entries, K>;
+      (): ValueOfKey<Entries, K> | undefined;
+    };
+
+/**
+ * The methods `defineExactKeyMap` generates for the accessors `A`: for each
+ * accessor name, `get<Name>()`, `has<Name>()` and `set<Name>(value)`, with
+ * the first letter of the name capitalized.
+ *
+ * The methods are typed like `get`, `has` and `set` for the accessor's key:
+ * `has<Name>()` is a type guard that narrows `get<Name>()`, and
+ * `set<Name>(value)` returns the map typed as the class it is called on.
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @typeParam A - The accessor names and their keys, see `AccessorKeys`.
+ * @example
+ *   type Methods = AccessorMethods<HeaderEntries, { algorithm: Headers.Algorithm }>;
+ *   // {
+ *   //   getAlgorithm(): number | undefined;
+ *   //   hasAlgorithm(): this is HasKey<Headers.Algorithm>;
+ *   //   setAlgorithm(value: number): this;
+ *   // }
+ */
+export type AccessorMethods<
+  Entries extends Es<Entry>,
+  A extends AccessorKeys<Entries>,
+> = {
+  readonly [N in keyof A & string as `get${Capitalize<N>}`]: Getter<
+    Entries,
+    A[N]
+  >;
+} & {
+  readonly [N in keyof A &
+    string as `has${Capitalize<N>}`]: () => this is HasKey<
+    ResolveKey<Entries, A[N]>
+  >;
+} & {
+  readonly [N in keyof A & string as `set${Capitalize<N>}`]: <T>(
+    this: T,
+    value: ValueOfKey<Entries, A[N]>,
+  ) => T;
+};
@@ -0,0 +1,99 @@
+import { Es } from './Es';
+import { Entry } from './Entry';
+import { KeysOfEntries } from './KeysOfEntries';
+
+declare const entryAlias: unique symbol;
+
+/**
+ * Marks an entry of an `Es` type with a human-readable alias for its key.
+ *
+ * `get`, `set`, `has`, `delete` and related methods accept the alias in place
+ * of the key, and `ValueOfKey` resolves it to the value of the aliased entry.
+ * Like `RequiredEntry`, the marker is a type-only brand; the alias table
+ * itself lives in the map's schema (see the `alias` option of a schema
+ * definition), which `InferEs` turns into `AliasedEntry` entries.
+ *
+ * @typeParam T - The `[Key, Value]` entry to mark.
+ * @typeParam Alias - The alias of the entry's key.
+ * @example
+ *   type Entries = Es<
+ *     AliasedEntry<[Headers.Algorithm, number], 'alg'> | [Headers.KeyID, Uint8Array]
+ *   >;
+ *   type Alg = ValueOfKey<Entries, 'alg'>; // number
+ */
+export type AliasedEntry<T extends Entry, Alias extends string> = T & {
+  readonly [entryAlias]?: Alias;
+};
+
+/**
+ * Extracts the union of aliases of the entries whose keys extend `Keys`
+ * (by default, of all entries).
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @typeParam Keys - The keys whose aliases to extract.
+ * @example
+ *   type Entries = Es<AliasedEntry<[1, number], 'alg'> | AliasedEntry<[4, Uint8Array], 'kid'>>;
+ *   type All = AliasesOf<Entries>; // 'alg' | 'kid'
+ *   type Alg = AliasesOf<Entries, 1>; // 'alg'
+ */
+export type AliasesOf<
+  Entries extends Es<Entry>,
+  Keys = unknown,
+> = Entries[number] extends infer T
+  ? T extends readonly [infer K, unknown]
+    ? typeof entryAlias extends keyof T
+      ? K extends Keys
+        ? Exclude<T[typeof entryAlias], undefined>
+        : never
+      : never
+    : never
+  : never;
+
+/**
+ * Resolves aliases in `K` to the keys they stand for; other keys are kept.
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @typeParam K - The keys or aliases to resolve.
+ * @example
+ *   type Entries = Es<AliasedEntry<[Headers.Algorithm, number], 'alg'>>;
+ *   type Key = ResolveKey<Entries, 'alg'>; // Headers.Algorithm
+ */
+export type ResolveKey<Entries extends Es<Entry>, K> = K extends unknown
+  ? [K] extends [AliasesOf<Entries>]
+    ? KeyOfAlias<Entries, K>
+    : K
+  : never;
+
+/**
+ * The key of the entry aliased as `A`.
+ */
+type KeyOfAlias<Entries extends Es<Entry>, A> = Entries[number] extends infer T
+  ? T extends readonly [infer K, unknown]
+    ? typeof entryAlias extends keyof T
+      ? [A] extends [T[typeof entryAlias]]
+        ? K
+        : never
+      : never
+    : never
+  : never;
+
+/**
+ * The keys of `Entries` together with their aliases: everything the keyed
+ * methods of `ExactKeyMap` accept.
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @example
+ *   type Entries = Es<AliasedEntry<[Headers.Algorithm, number], 'alg'> | ['note', string]>;
+ *   type Keys = KeyOrAlias<Entries>; // Headers.Algorithm | 'alg' | 'note'
+ */
+export type KeyOrAlias<Entries extends Es<Entry>> =
+  | KeysOfEntries<Entries>
+  | AliasesOf<Entries>;
+
+/**
+ * Marks the entry `E` with the alias of the entry `T`, if `T` has one. Used
+ * by types that rebuild entries and must keep their aliases.
+ */
+export type WithAliasOf<T, E extends Entry> = typeof entryAlias extends keyof T
+  ? AliasedEntry<E, Exclude<T[typeof entryAlias], undefined> & string>
+  : E;
@@ -0,0 +1,56 @@
+import { Es } from './Es';
+import { Entry } from './Entry';
+
+declare const defaultedEntry: unique symbol;
+
+/**
+ * Marks an entry of an `Es` type as having a default value.
+ *
+ * `getOrDefault`, `update` and `getOrInsert` without a factory only accept
+ * keys marked this way, since the default itself lives in the map's schema
+ * and other keys would throw at runtime. `InferEs` marks definitions with the
+ * `default` option and keys governed by a nested schema, which default to an
+ * empty nested map. Like `RequiredEntry`, the marker is a type-only brand.
+ *
+ * @typeParam T - The `[Key, Value]` entry to mark.
+ * @example
+ *   type Entries = Es<DefaultedEntry<['retries', number]> | ['name', string]>;
+ *   config.getOrDefault('retries'); // number
+ *   // config.getOrDefault('name'); // ❌ TypeScript error
+ */
+export type DefaultedEntry<T extends Entry> = T & {
+  readonly [defaultedEntry]?: true;
+};
+
+/**
+ * Resolves to `true` if the entry `T` is marked with `DefaultedEntry`, otherwise `false`.
+ *
+ * @typeParam T - The entry to test.
+ */
+export type IsDefaultedEntry<T> = typeof defaultedEntry extends keyof T
+  ? true
+  : false;
+
+/**
+ * Extracts the union of keys whose entries are marked with `DefaultedEntry`.
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @example
+ *   type Entries = Es<DefaultedEntry<['retries', number]> | ['name', string]>;
+ *   type Keys = DefaultedKeys<Entries>; // 'retries'
+ */
+export type DefaultedKeys<Entries extends Es<Entry>> =
+  Entries[number] extends infer T
+    ? T extends readonly [infer K, unknown]
+      ? IsDefaultedEntry<T> extends true
+        ? K
+        : never
+      : never
+    : never;
+
+/**
+ * Marks the entry `E` as having a default if the entry `T` has one. Used by
+ * types that rebuild the entries of maps that keep their schema.
+ */
+export type WithDefaultOf<T, E extends Entry> =
+  IsDefaultedEntry<T> extends true ? DefaultedEntry<E> : E;
@@ -0,0 +1,45 @@
+import { Es } from './Es';
+import { Entry } from './Entry';
+import { NormalizeValue } from './NormalizeValue';
+import { KeysOfEntries } from './KeysOfEntries';
+import { AllValues } from './AllValues';
+
+/**
+ * Resolves the `[key, value]` pairs an `ExactKeyMap` yields when iterated,
+ * as a discriminated union with one member per entry of `Entries`.
+ *
+ * Values are normalized with `NormalizeValue`, so nested entries become
+ * `ExactKeyMap` types. Because each key stays paired with its own value type,
+ * comparing the key narrows the value; catch-all entries such as
+ * `[Exclude<Headers, ...>, Uint8Array]` yield a single member for all of
+ * their keys.
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @example
+ *   type Entries = Es<['name', string] | ['age', number]>;
+ *   type E = EntryOf<Entries>; // ['name', string] | ['age', number]
+ *
+ *   for (const [key, value] of map) {
+ *     if (key === 'age') {
+ *       value; // number
+ *     }
+ *   }
+ */
+export type EntryOf<Entries extends Es<Entry>> = ToEntry<
+  Entries[number],
+  Entries
+>;
+
+/**
+ * Normalizes the value of a single entry; distributes over unions.
+ *
+ * The `KeysOfEntries` and `AllValues` bounds do not change the result, but let
+ * TypeScript see that each pair is also a `[KeysOfEntries, AllValues]` pair,
+ * which keeps the `Map` overrides of `ExactKeyMap` compatible.
+ */
+type ToEntry<T, Entries extends Es<Entry>> = T extends readonly [
+  infer K extends KeysOfEntries<Entries>,
+  infer V,
+]
+  ? [K, Extract<NormalizeValue<V>, AllValues<Entries>>]
+  : never;
@@ -0,0 +1,147 @@
+import type { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+import { Es } from './Es';
+import { Entry } from './Entry';
+import { RawIfEntries } from './RawIfEntries';
+import { RequiredEntry } from './RequiredEntry';
+
+/**
+ * Object types that are stored as values instead of becoming nested maps.
+ */
+type NonPlainObject =
+  | ((...args: never[]) => unknown)
+  | readonly unknown[]
+  | Date
+  | RegExp
+  | ReadonlyMap<unknown, unknown>
+  | ReadonlySet<unknown>
+  | Promise<unknown>
+  | ArrayBuffer
+  | ArrayBufferView
+  | Error
+  | ExactKeyMap<Es<Entry>>;
+
+/**
+ * Converts an object property key to the map key `fromObject` uses:
+ * canonical numeric strings become numbers.
+ */
+type EntryKeyOfProperty<K> = K extends `${infer N extends number}`
+  ? `${N}` extends K
+    ? N
+    : K
+  : K;
+
+type EntryValueOfProperty<
+  V,
+  Required extends boolean,
+> = V extends NonPlainObject
+  ? RawIfEntries<V>
+  : V extends object
+    ? ReadonlyArray<ObjectEntries<V, Required>>
+    : V;
+
+/**
+ * Whether `K` is the key of an index signature rather than of a single property.
+ */
+type IsIndexKey<K> = string extends K ? true : number extends K ? true : false;
+
+/**
+ * Converts property `K` of `T` to an entry. Optional properties lose their
+ * `undefined`; if `Required`, other properties (but not index signatures)
+ * become `RequiredEntry` entries.
+ */
+type PropertyEntry<T, K extends keyof T, Required extends boolean> =
+  object extends Pick<T, K>
+    ? [
+        EntryKeyOfProperty<K>,
+        EntryValueOfProperty<Exclude<T[K], undefined>, Required>,
+      ]
+    : [Required, IsIndexKey<K>] extends [true, false]
+      ? RequiredEntry<
+          [EntryKeyOfProperty<K>, EntryValueOfProperty<T[K], Required>]
+        >
+      : [EntryKeyOfProperty<K>, EntryValueOfProperty<T[K], Required>];
+
+/**
+ * The union of entries of the object type `T`. The public types wrap it in
+ * `ReadonlyArray` rather than `Es`: the array type defers the resolution of
+ * nested entries, which lets recursive object types (a `User` with a
+ * `manager?: User`) resolve.
+ */
+type ObjectEntries<T, Required extends boolean> = {
+  [K in keyof T]-?: K extends symbol ? never : PropertyEntry<T, K, Required>;
+}[keyof T];
+
+/**
+ * Derives the `Es` entries type of an object type, as produced by `ExactKeyMap.fromObject`.
+ *
+ * Behavior:
+ * - Each property becomes a `[Key, Value]` entry; numeric keys become number keys
+ * - Nested plain object types become nested `Es` types (and thus nested `ExactKeyMap` values),
+ *   including recursive object types
+ * - Arrays, functions, `Date`s, `Map`s, typed arrays and other built-in objects are kept as values
+ * - Optional properties lose their `undefined`, since absent properties simply have no entry
+ * - Symbol keys are dropped (`fromObject` rejects them, see `CheckObjectKeys`)
+ *
+ * All entries are optional; use `RequiredEsFromObject` to keep required properties required.
+ *
+ * @typeParam T - The object type to convert.
+ * @example
+ *   type Config = { name: string; 1: boolean; db: { port: number } };
+ *   type Entries = EsFromObject<Config>;
+ *   // Es<['name', string] | [1, boolean] | ['db', Es<['port', number]>]>
+ */
+export type EsFromObject<T extends object> = ReadonlyArray<
+  ObjectEntries<T, false>
+>;
+
+/**
+ * Like `EsFromObject`, but required properties become `RequiredEntry`
+ * entries, at every level. `ObjectFromEs` is its inverse: for interfaces of
+ * plain data, `ObjectFromEs<RequiredEsFromObject<T>>` has the same properties
+ * as `T`, so an `Es` type can be derived from a domain model instead of
+ * being restated by hand.
+ *
+ * @typeParam T - The object type to convert.
+ * @example
+ *   interface User {
+ *     id: number;
+ *     nickname?: string;
+ *   }
+ *   type Entries = RequiredEsFromObject<User>;
+ *   // Es<RequiredEntry<['id', number]> | ['nickname', string]>
+ *   type Same = ObjectFromEs<Entries>; // { id: number; nickname?: string }
+ */
+export type RequiredEsFromObject<T extends object> = ReadonlyArray<
+  ObjectEntries<T, true>
+>;
+
+/**
+ * Whether `T` or a nested object type has symbol keys. `Seen` collects the
+ * object types already checked, so that recursive object types terminate.
+ */
+type HasSymbolKeys<T, Seen = never> = T extends NonPlainObject
+  ? false
+  : T extends object
+    ? [T] extends [Seen]
+      ? false
+      : [Extract<keyof T, symbol>] extends [never]
+        ? true extends {
+            [K in keyof T]-?: HasSymbolKeys<T[K], Seen | T>;
+          }[keyof T]
+          ? true
+          : false
+        : true
+    : false;
+
+/**
+ * Resolves to `unknown` if the object type `T` can be converted by
+ * `ExactKeyMap.fromObject`, or to an object type whose single property names
+ * the problem otherwise. Intersected with the parameter type, it turns
+ * unsupported keys into a readable compile-time error.
+ *
+ * @typeParam T - The object type to check, including nested object types.
+ */
+export type CheckObjectKeys<T> =
+  HasSymbolKeys<T> extends true
+    ? { readonly 'fromObject does not support symbol keys': never }
+    : unknown;
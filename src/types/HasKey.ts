@@ -0,0 +1,40 @@
+declare const presentKey: unique symbol;
+
+/**
+ * Marks a map as known to hold a value for `K`.
+ *
+ * `ExactKeyMap.has` and `ImmutableExactKeyMap.has` narrow the map to
+ * `Map & HasKey<K>`, and `get` returns the value type without `undefined` for
+ * keys marked this way. The marker is type-only and has no runtime
+ * representation.
+ *
+ * The marker distributes over unions: `has(key)` with `key: 'a' | 'b'` only
+ * proves that one of the keys is present, so neither key is narrowed.
+ *
+ * @typeParam K - The key known to be present.
+ * @example
+ *   const map = new ExactKeyMap<Es<['name', string] | ['age', number]>>();
+ *
+ *   if (map.has('name')) {
+ *     map.get('name'); // string
+ *     map.get('age'); // number | undefined
+ *   }
+ */
+export type HasKey<K> = K extends unknown
+  ? { readonly [presentKey]: (key: K) => void }
+  : never;
+
+/**
+ * Marks a map as known to hold a value for every key of the tuple `Keys`, as
+ * narrowed by `hasAll`. Arrays of unknown length narrow nothing.
+ *
+ * @typeParam Keys - A tuple of keys known to be present.
+ * @example
+ *   type Both = HasKeys<['name', 'age']>; // HasKey<'name'> & HasKey<'age'>
+ */
+export type HasKeys<Keys extends readonly unknown[]> = Keys extends readonly [
+  infer K,
+  ...infer Rest,
+]
+  ? HasKey<K> & HasKeys<Rest>
+  : unknown;
@@ -0,0 +1,82 @@
+import type { Schema, SchemaDefinition } from '@/schema/Schema';
+import type { KeyPattern } from '@/schema/KeyPattern';
+import type { Validator } from '@/schema/validators';
+import { Es } from './Es';
+import { Entry } from './Entry';
+import { RequiredEntry } from './RequiredEntry';
+import { RawIfEntries } from './RawIfEntries';
+import { AliasedEntry } from './AliasedEntry';
+import { DefaultedEntry } from './DefaultedEntry';
+
+type KeyOfDefinition<K> = K extends KeyPattern<infer P> ? P : K;
+
+type ValueOfRule<R> =
+  R extends Schema<infer D>
+    ? EsOfDefinitions<D>
+    : R extends Validator<infer T>
+      ? RawIfEntries<T>
+      : never;
+
+type EntryOfDefinition<T> = T extends readonly [
+  infer K,
+  infer R,
+  ...infer Options,
+]
+  ? WithAliasOption<
+      Options,
+      WithDefaultOption<
+        R,
+        Options,
+        Options extends readonly [{ readonly required: true }]
+          ? RequiredEntry<[KeyOfDefinition<K>, ValueOfRule<R>]>
+          : [KeyOfDefinition<K>, ValueOfRule<R>]
+      >
+    >
+  : never;
+
+/**
+ * Marks definitions with a `default` option, and nested schemas (which
+ * default to an empty nested map), as `DefaultedEntry`.
+ */
+type WithDefaultOption<R, Options, E extends Entry> =
+  R extends Schema<readonly SchemaDefinition[]>
+    ? DefaultedEntry<E>
+    : Options extends readonly [{ readonly default: unknown }]
+      ? DefaultedEntry<E>
+      : E;
+
+type WithAliasOption<Options, E extends Entry> = Options extends readonly [
+  { readonly alias: infer A extends string },
+]
+  ? AliasedEntry<E, A>
+  : E;
+
+type EsOfDefinitions<D extends readonly unknown[]> = Es<
+  EntryOfDefinition<D[number]>
+>;
+
+/**
+ * Infers the `Es` entries type described by a runtime `Schema`.
+ *
+ * Behavior:
+ * - Literal keys are preserved; key patterns contribute the key type of their guard
+ * - Validator rules contribute the type they narrow to
+ * - Nested schemas become nested `Es` types (and thus nested `ExactKeyMap` values)
+ * - Definitions with `{ required: true }` become `RequiredEntry` entries
+ * - Definitions with an `alias` become `AliasedEntry` entries
+ * - Definitions with a `default`, and nested schemas, become `DefaultedEntry` entries
+ *
+ * @typeParam S - The schema to infer entries from.
+ * @returns The inferred `Es` type, or `never` if `S` is not a schema.
+ *
+ * @example
+ * ```typescript
+ * const schema = defineSchema([
+ *   ['id', isNumber],
+ *   ['profile', defineSchema([['name', isString]])],
+ * ]);
+ * type Entries = InferEs<typeof schema>;
+ * // Es<['id', number] | DefaultedEntry<['profile', Es<['name', string]>]>>
+ * ```
+ */
+export type InferEs<S> = S extends Schema<infer D> ? EsOfDefinitions<D> : never;
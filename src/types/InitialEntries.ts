@@ -0,0 +1,20 @@
+import { Es } from './Es';
+import { Entry } from './Entry';
+
+/**
+ * Resolves the type of the initial entries a map constructor accepts.
+ *
+ * The entries may come in any order. For maps with required keys (see
+ * `RequiredEntry`) the constructor makes the entries argument mandatory, but
+ * it cannot check at compile time that the entries cover every required key:
+ * a constructor does not infer the entries it is given, and spelling out
+ * every position the required entries may take grows factorially with their
+ * number. Use `ExactKeyMap.parse` or `assertComplete()` to check them.
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @example
+ *   type Entries = Es<RequiredEntry<['id', number]> | ['name', string]>;
+ *   const ok: InitialEntries<Entries> = [['name', 'Alice'], ['id', 1]];
+ *   // const wrong: InitialEntries<Entries> = [['id', 'x']]; // ❌ TypeScript error
+ */
+export type InitialEntries<Entries extends Es<Entry>> = Entries;
@@ -0,0 +1,32 @@
+import type { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+import { Es } from './Es';
+import { Entry } from './Entry';
+import { KeysOfEntries } from './KeysOfEntries';
+import { ValueOfKey } from './ValueOfKey';
+
+/**
+ * Resolves the union of all key paths into an `Entries` structure.
+ *
+ * A key path is a readonly tuple of keys: the first key addresses an entry of
+ * the outer map and every following key addresses an entry of the nested
+ * `ExactKeyMap` reached so far. Nested maps are detected through `ValueOfKey`,
+ * so nested `Es` values and explicit `ExactKeyMap` values are both followed.
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @example
+ *   type Entries = Es<['id', number] | ['profile', Es<['name', string]>]>;
+ *   type Paths = KeyPath<Entries>;
+ *   // readonly ['id'] | readonly ['profile'] | readonly ['profile', 'name']
+ */
+export type KeyPath<Entries extends Es<Entry>> =
+  KeysOfEntries<Entries> extends infer K
+    ? K extends unknown
+      ?
+          | readonly [K]
+          | (ValueOfKey<Entries, K> extends infer V
+              ? V extends ExactKeyMap<infer Child extends Es<Entry>>
+                ? readonly [K, ...KeyPath<Child>]
+                : never
+              : never)
+      : never
+    : never;
@@ -0,0 +1,94 @@
+import type { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+import { Es } from './Es';
+import { Entry } from './Entry';
+import { KeysOfEntries } from './KeysOfEntries';
+import { ValueOfKey } from './ValueOfKey';
+import { IsRequiredEntry, RequiredEntry } from './RequiredEntry';
+import { WithAliasOf } from './AliasedEntry';
+import { WithDefaultOf } from './DefaultedEntry';
+import { RawIfEntries } from './RawIfEntries';
+
+/**
+ * The per-key mappers accepted by `ExactKeyMap.prototype.mapValues`.
+ *
+ * Each property maps the value of its key: a function receives the value
+ * typed with `ValueOfKey` and the key, and returns the new value. For keys
+ * holding nested maps, an object of mappers maps the nested map's values
+ * instead. Keys without a mapper keep their values.
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @example
+ *   const mappers: ValueMappers<Es<['id', number] | ['profile', Es<['name', string]>]>> = {
+ *     id: (id) => String(id),
+ *     profile: { name: (name) => name.toUpperCase() },
+ *   };
+ */
+export type ValueMappers<Entries extends Es<Entry>> = {
+  readonly [K in KeysOfEntries<Entries> & PropertyKey]?:
+    | ((value: ValueOfKey<Entries, K>, key: K) => unknown)
+    | NestedMappers<ValueOfKey<Entries, K>>;
+};
+
+/**
+ * The mappers for the values of a nested map, or `never` for other values.
+ */
+type NestedMappers<V> =
+  V extends ExactKeyMap<infer Nested extends Es<Entry>>
+    ? ValueMappers<Nested>
+    : never;
+
+/**
+ * Builds the entry for key `K`, required and aliased like the original entry
+ * `T`.
+ */
+type WithValue<T, K, V> = WithAliasOf<
+  T,
+  IsRequiredEntry<T> extends true ? RequiredEntry<[K, V]> : [K, V]
+>;
+
+/**
+ * Resolves the mapped value of an entry from the mapper `M` for its key.
+ */
+type MappedValue<Value, M> = M extends (...args: never) => infer R
+  ? RawIfEntries<R>
+  : Value extends Es<Entry>
+    ? MapValuesEs<Value, M>
+    : Value extends ExactKeyMap<infer Nested extends Es<Entry>>
+      ? MapValuesEs<Nested, M>
+      : Value;
+
+/**
+ * Maps a single entry; catch-all entries are split into one entry per key
+ * only if some of their keys have a mapper. Entries without a mapper are kept
+ * as they are; mapped entries lose their default (see `DefaultedEntry`), which
+ * need not match the mapped value.
+ */
+type MappedEntry<T, M> = T extends readonly [infer Key, infer Value]
+  ? [Extract<Key, keyof M>] extends [never]
+    ? T
+    : Key extends unknown
+      ? Key extends keyof M
+        ? WithValue<T, Key, MappedValue<Value, M[Key]>>
+        : WithDefaultOf<T, WithValue<T, Key, Value>>
+      : never
+  : never;
+
+/**
+ * Computes the entries type of `ExactKeyMap.prototype.mapValues(mappers)`
+ * from the return types of the mappers.
+ *
+ * Keys keep their entries, with their required markers and aliases; only the
+ * values of keys with a mapper change. Nested mappers map the entries of nested maps
+ * recursively. Mapped values that are arrays of pairs are stored as-is, so
+ * they are typed as `Raw` (see `RawIfEntries`).
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @typeParam M - The mappers, see `ValueMappers`.
+ * @example
+ *   type Entries = Es<['id', number] | ['name', string]>;
+ *   type Mapped = MapValuesEs<Entries, { id: (id: number) => string }>;
+ *   // Es<['id', string] | ['name', string]>
+ */
+export type MapValuesEs<Entries extends Es<Entry>, M> = Es<
+  MappedEntry<Entries[number], M>
+>;
@@ -0,0 +1,139 @@
+import type { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+import { Es } from './Es';
+import { Entry } from './Entry';
+import { KeysOfEntries } from './KeysOfEntries';
+import { ValueOfKey } from './ValueOfKey';
+import { IsRequiredEntry, RequiredEntry } from './RequiredEntry';
+
+/**
+ * Resolves the type of a value copied into the merged map. Nested maps
+ * (given as `ExactKeyMap` or `Es` types) are rebuilt without a schema, so their entries lose the `AliasedEntry` and
+ * `DefaultedEntry` markers, as the merged map's own entries do.
+ */
+type CopiedValue<V> =
+  V extends ExactKeyMap<infer Entries extends Es<Entry>>
+    ? MergeEs<Entries, readonly []>
+    : V extends Es<Entry>
+      ? MergeEs<V, readonly []>
+      : V;
+
+/**
+ * Rebuilds an entry of one map for the merged map, keeping only its
+ * `RequiredEntry` marker.
+ */
+type CopiedEntry<T> = T extends readonly [infer K, infer V]
+  ? IsRequiredEntry<T> extends true
+    ? RequiredEntry<[K, CopiedValue<V>]>
+    : [K, CopiedValue<V>]
+  : never;
+
+/**
+ * Resolves the value type of a key present in both merged maps: nested maps
+ * are merged recursively, arrays may be concatenated, and other values keep
+ * the type of either side.
+ */
+type MergeValue<L, R> =
+  L extends ExactKeyMap<infer LeftEntries extends Es<Entry>>
+    ? R extends ExactKeyMap<infer RightEntries extends Es<Entry>>
+      ? MergeEs<LeftEntries, RightEntries>
+      : CopiedValue<L> | CopiedValue<R>
+    : L extends readonly (infer LeftItem)[]
+      ? R extends readonly (infer RightItem)[]
+        ? L | R | (LeftItem | RightItem)[]
+        : L | CopiedValue<R>
+      : L | CopiedValue<R>;
+
+/**
+ * Builds the merged entry for key `K`, required if it is required in either map.
+ */
+type MergedEntry<
+  A extends Es<Entry>,
+  B extends Es<Entry>,
+  K,
+  Required extends boolean,
+> = Required extends true
+  ? RequiredEntry<[K, MergeValue<ValueOfKey<A, K>, ValueOfKey<B, K>>]>
+  : [K, MergeValue<ValueOfKey<A, K>, ValueOfKey<B, K>>];
+
+/**
+ * Whether any entry of `Entries` for key `K` is marked with `RequiredEntry`.
+ */
+type IsRequiredKey<Entries extends Es<Entry>, K> = true extends (
+  Entries[number] extends infer T
+    ? T extends readonly [infer Key, unknown]
+      ? K extends Key
+        ? IsRequiredEntry<T>
+        : never
+      : never
+    : never
+)
+  ? true
+  : false;
+
+/**
+ * The entries of `A`, merged with `B` where their keys overlap.
+ */
+type EntriesOfLeft<
+  A extends Es<Entry>,
+  B extends Es<Entry>,
+> = A[number] extends infer T
+  ? T extends readonly [infer K, unknown]
+    ? [Extract<K, KeysOfEntries<B>>] extends [never]
+      ? CopiedEntry<T>
+      : K extends unknown
+        ? K extends KeysOfEntries<B>
+          ? MergedEntry<
+              A,
+              B,
+              K,
+              IsRequiredEntry<T> extends true ? true : IsRequiredKey<B, K>
+            >
+          : IsRequiredEntry<T> extends true
+            ? RequiredEntry<[K, CopiedValue<ValueOfKey<A, K>>]>
+            : [K, CopiedValue<ValueOfKey<A, K>>]
+        : never
+    : never
+  : never;
+
+/**
+ * The entries of `B` whose keys do not occur in `A`.
+ */
+type EntriesOfRight<
+  A extends Es<Entry>,
+  B extends Es<Entry>,
+> = B[number] extends infer T
+  ? T extends readonly [infer K, unknown]
+    ? [Extract<K, KeysOfEntries<A>>] extends [never]
+      ? CopiedEntry<T>
+      : K extends unknown
+        ? K extends KeysOfEntries<A>
+          ? never
+          : IsRequiredEntry<T> extends true
+            ? RequiredEntry<[K, CopiedValue<ValueOfKey<B, K>>]>
+            : [K, CopiedValue<ValueOfKey<B, K>>]
+        : never
+    : never
+  : never;
+
+/**
+ * Computes the entries type of `ExactKeyMap.merge(a, b)` from the entries of
+ * both maps.
+ *
+ * Keys of either map are kept, so merging maps with disjoint keys yields the
+ * union schema. For keys present in both maps, nested maps are merged
+ * recursively, arrays additionally allow the concatenated array, and other
+ * values may come from either side. A key is required if it is required in
+ * either map. Since the merged map has no schema, `AliasedEntry` and
+ * `DefaultedEntry` markers are dropped at every depth.
+ *
+ * @typeParam A - The entries of the left map.
+ * @typeParam B - The entries of the right map.
+ * @example
+ *   type Protected = Es<[Headers.Algorithm, number]>;
+ *   type Unprotected = Es<[Headers.KeyID, Uint8Array]>;
+ *   type Merged = MergeEs<Protected, Unprotected>;
+ *   // Es<[Headers.Algorithm, number] | [Headers.KeyID, Uint8Array]>
+ */
+export type MergeEs<A extends Es<Entry>, B extends Es<Entry>> = Es<
+  EntriesOfLeft<A, B> | EntriesOfRight<A, B>
+>;
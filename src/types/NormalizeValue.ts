@@ -1,6 +1,10 @@
 import { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+import type { Raw } from '@/exact-key-map/Raw';
 import { Es } from './Es';
 import { Entry } from './Entry';
+import { IsRequiredEntry, RequiredEntry } from './RequiredEntry';
+import { WithAliasOf } from './AliasedEntry';
+import { WithDefaultOf } from './DefaultedEntry';
 
 /**
  * Normalizes a value by converting nested entry arrays into `ExactKeyMap` instances.
@@ -8,6 +12,8 @@ import { Entry } from './Entry';
  * Behavior:
  * - If the value is an array of key-value entry pairs, it is converted to an
  *   `ExactKeyMap` with recursively normalized child values.
+ * - If the value is wrapped in `Raw<T>`, it is unwrapped to `T` and never
+ *   converted, matching the runtime behavior of `raw(value)`.
  * - Otherwise, the value is preserved as-is (no widening or transformation).
  *
  * @typeParam V - The value to normalize. Can be a primitive, an entries array,
@@ -34,13 +40,36 @@ import { Entry } from './Entry';
  *
  * type Nested = NormalizeValue<[['profile', [['id', 1]]]]>;
  * // ExactKeyMap<[['profile', ExactKeyMap<[['id', 1]]>]]>
+ *
+ * // Raw values are unwrapped and kept as-is
+ * type Points = NormalizeValue<Raw<[number, number][]>>; // [number, number][]
  * ```
  */
 export type NormalizeValue<V> =
-  V extends Es<Entry>
-    ? ExactKeyMap<{
-        [I in keyof V]: V[I] extends readonly [infer Key, infer Val]
-          ? [Key, NormalizeValue<Val>]
-          : V[I];
-      }>
-    : V;
+  V extends Raw<infer T>
+    ? T
+    : V extends Es<Entry>
+      ? ExactKeyMap<{
+          [I in keyof V]: NormalizeEntry<V[I]>;
+        }>
+      : V;
+
+/**
+ * Normalizes the value of a single entry. Distributes over unions so that
+ * each key of a union-style `Es` keeps its own value type, and keeps the
+ * `RequiredEntry`, `AliasedEntry` and `DefaultedEntry` markers. `Raw` values stay wrapped so
+ * that the nested map still resolves them to the plain value on access.
+ */
+type NormalizeEntry<T> = T extends readonly [infer Key, infer Val]
+  ? WithAliasOf<
+      T,
+      WithDefaultOf<
+        T,
+        IsRequiredEntry<T> extends true
+          ? RequiredEntry<[Key, NormalizeChild<Val>]>
+          : [Key, NormalizeChild<Val>]
+      >
+    >
+  : T;
+
+type NormalizeChild<V> = V extends Raw<unknown> ? V : NormalizeValue<V>;
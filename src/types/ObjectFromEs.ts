@@ -0,0 +1,98 @@
+import type { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+import { Es } from './Es';
+import { Entry } from './Entry';
+import { KeysOfEntries } from './KeysOfEntries';
+import { AllValues } from './AllValues';
+import { ValueOfKey } from './ValueOfKey';
+import { OptionalKeys, RequiredKeys } from './RequiredEntry';
+import { AliasesOf } from './AliasedEntry';
+
+type PropertyValue<V, Keys extends 'labels' | 'names'> =
+  V extends ExactKeyMap<infer Child extends Es<Entry>>
+    ? ObjectFromEs<Child, Keys>
+    : V;
+
+type PropertyName<
+  Entries extends Es<Entry>,
+  K,
+  Keys extends 'labels' | 'names',
+> = Keys extends 'names'
+  ? [AliasesOf<Entries, K>] extends [never]
+    ? K
+    : AliasesOf<Entries, K>
+  : K;
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+/**
+ * Derives the plain object type produced by `ExactKeyMap.prototype.toObject`.
+ *
+ * Behavior:
+ * - Each string or number key becomes a property; values follow `ValueOfKey`
+ * - Nested maps (nested `Es` or `ExactKeyMap` values) become nested object types
+ * - Required keys (see `RequiredEntry`) become required properties, all other
+ *   properties are optional because a map may lack them
+ * - With `Keys` set to `'names'`, keys with an alias (see `AliasedEntry`) are
+ *   named by their alias, as by `toObject({ keys: 'names' })`
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @typeParam Keys - Whether properties are named by keys or by aliases.
+ * @example
+ *   type Entries = Es<
+ *     RequiredEntry<['id', number]> | ['profile', Es<['name', string]>]
+ *   >;
+ *   type User = ObjectFromEs<Entries>;
+ *   // { id: number; profile?: { name?: string } }
+ */
+export type ObjectFromEs<
+  Entries extends Es<Entry>,
+  Keys extends 'labels' | 'names' = 'labels',
+> = Simplify<
+  {
+    [K in RequiredKeys<Entries> & (string | number) as PropertyName<
+      Entries,
+      K,
+      Keys
+    >]: PropertyValue<ValueOfKey<Entries, K>, Keys>;
+  } & {
+    [K in OptionalKeys<Entries> & (string | number) as PropertyName<
+      Entries,
+      K,
+      Keys
+    >]?: PropertyValue<ValueOfKey<Entries, K>, Keys>;
+  }
+>;
+
+/**
+ * Whether `Entries` or nested entries have keys other than strings and
+ * numbers. `Seen` collects the entries already checked, so that recursive
+ * entries terminate.
+ */
+type HasNonObjectKeys<Entries extends Es<Entry>, Seen = never> = [
+  Entries,
+] extends [Seen]
+  ? false
+  : [Exclude<KeysOfEntries<Entries>, string | number>] extends [never]
+    ? true extends (
+        AllValues<Entries> extends infer V
+          ? V extends ExactKeyMap<infer Child extends Es<Entry>>
+            ? HasNonObjectKeys<Child, Seen | Entries>
+            : false
+          : false
+      )
+      ? true
+      : false
+    : true;
+
+/**
+ * Resolves to `unknown` if maps with the entries type `Entries` can be
+ * converted by `ExactKeyMap.prototype.toObject`, or to an object type whose
+ * single property names the problem otherwise: only string and number keys,
+ * including those of nested maps, can become object properties.
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ */
+export type CheckEsKeys<Entries extends Es<Entry>> =
+  HasNonObjectKeys<Entries> extends true
+    ? { readonly 'toObject supports only string and number keys': never }
+    : unknown;
@@ -0,0 +1,54 @@
+import { Es } from './Es';
+import { Entry } from './Entry';
+import { WithAliasOf } from './AliasedEntry';
+import { WithDefaultOf } from './DefaultedEntry';
+import type { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+
+/**
+ * Removes the `RequiredEntry` marker from every entry, so that all keys of
+ * `Entries` become optional: `get` returns `Value | undefined`, the
+ * constructor accepts any subset of the entries and every key can be deleted.
+ * Aliases (see `AliasedEntry`) and defaults (see `DefaultedEntry`) are kept.
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @example
+ *   type Entries = Es<RequiredEntry<['id', number]> | ['name', string]>;
+ *   type Draft = PartialEs<Entries>; // Es<['id', number] | ['name', string]>
+ */
+export type PartialEs<Entries extends Es<Entry>> = Es<
+  Entries[number] extends infer T
+    ? T extends readonly [infer K, infer V]
+      ? WithAliasOf<T, WithDefaultOf<T, [K, V]>>
+      : never
+    : never
+>;
+
+/**
+ * Like `PartialEs`, but also makes every key of nested entries optional, as
+ * for the result of `ExactKeyMap.prototype.filter` with `deep: true`.
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @example
+ *   type Entries = Es<
+ *     RequiredEntry<['id', number]> | ['profile', Es<RequiredEntry<['name', string]>>]
+ *   >;
+ *   type Filtered = DeepPartialEs<Entries>;
+ *   // Es<['id', number] | ['profile', Es<['name', string]>]>
+ */
+export type DeepPartialEs<Entries extends Es<Entry>> = Es<
+  Entries[number] extends infer T
+    ? T extends readonly [infer K, infer V]
+      ? WithAliasOf<T, WithDefaultOf<T, [K, DeepPartialValue<V>]>>
+      : never
+    : never
+>;
+
+/**
+ * Applies `DeepPartialEs` to nested entries and nested maps.
+ */
+type DeepPartialValue<V> =
+  V extends Es<Entry>
+    ? DeepPartialEs<V>
+    : V extends ExactKeyMap<infer Nested extends Es<Entry>>
+      ? ExactKeyMap<DeepPartialEs<Nested>>
+      : V;
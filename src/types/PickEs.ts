@@ -0,0 +1,66 @@
+import { Es } from './Es';
+import { Entry } from './Entry';
+import { KeysOfEntries } from './KeysOfEntries';
+import { IsRequiredEntry, RequiredEntry } from './RequiredEntry';
+import { WithAliasOf } from './AliasedEntry';
+import { WithDefaultOf } from './DefaultedEntry';
+
+/**
+ * Restricts the key of entry `T` to `Keys`: entries whose keys all lie in
+ * `Keys` are kept as-is, wider keys (catch-all entries, `string`, `unknown`)
+ * are narrowed to the overlapping keys, and other entries are dropped.
+ * Narrowed entries keep the markers of `T`.
+ */
+type RestrictEntry<T, Keys> = T extends readonly [infer Key, infer Value]
+  ? [Key] extends [Keys]
+    ? T
+    : [Key & Keys] extends [never]
+      ? never
+      : WithAliasOf<
+          T,
+          WithDefaultOf<
+            T,
+            IsRequiredEntry<T> extends true
+              ? RequiredEntry<[Key & Keys, Value]>
+              : [Key & Keys, Value]
+          >
+        >
+  : never;
+
+/**
+ * Computes the entries type of `ExactKeyMap.prototype.pick(keys)`: only the
+ * entries for the keys `K` remain.
+ *
+ * Picking some keys of a catch-all entry narrows its key to those keys.
+ * Required entries stay required.
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @typeParam K - The keys to keep.
+ * @example
+ *   type Entries = Es<['id', number] | ['name', string] | ['email', string]>;
+ *   type Public = PickEs<Entries, 'name' | 'email'>;
+ *   // Es<['name', string] | ['email', string]>
+ */
+export type PickEs<
+  Entries extends Es<Entry>,
+  K extends KeysOfEntries<Entries>,
+> = Es<RestrictEntry<Entries[number], K>>;
+
+/**
+ * Computes the entries type of `ExactKeyMap.prototype.omit(keys)`: the
+ * entries for the keys `K` are removed.
+ *
+ * Omitting some keys of a catch-all entry narrows its key to the remaining
+ * keys. Required entries stay required.
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @typeParam K - The keys to remove.
+ * @example
+ *   type Entries = Es<['id', number] | ['name', string] | ['email', string]>;
+ *   type WithoutId = OmitEs<Entries, 'id'>;
+ *   // Es<['name', string] | ['email', string]>
+ */
+export type OmitEs<
+  Entries extends Es<Entry>,
+  K extends KeysOfEntries<Entries>,
+> = Es<RestrictEntry<Entries[number], Exclude<KeysOfEntries<Entries>, K>>>;
@@ -0,0 +1,18 @@
+import type { Raw } from '@/exact-key-map/Raw';
+import { Es } from './Es';
+import { Entry } from './Entry';
+
+/**
+ * Wraps entries-shaped value types in `Raw`, leaving all others unchanged;
+ * distributes over unions.
+ *
+ * Used where the runtime keeps such values as-is instead of nesting them,
+ * e.g. for schema validators (`InferEs`) and array properties
+ * (`EsFromObject`), so that `NormalizeValue` agrees with the runtime.
+ *
+ * @typeParam T - The value type.
+ * @example
+ *   type A = RawIfEntries<[number, number][]>; // Raw<[number, number][]>
+ *   type B = RawIfEntries<number[]>; // number[]
+ */
+export type RawIfEntries<T> = T extends Es<Entry> ? Raw<T> : T;
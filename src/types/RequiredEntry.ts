@@ -0,0 +1,65 @@
+import { Es } from './Es';
+import { Entry } from './Entry';
+import { KeysOfEntries } from './KeysOfEntries';
+
+declare const requiredEntry: unique symbol;
+
+/**
+ * Marks an entry of an `Es` type as required.
+ *
+ * A required key is guaranteed to be present: `get` returns its bare value
+ * type instead of `Value | undefined`, the constructor demands an initial
+ * value for it, and `delete` rejects it. The marker is a type-only brand;
+ * a marked entry is still a plain `[Key, Value]` pair at runtime.
+ *
+ * @typeParam T - The `[Key, Value]` entry to mark as required.
+ * @example
+ *   type Entries = Es<
+ *     RequiredEntry<[Headers.Algorithm, number]> | [Headers.KeyID, Uint8Array]
+ *   >;
+ *   const headers = new ExactKeyMap<Entries>([[Headers.Algorithm, -7]]);
+ *   headers.get(Headers.Algorithm); // number
+ *   headers.get(Headers.KeyID);     // Uint8Array | undefined
+ */
+export type RequiredEntry<T extends Entry> = T & {
+  readonly [requiredEntry]?: true;
+};
+
+/**
+ * Resolves to `true` if the entry `T` is marked with `RequiredEntry`, otherwise `false`.
+ *
+ * @typeParam T - The entry to test.
+ */
+export type IsRequiredEntry<T> = typeof requiredEntry extends keyof T
+  ? true
+  : false;
+
+/**
+ * Extracts the union of keys whose entries are marked with `RequiredEntry`.
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @example
+ *   type Entries = Es<RequiredEntry<['id', number]> | ['name', string]>;
+ *   type Keys = RequiredKeys<Entries>; // 'id'
+ */
+export type RequiredKeys<Entries extends Es<Entry>> =
+  Entries[number] extends infer T
+    ? T extends readonly [infer K, unknown]
+      ? IsRequiredEntry<T> extends true
+        ? K
+        : never
+      : never
+    : never;
+
+/**
+ * Extracts the union of keys whose entries are not marked with `RequiredEntry`.
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @example
+ *   type Entries = Es<RequiredEntry<['id', number]> | ['name', string]>;
+ *   type Keys = OptionalKeys<Entries>; // 'name'
+ */
+export type OptionalKeys<Entries extends Es<Entry>> = Exclude<
+  KeysOfEntries<Entries>,
+  RequiredKeys<Entries>
+>;
@@ -0,0 +1,32 @@
+import type { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+import { Es } from './Es';
+import { Entry } from './Entry';
+import { ValueOfKey } from './ValueOfKey';
+
+/**
+ * Resolves the value type found at a key path (see `KeyPath`) in an
+ * `Entries` structure.
+ *
+ * Each key but the last must lead to a nested `ExactKeyMap`; the last key's
+ * value type is resolved with `ValueOfKey`, so nested entries become
+ * `ExactKeyMap` types and catch-all keys are supported.
+ *
+ * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
+ * @typeParam P - The key path.
+ * @example
+ *   type Entries = Es<['id', number] | ['profile', Es<['name', string]>]>;
+ *   type Name = ValueAtPath<Entries, ['profile', 'name']>; // string
+ *   type Profile = ValueAtPath<Entries, ['profile']>;      // ExactKeyMap<Es<['name', string]>>
+ */
+export type ValueAtPath<
+  Entries extends Es<Entry>,
+  P extends readonly unknown[],
+> = P extends readonly [infer K]
+  ? ValueOfKey<Entries, K>
+  : P extends readonly [infer K, ...infer Rest]
+    ? ValueOfKey<Entries, K> extends infer V
+      ? V extends ExactKeyMap<infer Child extends Es<Entry>>
+        ? ValueAtPath<Child, Rest>
+        : never
+      : never
+    : never;
@@ -2,6 +2,7 @@ import { ExtractExactEntry } from './ExtractExactEntry';
 import { NormalizeValue } from './NormalizeValue';
 import { Es } from './Es';
 import { Entry } from './Entry';
+import { ResolveKey } from './AliasedEntry';
 
 /**
  * Resolve the value type associated with a given key `K` from an `Entries`
@@ -11,6 +12,7 @@ import { Entry } from './Entry';
  * - If the matched `Value` is itself an array of entry pairs, it is recursively
  *   converted to an `ExactKeyMap` with child values normalized (no widening).
  * - Otherwise, the matched `Value` is preserved as-is (literal-friendly).
+ * - Aliases (see `AliasedEntry`) resolve to the value of the aliased entry.
  *
  * @typeParam Entries - A readonly list of readonly `[Key, Value]` pairs.
  * @typeParam K - The key whose associated value type should be extracted.
@@ -24,7 +26,15 @@ import { Entry } from './Entry';
  *   // For nested entries, the value becomes an ExactKeyMap with literal values
  *   type V3 = ValueOfKey<Nested, "child">; // ExactKeyMap<readonly [["x", 1]]>
  */
-export type ValueOfKey<Entries extends Es<Entry>, K> = // Try to find exact match entries first
+export type ValueOfKey<Entries extends Es<Entry>, K> = ValueOfResolvedKey<
+  Entries,
+  ResolveKey<Entries, K>
+>;
+
+/**
+ * Resolves the value type of the key `K` after aliases have been resolved.
+ */
+type ValueOfResolvedKey<Entries extends Es<Entry>, K> = // Try to find exact match entries first
   ExtractExactEntry<Entries, K> extends infer Exact
     ? [Exact] extends [never]
       ? // No exact matches: allow catch-all entries where K is a subtype of the entry key
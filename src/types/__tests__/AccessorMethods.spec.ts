@@ -0,0 +1,50 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type { AccessorMethods } from '../AccessorMethods';
+import type { AliasedEntry } from '../AliasedEntry';
+import type { Es } from '../Es';
+import type { HasKey } from '../HasKey';
+import type { RequiredEntry } from '../RequiredEntry';
+
+type Entries = Es<
+  | RequiredEntry<['id', number]>
+  | AliasedEntry<[4, Uint8Array], 'kid'>
+  | ['name', string]
+>;
+
+type Methods = AccessorMethods<
+  Entries,
+  { id: 'id'; keyId: 'kid'; name: 'name' }
+>;
+
+describe('AccessorMethods', () => {
+  it('names methods after the capitalized accessor names', () => {
+    expectTypeOf<keyof Methods>().toEqualTypeOf<
+      | 'getId'
+      | 'hasId'
+      | 'setId'
+      | 'getKeyId'
+      | 'hasKeyId'
+      | 'setKeyId'
+      | 'getName'
+      | 'hasName'
+      | 'setName'
+    >();
+  });
+
+  it('types getters like get', () => {
+    expectTypeOf<Methods['getId']>().returns.toEqualTypeOf<number>();
+    expectTypeOf<Methods['getKeyId']>().toMatchTypeOf<
+      () => Uint8Array | undefined
+    >();
+    expectTypeOf<Methods['getKeyId']>().toMatchTypeOf<
+      (this: HasKey<4>) => Uint8Array
+    >();
+  });
+
+  it('types setters with the value of the resolved key', () => {
+    expectTypeOf<Methods['setKeyId']>()
+      .parameter(0)
+      .toEqualTypeOf<Uint8Array>();
+    expectTypeOf<Methods['setName']>().parameter(0).toEqualTypeOf<string>();
+  });
+});
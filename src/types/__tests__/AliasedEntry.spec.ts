@@ -0,0 +1,68 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type {
+  AliasedEntry,
+  AliasesOf,
+  KeyOrAlias,
+  ResolveKey,
+} from '../AliasedEntry';
+import type { Es } from '../Es';
+import type { KeysOfEntries } from '../KeysOfEntries';
+import type { RequiredEntry, RequiredKeys } from '../RequiredEntry';
+
+enum Headers {
+  Algorithm = 1,
+  KeyID = 4,
+  IV = 5,
+}
+
+type Entries = Es<
+  | AliasedEntry<RequiredEntry<[Headers.Algorithm, number]>, 'alg'>
+  | AliasedEntry<[Headers.KeyID, Uint8Array], 'kid'>
+  | [Headers.IV, Uint8Array]
+>;
+
+describe('AliasedEntry', () => {
+  it('keeps the key and required marker of the entry', () => {
+    expectTypeOf<KeysOfEntries<Entries>>().toEqualTypeOf<Headers>();
+    expectTypeOf<RequiredKeys<Entries>>().toEqualTypeOf<Headers.Algorithm>();
+  });
+
+  it('is assignable to the unmarked entry', () => {
+    expectTypeOf<AliasedEntry<['a', number], 'x'>>().toMatchTypeOf<
+      ['a', number]
+    >();
+  });
+});
+
+describe('AliasesOf', () => {
+  it('extracts the aliases of all or of some keys', () => {
+    expectTypeOf<AliasesOf<Entries>>().toEqualTypeOf<'alg' | 'kid'>();
+    expectTypeOf<
+      AliasesOf<Entries, Headers.KeyID | Headers.IV>
+    >().toEqualTypeOf<'kid'>();
+  });
+
+  it('resolves to never for entries without aliases', () => {
+    expectTypeOf<AliasesOf<Es<['a', number]>>>().toEqualTypeOf<never>();
+  });
+});
+
+describe('ResolveKey', () => {
+  it('resolves aliases and keeps keys', () => {
+    expectTypeOf<
+      ResolveKey<Entries, 'alg'>
+    >().toEqualTypeOf<Headers.Algorithm>();
+    expectTypeOf<ResolveKey<Entries, Headers.IV>>().toEqualTypeOf<Headers.IV>();
+    expectTypeOf<ResolveKey<Entries, 'alg' | 'kid'>>().toEqualTypeOf<
+      Headers.Algorithm | Headers.KeyID
+    >();
+  });
+});
+
+describe('KeyOrAlias', () => {
+  it('combines keys and aliases', () => {
+    expectTypeOf<KeyOrAlias<Entries>>().toEqualTypeOf<
+      Headers | 'alg' | 'kid'
+    >();
+  });
+});
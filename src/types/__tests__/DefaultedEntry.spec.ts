@@ -0,0 +1,48 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type { AliasedEntry } from '../AliasedEntry';
+import type {
+  DefaultedEntry,
+  DefaultedKeys,
+  IsDefaultedEntry,
+} from '../DefaultedEntry';
+import type { Es } from '../Es';
+import type { KeysOfEntries } from '../KeysOfEntries';
+import type { RequiredEntry, RequiredKeys } from '../RequiredEntry';
+
+type Entries = Es<
+  | DefaultedEntry<RequiredEntry<['retries', number]>>
+  | DefaultedEntry<AliasedEntry<[1, string], 'host'>>
+  | ['name', string]
+>;
+
+describe('DefaultedEntry', () => {
+  it('keeps the key and the other markers of the entry', () => {
+    expectTypeOf<KeysOfEntries<Entries>>().toEqualTypeOf<
+      'retries' | 1 | 'name'
+    >();
+    expectTypeOf<RequiredKeys<Entries>>().toEqualTypeOf<'retries'>();
+  });
+
+  it('is assignable to the unmarked entry', () => {
+    expectTypeOf<DefaultedEntry<['a', number]>>().toMatchTypeOf<
+      ['a', number]
+    >();
+  });
+
+  it('is detected by IsDefaultedEntry', () => {
+    expectTypeOf<
+      IsDefaultedEntry<DefaultedEntry<['a', number]>>
+    >().toEqualTypeOf<true>();
+    expectTypeOf<IsDefaultedEntry<['a', number]>>().toEqualTypeOf<false>();
+  });
+});
+
+describe('DefaultedKeys', () => {
+  it('extracts the keys with a default', () => {
+    expectTypeOf<DefaultedKeys<Entries>>().toEqualTypeOf<'retries' | 1>();
+  });
+
+  it('resolves to never for entries without defaults', () => {
+    expectTypeOf<DefaultedKeys<Es<['a', number]>>>().toEqualTypeOf<never>();
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type { EntryOf } from '../EntryOf';
+import type { Es } from '../Es';
+import type { RequiredEntry } from '../RequiredEntry';
+import type { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+
+enum Headers {
+  Algorithm = 1,
+  KeyID = 4,
+  IV = 5,
+  PartialIV = 6,
+}
+
+describe('EntryOf', () => {
+  it('creates one mutable pair per entry', () => {
+    type Entries = Es<['name', string] | ['age', number]>;
+
+    expectTypeOf<EntryOf<Entries>>().toEqualTypeOf<
+      ['name', string] | ['age', number]
+    >();
+  });
+
+  it('normalizes nested entries to ExactKeyMap', () => {
+    type Entries = Es<['id', number] | ['profile', Es<['name', string]>]>;
+
+    expectTypeOf<EntryOf<Entries>>().toEqualTypeOf<
+      ['id', number] | ['profile', ExactKeyMap<Es<['name', string]>>]
+    >();
+  });
+
+  it('keeps catch-all entries as a single member', () => {
+    type Entries = Es<
+      | [Headers.Algorithm, number]
+      | [Exclude<Headers, Headers.Algorithm>, Uint8Array]
+    >;
+
+    expectTypeOf<EntryOf<Entries>>().toEqualTypeOf<
+      | [Headers.Algorithm, number]
+      | [Headers.KeyID | Headers.IV | Headers.PartialIV, Uint8Array]
+    >();
+  });
+
+  it('drops the required marker', () => {
+    type Entries = Es<RequiredEntry<['id', number]> | ['note', string]>;
+
+    expectTypeOf<EntryOf<Entries>>().toEqualTypeOf<
+      ['id', number] | ['note', string]
+    >();
+  });
+
+  it('resolves to never for empty entries', () => {
+    expectTypeOf<EntryOf<[]>>().toEqualTypeOf<never>();
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type {
+  CheckObjectKeys,
+  EsFromObject,
+  RequiredEsFromObject,
+} from '../EsFromObject';
+import type { Es } from '../Es';
+import type { RequiredEntry } from '../RequiredEntry';
+import type { ObjectFromEs } from '../ObjectFromEs';
+import type { Raw } from '@/exact-key-map/Raw';
+import type { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+
+interface Address {
+  street: string;
+  zip?: string;
+}
+
+interface User {
+  readonly id: number;
+  name: string;
+  address: Address;
+  tags: string[];
+}
+
+describe('EsFromObject', () => {
+  it('converts properties to entries', () => {
+    type Entries = EsFromObject<{ name: string; age: number }>;
+
+    expectTypeOf<Entries>().toEqualTypeOf<
+      Es<['name', string] | ['age', number]>
+    >();
+  });
+
+  it('converts numeric keys to number keys', () => {
+    type Entries = EsFromObject<{ 1: string; '2': boolean; '01': number }>;
+
+    expectTypeOf<Entries>().toEqualTypeOf<
+      Es<[1, string] | [2, boolean] | ['01', number]>
+    >();
+  });
+
+  it('converts nested plain object types to nested Es', () => {
+    type Entries = EsFromObject<{
+      db: { host: string; credentials: { user: string } };
+    }>;
+
+    expectTypeOf<Entries>().toEqualTypeOf<
+      Es<['db', Es<['host', string] | ['credentials', Es<['user', string]>]>]>
+    >();
+  });
+
+  it('keeps arrays and built-in objects as values', () => {
+    type Entries = EsFromObject<{
+      tags: string[];
+      bytes: Uint8Array;
+      created: Date;
+      lookup: Map<string, number>;
+      callback: () => void;
+    }>;
+
+    expectTypeOf<Entries>().toEqualTypeOf<
+      Es<
+        | ['tags', string[]]
+        | ['bytes', Uint8Array]
+        | ['created', Date]
+        | ['lookup', Map<string, number>]
+        | ['callback', () => void]
+      >
+    >();
+  });
+
+  it('drops undefined from optional properties only', () => {
+    type Entries = EsFromObject<{ a?: number; b: string | undefined }>;
+
+    expectTypeOf<Entries>().toEqualTypeOf<
+      Es<['a', number] | ['b', string | undefined]>
+    >();
+  });
+
+  it('supports index signatures', () => {
+    expectTypeOf<EsFromObject<Record<string, number>>>().toEqualTypeOf<
+      Es<[string, number]>
+    >();
+  });
+
+  it('drops symbol keys', () => {
+    const tag = Symbol('tag');
+    type Entries = EsFromObject<{ name: string; [tag]: number }>;
+
+    expectTypeOf<Entries>().toEqualTypeOf<Es<['name', string]>>();
+  });
+
+  it('wraps arrays of pairs in Raw, as fromObject keeps them as-is', () => {
+    type Entries = EsFromObject<{ points: [number, number][]; ids: number[] }>;
+
+    expectTypeOf<Entries>().toEqualTypeOf<
+      Es<['points', Raw<[number, number][]>] | ['ids', number[]]>
+    >();
+  });
+});
+
+describe('EsFromObject with interfaces', () => {
+  it('converts interfaces and nested interfaces', () => {
+    expectTypeOf<EsFromObject<User>>().toEqualTypeOf<
+      Es<
+        | ['id', number]
+        | ['name', string]
+        | ['address', Es<['street', string] | ['zip', string]>]
+        | ['tags', string[]]
+      >
+    >();
+  });
+
+  it('converts nullable and union-typed nested objects', () => {
+    type Entries = EsFromObject<{
+      parent: { id: number } | null;
+      shape: { radius: number } | { width: number };
+    }>;
+
+    expectTypeOf<Entries>().toEqualTypeOf<
+      Es<
+        | ['parent', Es<['id', number]> | null]
+        | ['shape', Es<['radius', number]> | Es<['width', number]>]
+      >
+    >();
+  });
+
+  it('resolves recursive object types', () => {
+    interface Employee {
+      name: string;
+      manager?: Employee;
+    }
+    type Entries = EsFromObject<Employee>;
+    const employee = null as unknown as ExactKeyMap<Entries>;
+
+    expectTypeOf(() => employee.get('name')).returns.toEqualTypeOf<
+      string | undefined
+    >();
+    expectTypeOf(() =>
+      employee.get('manager')?.get('manager')?.get('name'),
+    ).returns.toEqualTypeOf<string | undefined>();
+  });
+});
+
+describe('RequiredEsFromObject', () => {
+  it('marks required properties as required entries', () => {
+    expectTypeOf<RequiredEsFromObject<User>>().toEqualTypeOf<
+      Es<
+        | RequiredEntry<['id', number]>
+        | RequiredEntry<['name', string]>
+        | RequiredEntry<
+            ['address', Es<RequiredEntry<['street', string]> | ['zip', string]>]
+          >
+        | RequiredEntry<['tags', string[]]>
+      >
+    >();
+  });
+
+  it('keeps optional properties and index signatures optional', () => {
+    expectTypeOf<RequiredEsFromObject<{ a?: number }>>().toEqualTypeOf<
+      Es<['a', number]>
+    >();
+    expectTypeOf<RequiredEsFromObject<Record<string, number>>>().toEqualTypeOf<
+      Es<[string, number]>
+    >();
+  });
+
+  it('is inverted by ObjectFromEs', () => {
+    type Model = { id: number; nickname?: string; profile: { bio?: string } };
+
+    expectTypeOf<
+      ObjectFromEs<RequiredEsFromObject<Model>>
+    >().toEqualTypeOf<Model>();
+  });
+});
+
+describe('CheckObjectKeys', () => {
+  it('is unknown for objects without symbol keys', () => {
+    expectTypeOf<
+      CheckObjectKeys<{ a: { b: number }; c: string[] }>
+    >().toEqualTypeOf<unknown>();
+  });
+
+  it('names the problem for symbol keys, including nested ones', () => {
+    const tag = Symbol('tag');
+    type Error = { readonly 'fromObject does not support symbol keys': never };
+
+    expectTypeOf<CheckObjectKeys<{ [tag]: number }>>().toEqualTypeOf<Error>();
+    expectTypeOf<
+      CheckObjectKeys<{ a: { [tag]: number } }>
+    >().toEqualTypeOf<Error>();
+  });
+
+  it('is unknown for recursive object types without symbol keys', () => {
+    interface Employee {
+      name: string;
+      manager?: Employee;
+    }
+
+    expectTypeOf<CheckObjectKeys<Employee>>().toEqualTypeOf<unknown>();
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type { HasKey, HasKeys } from '../HasKey';
+
+describe('HasKey', () => {
+  it('accepts maps marked for the same key', () => {
+    expectTypeOf<HasKey<'name'>>().toMatchTypeOf<HasKey<'name'>>();
+    expectTypeOf<HasKey<'name'>>().not.toMatchTypeOf<HasKey<'age'>>();
+  });
+
+  it('distributes over unions of keys', () => {
+    expectTypeOf<HasKey<'name' | 'age'>>().toEqualTypeOf<
+      HasKey<'name'> | HasKey<'age'>
+    >();
+    expectTypeOf<HasKey<'name' | 'age'>>().not.toMatchTypeOf<HasKey<'name'>>();
+  });
+
+  it('combines markers by intersection', () => {
+    type Both = HasKey<'name'> & HasKey<'age'>;
+
+    expectTypeOf<Both>().toMatchTypeOf<HasKey<'name'>>();
+    expectTypeOf<Both>().toMatchTypeOf<HasKey<'age'>>();
+  });
+});
+
+describe('HasKeys', () => {
+  it('marks every key of a tuple', () => {
+    type Both = HasKeys<readonly ['name', 'age']>;
+
+    expectTypeOf<Both>().toMatchTypeOf<HasKey<'name'>>();
+    expectTypeOf<Both>().toMatchTypeOf<HasKey<'age'>>();
+  });
+
+  it('marks nothing for arrays of unknown length', () => {
+    expectTypeOf<HasKeys<'name'[]>>().toEqualTypeOf<unknown>();
+    expectTypeOf<HasKeys<[]>>().toEqualTypeOf<unknown>();
+  });
+});
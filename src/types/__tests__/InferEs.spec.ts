@@ -0,0 +1,147 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import type { InferEs } from '../InferEs';
+import type { Es } from '../Es';
+import type { RequiredEntry } from '../RequiredEntry';
+import type { AliasedEntry } from '../AliasedEntry';
+import type { DefaultedEntry } from '../DefaultedEntry';
+import type { Raw } from '@/exact-key-map/Raw';
+import { defineSchema } from '@/schema/Schema';
+import { keyMatching } from '@/schema/KeyPattern';
+import {
+  arrayOf,
+  isNumber,
+  isString,
+  isUint8Array,
+  literal,
+  oneOf,
+} from '@/schema/validators';
+
+enum Headers {
+  Algorithm = 1,
+  Critical = 2,
+  ContentType = 3,
+  KeyID = 4,
+  IV = 5,
+}
+
+describe('InferEs', () => {
+  it('infers flat entries from validators', () => {
+    const schema = defineSchema([
+      ['name', isString],
+      [1, isNumber],
+    ]);
+
+    expect(schema.definitions).not.toHaveLength(0);
+    expectTypeOf<InferEs<typeof schema>>().toEqualTypeOf<
+      Es<['name', string] | [1, number]>
+    >();
+  });
+
+  it('infers nested Es from nested schemas', () => {
+    const schema = defineSchema([
+      ['id', isNumber],
+      ['profile', defineSchema([['name', isString]])],
+    ]);
+
+    expect(schema.definitions).not.toHaveLength(0);
+    expectTypeOf<InferEs<typeof schema>>().toEqualTypeOf<
+      Es<['id', number] | DefaultedEntry<['profile', Es<['name', string]>]>>
+    >();
+  });
+
+  it('marks definitions with a default as DefaultedEntry', () => {
+    const schema = defineSchema([
+      ['retries', isNumber, { default: 3 }],
+      ['name', isString, { required: true, default: 'api' }],
+      ['note', isString],
+    ]);
+
+    expect(schema.definitions).toHaveLength(3);
+    expectTypeOf<InferEs<typeof schema>>().toEqualTypeOf<
+      Es<
+        | DefaultedEntry<['retries', number]>
+        | DefaultedEntry<RequiredEntry<['name', string]>>
+        | ['note', string]
+      >
+    >();
+  });
+
+  it('infers catch-all keys from key patterns', () => {
+    type OtherHeaders = Exclude<
+      Headers,
+      Headers.Algorithm | Headers.Critical | Headers.ContentType | Headers.KeyID
+    >;
+    const isOtherHeader = (key: unknown): key is OtherHeaders =>
+      key === Headers.IV;
+    const schema = defineSchema([
+      [Headers.Algorithm, isNumber],
+      [Headers.Critical, arrayOf(literal(...([1, 2, 3, 4, 5] as Headers[])))],
+      [Headers.ContentType, oneOf(isNumber, isUint8Array)],
+      [Headers.KeyID, isUint8Array],
+      [keyMatching(isOtherHeader), oneOf(isUint8Array, isNumber)],
+    ]);
+
+    expect(schema.definitions).not.toHaveLength(0);
+    expectTypeOf<InferEs<typeof schema>>().toEqualTypeOf<
+      Es<
+        | [Headers.Algorithm, number]
+        | [Headers.Critical, Headers[]]
+        | [Headers.ContentType, number | Uint8Array]
+        | [Headers.KeyID, Uint8Array]
+        | [OtherHeaders, Uint8Array | number]
+      >
+    >();
+  });
+
+  it('marks definitions with { required: true } as RequiredEntry', () => {
+    const schema = defineSchema([
+      [Headers.Algorithm, isNumber, { required: true }],
+      [Headers.KeyID, isUint8Array, { required: false }],
+      [Headers.IV, isUint8Array, {}],
+    ]);
+
+    expect(schema.definitions).not.toHaveLength(0);
+    expectTypeOf<InferEs<typeof schema>>().toEqualTypeOf<
+      Es<
+        | RequiredEntry<[Headers.Algorithm, number]>
+        | [Headers.KeyID, Uint8Array]
+        | [Headers.IV, Uint8Array]
+      >
+    >();
+  });
+
+  it('marks definitions with an alias as AliasedEntry', () => {
+    const schema = defineSchema([
+      [Headers.Algorithm, isNumber, { alias: 'alg', required: true }],
+      [Headers.KeyID, isUint8Array, { alias: 'kid' }],
+      [Headers.IV, isUint8Array],
+    ]);
+
+    expect(schema.definitions).toHaveLength(3);
+    expectTypeOf<InferEs<typeof schema>>().toEqualTypeOf<
+      Es<
+        | AliasedEntry<RequiredEntry<[Headers.Algorithm, number]>, 'alg'>
+        | AliasedEntry<[Headers.KeyID, Uint8Array], 'kid'>
+        | [Headers.IV, Uint8Array]
+      >
+    >();
+  });
+
+  it('wraps entries-shaped validator values in Raw', () => {
+    const isPoints = (value: unknown): value is [number, number][] =>
+      Array.isArray(value);
+    const schema = defineSchema([
+      ['points', isPoints],
+      ['tags', arrayOf(isString)],
+    ]);
+
+    expect(schema.definitions).toHaveLength(2);
+    expectTypeOf<InferEs<typeof schema>>().toEqualTypeOf<
+      Es<['points', Raw<[number, number][]>] | ['tags', string[]]>
+    >();
+  });
+
+  it('resolves to never for non-schema types', () => {
+    expectTypeOf<InferEs<number>>().toEqualTypeOf<never>();
+  });
+});
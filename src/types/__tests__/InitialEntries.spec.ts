@@ -0,0 +1,33 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type { InitialEntries } from '../InitialEntries';
+import type { RequiredEntry } from '../RequiredEntry';
+import type { Es } from '../Es';
+
+describe('InitialEntries', () => {
+  it('is the entries type itself without required keys', () => {
+    type Entries = Es<['id', number] | ['name', string]>;
+
+    expectTypeOf<InitialEntries<Entries>>().toEqualTypeOf<Entries>();
+  });
+
+  it('accepts the entries in any order', () => {
+    type Entries = Es<
+      | RequiredEntry<['id', number]>
+      | RequiredEntry<['name', string]>
+      | ['email', string]
+    >;
+
+    expectTypeOf<[['id', 1], ['name', 'Alice']]>().toMatchTypeOf<
+      InitialEntries<Entries>
+    >();
+    expectTypeOf<
+      [['email', 'a@b.c'], ['name', 'Alice'], ['id', 1]]
+    >().toMatchTypeOf<InitialEntries<Entries>>();
+  });
+
+  it('types required entries by their key', () => {
+    type Entries = Es<RequiredEntry<['id', number]>>;
+
+    expectTypeOf<[['id', 'x']]>().not.toMatchTypeOf<InitialEntries<Entries>>();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type { KeyPath } from '../KeyPath';
+import type { Es } from '../Es';
+import type { ExactKeyMap } from '../../exact-key-map/ExactKeyMap';
+
+describe('KeyPath', () => {
+  it('lists single-key paths for flat entries', () => {
+    type Entries = Es<['id', number] | ['name', string]>;
+
+    expectTypeOf<KeyPath<Entries>>().toEqualTypeOf<
+      readonly ['id'] | readonly ['name']
+    >();
+  });
+
+  it('follows nested Es entries', () => {
+    type ProfileEs = Es<['name', string] | ['tags', Es<['main', string]>]>;
+    type Entries = Es<['id', number] | ['profile', ProfileEs]>;
+
+    expectTypeOf<KeyPath<Entries>>().toEqualTypeOf<
+      | readonly ['id']
+      | readonly ['profile']
+      | readonly ['profile', 'name']
+      | readonly ['profile', 'tags']
+      | readonly ['profile', 'tags', 'main']
+    >();
+  });
+
+  it('follows explicit ExactKeyMap values', () => {
+    type Entries = Es<['user', ExactKeyMap<Es<['id', number]>>]>;
+
+    expectTypeOf<KeyPath<Entries>>().toEqualTypeOf<
+      readonly ['user'] | readonly ['user', 'id']
+    >();
+  });
+
+  it('expands catch-all keys', () => {
+    enum H {
+      Algorithm = 1,
+      IV = 5,
+      PartialIV = 6,
+    }
+    type Entries = Es<
+      [H.Algorithm, number] | [Exclude<H, H.Algorithm>, Uint8Array]
+    >;
+
+    expectTypeOf<KeyPath<Entries>>().toEqualTypeOf<
+      readonly [H.Algorithm] | readonly [H.IV] | readonly [H.PartialIV]
+    >();
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type { MapValuesEs, ValueMappers } from '../MapValuesEs';
+import type { Es } from '../Es';
+import type { RequiredEntry } from '../RequiredEntry';
+import type { AliasedEntry } from '../AliasedEntry';
+import type { DefaultedEntry } from '../DefaultedEntry';
+import type { Raw } from '@/exact-key-map/Raw';
+import type { ExactKeyMap } from '@/exact-key-map/ExactKeyMap';
+
+enum Headers {
+  Algorithm = 1,
+  KeyID = 4,
+  IV = 5,
+}
+
+type UserEs = Es<
+  | RequiredEntry<['id', number]>
+  | ['name', string]
+  | ['profile', Es<['bio', string]>]
+>;
+
+describe('MapValuesEs', () => {
+  it('replaces the values of mapped keys with the mapper return types', () => {
+    type Mapped = MapValuesEs<UserEs, { name: (name: string) => number }>;
+
+    expectTypeOf<Mapped>().toEqualTypeOf<
+      Es<
+        | RequiredEntry<['id', number]>
+        | ['name', number]
+        | ['profile', Es<['bio', string]>]
+      >
+    >();
+  });
+
+  it('keeps required entries required', () => {
+    type Mapped = MapValuesEs<UserEs, { id: (id: number) => string }>;
+
+    expectTypeOf<Mapped>().toEqualTypeOf<
+      Es<
+        | RequiredEntry<['id', string]>
+        | ['name', string]
+        | ['profile', Es<['bio', string]>]
+      >
+    >();
+  });
+
+  it('keeps aliases, and defaults of keys without a mapper', () => {
+    type Entries = Es<
+      | DefaultedEntry<AliasedEntry<['retries', number], 'r'>>
+      | DefaultedEntry<['host', string]>
+    >;
+    type Mapped = MapValuesEs<Entries, { retries: (n: number) => string }>;
+
+    expectTypeOf<Mapped>().toEqualTypeOf<
+      Es<
+        | AliasedEntry<['retries', string], 'r'>
+        | DefaultedEntry<['host', string]>
+      >
+    >();
+  });
+
+  it('maps nested entries with nested mappers', () => {
+    type Mapped = MapValuesEs<UserEs, { profile: { bio: () => boolean } }>;
+
+    expectTypeOf<Mapped>().toEqualTypeOf<
+      Es<
+        | RequiredEntry<['id', number]>
+        | ['name', string]
+        | ['profile', Es<['bio', boolean]>]
+      >
+    >();
+  });
+
+  it('splits catch-all entries only for mapped keys', () => {
+    type HeaderEs = Es<
+      [Headers.Algorithm, number] | [Headers.KeyID | Headers.IV, Uint8Array]
+    >;
+
+    expectTypeOf<
+      MapValuesEs<HeaderEs, { [Headers.IV]: () => string }>
+    >().toEqualTypeOf<
+      Es<
+        | [Headers.Algorithm, number]
+        | [Headers.KeyID, Uint8Array]
+        | [Headers.IV, string]
+      >
+    >();
+    expectTypeOf<
+      MapValuesEs<HeaderEs, { [Headers.Algorithm]: () => string }>
+    >().toEqualTypeOf<
+      Es<[Headers.Algorithm, string] | [Headers.KeyID | Headers.IV, Uint8Array]>
+    >();
+  });
+
+  it('wraps mapped arrays of pairs in Raw', () => {
+    type Mapped = MapValuesEs<
+      Es<['name', string]>,
+      { name: () => [string, number][] }
+    >;
+
+    expectTypeOf<Mapped>().toEqualTypeOf<
+      Es<['name', Raw<[string, number][]>]>
+    >();
+  });
+});
+
+describe('ValueMappers', () => {
+  it('types mapper parameters from the entries', () => {
+    type Mappers = ValueMappers<UserEs>;
+
+    expectTypeOf<NonNullable<Mappers['id']>>().toEqualTypeOf<
+      ((value: number, key: 'id') => unknown) | never
+    >();
+    expectTypeOf<NonNullable<Mappers['profile']>>().toEqualTypeOf<
+      | ((value: ExactKeyMap<Es<['bio', string]>>, key: 'profile') => unknown)
+      | ValueMappers<Es<['bio', string]>>
+    >();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type { MergeEs } from '../MergeEs';
+import type { Es } from '../Es';
+import type { KeysOfEntries } from '../KeysOfEntries';
+import type { ValueOfKey } from '../ValueOfKey';
+import type { RequiredKeys } from '../RequiredEntry';
+import type { RequiredEntry } from '../RequiredEntry';
+import type { AliasedEntry, AliasesOf } from '../AliasedEntry';
+import type { DefaultedEntry, DefaultedKeys } from '../DefaultedEntry';
+import type { ExactKeyMap } from '../../exact-key-map/ExactKeyMap';
+
+enum Headers {
+  Algorithm = 1,
+  KeyID = 4,
+  IV = 5,
+}
+
+describe('MergeEs', () => {
+  it('produces the union schema for disjoint keys', () => {
+    type Protected = Es<[Headers.Algorithm, number]>;
+    type Unprotected = Es<
+      [Headers.KeyID, Uint8Array] | [Headers.IV, Uint8Array]
+    >;
+    type Merged = MergeEs<Protected, Unprotected>;
+
+    expectTypeOf<KeysOfEntries<Merged>>().toEqualTypeOf<Headers>();
+    expectTypeOf<
+      ValueOfKey<Merged, Headers.Algorithm>
+    >().toEqualTypeOf<number>();
+    expectTypeOf<
+      ValueOfKey<Merged, Headers.KeyID>
+    >().toEqualTypeOf<Uint8Array>();
+  });
+
+  it('combines the value types of shared keys', () => {
+    type Merged = MergeEs<Es<['id', number]>, Es<['id', string]>>;
+
+    expectTypeOf<ValueOfKey<Merged, 'id'>>().toEqualTypeOf<number | string>();
+  });
+
+  it('merges nested maps recursively', () => {
+    type Defaults = Es<['server', Es<['host', string]>]>;
+    type User = Es<['server', Es<['port', number]>] | ['name', string]>;
+    type Merged = MergeEs<Defaults, User>;
+    type Server = ValueOfKey<Merged, 'server'>;
+
+    expectTypeOf<
+      Server extends ExactKeyMap<infer E> ? KeysOfEntries<E> : never
+    >().toEqualTypeOf<'host' | 'port'>();
+    expectTypeOf<KeysOfEntries<Merged>>().toEqualTypeOf<'server' | 'name'>();
+  });
+
+  it('allows concatenated arrays', () => {
+    type Merged = MergeEs<Es<['tags', string[]]>, Es<['tags', number[]]>>;
+
+    expectTypeOf<ValueOfKey<Merged, 'tags'>>().toEqualTypeOf<
+      string[] | number[] | (string | number)[]
+    >();
+  });
+
+  it('keeps keys required in either map', () => {
+    type A = Es<RequiredEntry<['id', number]> | ['name', string]>;
+    type B = Es<
+      ['id', number] | RequiredEntry<['role', string]> | ['name', string]
+    >;
+
+    expectTypeOf<RequiredKeys<MergeEs<A, B>>>().toEqualTypeOf<'id' | 'role'>();
+  });
+
+  it('drops alias and default markers, since the result has no schema', () => {
+    type Server = Es<DefaultedEntry<AliasedEntry<['port', number], 'p'>>>;
+    type A = Es<
+      | AliasedEntry<RequiredEntry<[Headers.Algorithm, number]>, 'alg'>
+      | DefaultedEntry<['server', Server]>
+    >;
+    type B = Es<AliasedEntry<[Headers.KeyID, Uint8Array], 'kid'>>;
+    type Merged = MergeEs<A, B>;
+    type MergedServer = ValueOfKey<Merged, 'server'>;
+
+    expectTypeOf<AliasesOf<Merged>>().toEqualTypeOf<never>();
+    expectTypeOf<DefaultedKeys<Merged>>().toEqualTypeOf<never>();
+    expectTypeOf<RequiredKeys<Merged>>().toEqualTypeOf<Headers.Algorithm>();
+    expectTypeOf<
+      MergedServer extends ExactKeyMap<infer E>
+        ? AliasesOf<E> | DefaultedKeys<E>
+        : 'not a map'
+    >().toEqualTypeOf<never>();
+    expectTypeOf<
+      AliasesOf<MergeEs<B, Es<[Headers.KeyID, Uint8Array]>>>
+    >().toEqualTypeOf<never>();
+  });
+});
@@ -3,6 +3,8 @@ import type { NormalizeValue } from '../NormalizeValue';
 import type { ExactKeyMap } from '../../exact-key-map/ExactKeyMap';
 import type { ValueOfKey } from '../ValueOfKey';
 import type { ExtractExactKeyMapGenerics } from '../ExtractExactKeyMapGenerics';
+import type { Es } from '../Es';
+import type { Raw } from '../../exact-key-map/Raw';
 
 describe('NormalizeValue', () => {
   it('preserves primitive literal values', () => {
@@ -64,4 +66,40 @@ describe('NormalizeValue', () => {
     const c = null as unknown as ValueOfKey<E3, 'c'>;
     expectTypeOf(c).toEqualTypeOf<3>();
   });
+
+  it('keeps each key paired with its own value in union-style Es', () => {
+    type V = NormalizeValue<Es<['name', string] | ['age', number]>>;
+
+    const v = null as unknown as V;
+    expectTypeOf(v).toEqualTypeOf<
+      ExactKeyMap<Es<['name', string] | ['age', number]>>
+    >();
+
+    const age = null as unknown as ValueOfKey<
+      ExtractExactKeyMapGenerics<V>,
+      'age'
+    >;
+    expectTypeOf(age).toEqualTypeOf<number>();
+  });
+
+  it('unwraps Raw values without converting them', () => {
+    type V = NormalizeValue<Raw<[number, number][]>>;
+
+    const v = null as unknown as V;
+    expectTypeOf(v).toEqualTypeOf<[number, number][]>();
+  });
+
+  it('keeps Raw values as-is in nested entries', () => {
+    type Points = Raw<[number, number][]>;
+    type V = NormalizeValue<Es<['points', Points]>>;
+
+    const v = null as unknown as V;
+    expectTypeOf(v).toEqualTypeOf<ExactKeyMap<Es<['points', Points]>>>();
+
+    const points = null as unknown as ValueOfKey<
+      Es<['points', Points]>,
+      'points'
+    >;
+    expectTypeOf(points).toEqualTypeOf<[number, number][]>();
+  });
 });
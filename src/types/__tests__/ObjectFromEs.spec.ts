@@ -0,0 +1,149 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type { CheckEsKeys, ObjectFromEs } from '../ObjectFromEs';
+import type { Es } from '../Es';
+import type { RequiredEntry } from '../RequiredEntry';
+import type { AliasedEntry } from '../AliasedEntry';
+import type { ExactKeyMap } from '../../exact-key-map/ExactKeyMap';
+import type { Raw } from '../../exact-key-map/Raw';
+import type { EsFromObject, RequiredEsFromObject } from '../EsFromObject';
+
+describe('ObjectFromEs', () => {
+  it('converts entries to optional properties', () => {
+    type Obj = ObjectFromEs<Es<['name', string] | [1, boolean]>>;
+
+    expectTypeOf<Obj>().toEqualTypeOf<{ name?: string; 1?: boolean }>();
+  });
+
+  it('converts required keys to required properties', () => {
+    type Obj = ObjectFromEs<
+      Es<RequiredEntry<['id', number]> | ['name', string]>
+    >;
+
+    expectTypeOf<Obj>().toEqualTypeOf<{ id: number; name?: string }>();
+  });
+
+  it('converts nested Es and ExactKeyMap values to nested objects', () => {
+    type Obj = ObjectFromEs<
+      Es<
+        | ['profile', Es<['name', string]>]
+        | ['settings', ExactKeyMap<Es<['theme', string]>>]
+      >
+    >;
+
+    expectTypeOf<Obj>().toEqualTypeOf<{
+      profile?: { name?: string };
+      settings?: { theme?: string };
+    }>();
+  });
+
+  it('names aliased properties by their alias with Keys set to names', () => {
+    type Entries = Es<
+      | AliasedEntry<RequiredEntry<[1, number]>, 'alg'>
+      | [5, Uint8Array]
+      | AliasedEntry<
+          [7, Es<AliasedEntry<['sig', Uint8Array], 'signature'>>],
+          'cs'
+        >
+    >;
+
+    expectTypeOf<ObjectFromEs<Entries, 'names'>>().toEqualTypeOf<{
+      alg: number;
+      5?: Uint8Array;
+      cs?: { signature?: Uint8Array };
+    }>();
+    expectTypeOf<ObjectFromEs<Entries>>().toEqualTypeOf<{
+      1: number;
+      5?: Uint8Array;
+      7?: { sig?: Uint8Array };
+    }>();
+  });
+
+  it('expands catch-all keys', () => {
+    enum H {
+      Algorithm = 1,
+      IV = 5,
+    }
+    type Obj = ObjectFromEs<
+      Es<[H.Algorithm, number] | [Exclude<H, H.Algorithm>, Uint8Array]>
+    >;
+
+    expectTypeOf<Obj>().toEqualTypeOf<{
+      [H.Algorithm]?: number;
+      [H.IV]?: Uint8Array;
+    }>();
+  });
+});
+
+describe('ObjectFromEs as the inverse of EsFromObject', () => {
+  interface Settings {
+    theme: string;
+    size?: number;
+    layout: { columns: number; points: [number, number][] };
+  }
+
+  it('unwraps Raw values like NormalizeValue', () => {
+    type Obj = ObjectFromEs<Es<['points', Raw<[number, number][]>]>>;
+
+    expectTypeOf<Obj>().toEqualTypeOf<{ points?: [number, number][] }>();
+  });
+
+  it('restores interfaces with all properties optional from EsFromObject', () => {
+    expectTypeOf<ObjectFromEs<EsFromObject<Settings>>>().toEqualTypeOf<{
+      theme?: string;
+      size?: number;
+      layout?: { columns?: number; points?: [number, number][] };
+    }>();
+  });
+
+  it('restores interfaces exactly from RequiredEsFromObject', () => {
+    expectTypeOf<
+      ObjectFromEs<RequiredEsFromObject<Settings>>
+    >().toEqualTypeOf<Settings>();
+  });
+
+  it('restores recursive object types', () => {
+    interface Employee {
+      name: string;
+      manager?: Employee;
+    }
+    const employee = null as unknown as ObjectFromEs<
+      RequiredEsFromObject<Employee>
+    >;
+
+    expectTypeOf(() => employee.name).returns.toEqualTypeOf<string>();
+    expectTypeOf(() => employee.manager?.manager?.name).returns.toEqualTypeOf<
+      string | undefined
+    >();
+  });
+});
+
+describe('CheckEsKeys', () => {
+  it('is unknown for string and number keys', () => {
+    expectTypeOf<
+      CheckEsKeys<Es<['a', number] | [1, Es<['b', string]>]>>
+    >().toEqualTypeOf<unknown>();
+  });
+
+  it('names the problem for other keys, including nested ones', () => {
+    type Error = {
+      readonly 'toObject supports only string and number keys': never;
+    };
+
+    expectTypeOf<CheckEsKeys<Es<[symbol, number]>>>().toEqualTypeOf<Error>();
+    expectTypeOf<CheckEsKeys<Es<[true, number]>>>().toEqualTypeOf<Error>();
+    expectTypeOf<
+      CheckEsKeys<Es<['a', Es<[bigint, number]>]>>
+    >().toEqualTypeOf<Error>();
+  });
+
+  it('is unknown for recursive entries', () => {
+    interface Employee {
+      name: string;
+      manager?: Employee;
+    }
+
+    expectTypeOf<
+      CheckEsKeys<EsFromObject<Employee>>
+    >().toEqualTypeOf<unknown>();
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type { DeepPartialEs, PartialEs } from '../PartialEs';
+import type { Es } from '../Es';
+import type { RequiredEntry, RequiredKeys } from '../RequiredEntry';
+
+describe('PartialEs', () => {
+  it('removes the required marker from every entry', () => {
+    type Entries = Es<RequiredEntry<['id', number]> | ['name', string]>;
+
+    expectTypeOf<PartialEs<Entries>>().toEqualTypeOf<
+      Es<['id', number] | ['name', string]>
+    >();
+    expectTypeOf<RequiredKeys<PartialEs<Entries>>>().toEqualTypeOf<never>();
+  });
+
+  it('keeps entries without required keys unchanged', () => {
+    type Entries = Es<['id', number] | ['name', string]>;
+
+    expectTypeOf<PartialEs<Entries>>().toEqualTypeOf<Entries>();
+  });
+});
+
+describe('DeepPartialEs', () => {
+  it('removes the required marker from nested entries as well', () => {
+    type Entries = Es<
+      | RequiredEntry<['id', number]>
+      | ['profile', Es<RequiredEntry<['name', string]> | ['bio', string]>]
+    >;
+
+    expectTypeOf<DeepPartialEs<Entries>>().toEqualTypeOf<
+      Es<['id', number] | ['profile', Es<['name', string] | ['bio', string]>]>
+    >();
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type { OmitEs, PickEs } from '../PickEs';
+import type { Es } from '../Es';
+import type { RequiredEntry, RequiredKeys } from '../RequiredEntry';
+
+enum Headers {
+  Algorithm = 1,
+  KeyID = 4,
+  IV = 5,
+  PartialIV = 6,
+}
+
+type UserEs = Es<
+  RequiredEntry<['id', number]> | ['name', string] | ['email', string]
+>;
+type HeaderEs = Es<
+  | [Headers.Algorithm, number]
+  | [Exclude<Headers, Headers.Algorithm>, Uint8Array]
+>;
+
+describe('PickEs', () => {
+  it('keeps only the entries of the picked keys', () => {
+    expectTypeOf<PickEs<UserEs, 'name' | 'email'>>().toEqualTypeOf<
+      Es<['name', string] | ['email', string]>
+    >();
+  });
+
+  it('keeps required entries required', () => {
+    expectTypeOf<
+      RequiredKeys<PickEs<UserEs, 'id' | 'name'>>
+    >().toEqualTypeOf<'id'>();
+  });
+
+  it('narrows catch-all entries to the picked keys', () => {
+    expectTypeOf<
+      PickEs<HeaderEs, Headers.Algorithm | Headers.IV>
+    >().toEqualTypeOf<
+      Es<[Headers.Algorithm, number] | [Headers.IV, Uint8Array]>
+    >();
+  });
+
+  it('narrows wide keys to the picked keys', () => {
+    expectTypeOf<PickEs<Es<[string, number]>, 'a' | 'b'>>().toEqualTypeOf<
+      Es<['a' | 'b', number]>
+    >();
+  });
+
+  it('resolves to empty entries for no keys', () => {
+    expectTypeOf<PickEs<UserEs, never>>().toEqualTypeOf<Es<never>>();
+  });
+});
+
+describe('OmitEs', () => {
+  it('removes the entries of the omitted keys', () => {
+    expectTypeOf<OmitEs<UserEs, 'email'>>().toEqualTypeOf<
+      Es<RequiredEntry<['id', number]> | ['name', string]>
+    >();
+  });
+
+  it('narrows catch-all entries to the remaining keys', () => {
+    expectTypeOf<
+      OmitEs<HeaderEs, Headers.Algorithm | Headers.KeyID>
+    >().toEqualTypeOf<Es<[Headers.IV | Headers.PartialIV, Uint8Array]>>();
+  });
+
+  it('keeps all entries for no keys', () => {
+    expectTypeOf<OmitEs<UserEs, never>>().toEqualTypeOf<UserEs>();
+  });
+});
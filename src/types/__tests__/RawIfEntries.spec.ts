@@ -0,0 +1,27 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type { RawIfEntries } from '../RawIfEntries';
+import type { Es } from '../Es';
+import type { Raw } from '@/exact-key-map/Raw';
+
+describe('RawIfEntries', () => {
+  it('wraps entries-shaped values', () => {
+    expectTypeOf<RawIfEntries<[number, number][]>>().toEqualTypeOf<
+      Raw<[number, number][]>
+    >();
+    expectTypeOf<RawIfEntries<Es<['a', 1]>>>().toEqualTypeOf<
+      Raw<Es<['a', 1]>>
+    >();
+  });
+
+  it('leaves other values unchanged', () => {
+    expectTypeOf<RawIfEntries<number[]>>().toEqualTypeOf<number[]>();
+    expectTypeOf<RawIfEntries<string>>().toEqualTypeOf<string>();
+    expectTypeOf<RawIfEntries<Uint8Array>>().toEqualTypeOf<Uint8Array>();
+  });
+
+  it('distributes over unions', () => {
+    expectTypeOf<RawIfEntries<[string, number][] | number>>().toEqualTypeOf<
+      Raw<[string, number][]> | number
+    >();
+  });
+});
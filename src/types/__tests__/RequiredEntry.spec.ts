@@ -0,0 +1,62 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type {
+  IsRequiredEntry,
+  OptionalKeys,
+  RequiredEntry,
+  RequiredKeys,
+} from '../RequiredEntry';
+import type { Es } from '../Es';
+import type { NormalizeValue } from '../NormalizeValue';
+import type { ExactKeyMap } from '../../exact-key-map/ExactKeyMap';
+
+enum Headers {
+  Algorithm = 1,
+  KeyID = 4,
+  IV = 5,
+  PartialIV = 6,
+}
+
+type HeaderEntries = Es<
+  | RequiredEntry<[Headers.Algorithm, number]>
+  | [Headers.KeyID, Uint8Array]
+  | [Exclude<Headers, Headers.Algorithm | Headers.KeyID>, Uint8Array]
+>;
+
+describe('RequiredEntry', () => {
+  it('keeps the entry assignable from plain tuples', () => {
+    const entry: RequiredEntry<['id', number]> = ['id', 1];
+
+    expectTypeOf(entry).toMatchTypeOf<readonly ['id', number]>();
+  });
+
+  it('is detected by IsRequiredEntry', () => {
+    expectTypeOf<
+      IsRequiredEntry<RequiredEntry<['id', number]>>
+    >().toEqualTypeOf<true>();
+    expectTypeOf<IsRequiredEntry<['id', number]>>().toEqualTypeOf<false>();
+  });
+
+  it('splits keys into required and optional keys', () => {
+    expectTypeOf<
+      RequiredKeys<HeaderEntries>
+    >().toEqualTypeOf<Headers.Algorithm>();
+    expectTypeOf<OptionalKeys<HeaderEntries>>().toEqualTypeOf<
+      Headers.KeyID | Headers.IV | Headers.PartialIV
+    >();
+  });
+
+  it('resolves to never without required entries', () => {
+    expectTypeOf<RequiredKeys<Es<['id', number]>>>().toEqualTypeOf<never>();
+    expectTypeOf<OptionalKeys<Es<['id', number]>>>().toEqualTypeOf<'id'>();
+  });
+
+  it('is preserved in nested maps by NormalizeValue', () => {
+    type Nested = NormalizeValue<
+      Es<RequiredEntry<['name', string]> | ['email', string]>
+    >;
+
+    expectTypeOf<
+      Nested extends ExactKeyMap<infer E> ? RequiredKeys<E> : never
+    >().toEqualTypeOf<'name'>();
+  });
+});
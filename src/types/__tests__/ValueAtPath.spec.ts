@@ -0,0 +1,46 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type { ValueAtPath } from '../ValueAtPath';
+import type { Es } from '../Es';
+import type { ExactKeyMap } from '../../exact-key-map/ExactKeyMap';
+
+describe('ValueAtPath', () => {
+  type ProfileEs = Es<['name', string] | ['age', number]>;
+  type Entries = Es<['id', number] | ['profile', ProfileEs]>;
+
+  it('resolves single-key paths like ValueOfKey', () => {
+    expectTypeOf<ValueAtPath<Entries, ['id']>>().toEqualTypeOf<number>();
+    expectTypeOf<ValueAtPath<Entries, ['profile']>>().toEqualTypeOf<
+      ExactKeyMap<ProfileEs>
+    >();
+  });
+
+  it('resolves nested paths', () => {
+    expectTypeOf<
+      ValueAtPath<Entries, ['profile', 'name']>
+    >().toEqualTypeOf<string>();
+    expectTypeOf<
+      ValueAtPath<Entries, readonly ['profile', 'age']>
+    >().toEqualTypeOf<number>();
+  });
+
+  it('resolves to never for invalid paths', () => {
+    expectTypeOf<ValueAtPath<Entries, ['id', 'x']>>().toEqualTypeOf<never>();
+    expectTypeOf<ValueAtPath<Entries, ['missing']>>().toEqualTypeOf<never>();
+    expectTypeOf<ValueAtPath<Entries, []>>().toEqualTypeOf<never>();
+  });
+
+  it('supports catch-all keys', () => {
+    enum H {
+      Algorithm = 1,
+      IV = 5,
+    }
+    type HeaderEs = Es<
+      [H.Algorithm, number] | [Exclude<H, H.Algorithm>, Uint8Array]
+    >;
+    type Outer = Es<['headers', HeaderEs]>;
+
+    expectTypeOf<
+      ValueAtPath<Outer, ['headers', H.IV]>
+    >().toEqualTypeOf<Uint8Array>();
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expectTypeOf } from 'vitest';
 import type { ValueOfKey } from '../ValueOfKey';
+import type { AliasedEntry } from '../AliasedEntry';
 import type { ExactKeyMap } from '../../exact-key-map/ExactKeyMap';
 
 describe('ValueOfKey', () => {
@@ -73,4 +74,17 @@ describe('ValueOfKey', () => {
     >();
     expectTypeOf(vct).toEqualTypeOf<number | Uint8Array>();
   });
+
+  it('resolves aliases to the value of the aliased key', () => {
+    type Entries = [
+      AliasedEntry<[1, number], 'alg'>,
+      AliasedEntry<[4, Uint8Array], 'kid'>,
+      ['note', string],
+    ];
+
+    expectTypeOf<ValueOfKey<Entries, 'alg'>>().toEqualTypeOf<number>();
+    expectTypeOf<ValueOfKey<Entries, 'kid'>>().toEqualTypeOf<Uint8Array>();
+    expectTypeOf<ValueOfKey<Entries, 1>>().toEqualTypeOf<number>();
+    expectTypeOf<ValueOfKey<Entries, 'note'>>().toEqualTypeOf<string>();
+  });
 });
@@ -1,8 +1,25 @@
+export * from './AccessorMethods';
+export * from './AliasedEntry';
 export * from './AllValues';
+export * from './DefaultedEntry';
 export * from './Es';
+export * from './EsFromObject';
 export * from './ExtractExactEntry';
 export * from './ExtractExactKeyMapGenerics';
+export * from './HasKey';
+export * from './InferEs';
+export * from './InitialEntries';
+export * from './KeyPath';
 export * from './KeysOfEntries';
+export * from './MapValuesEs';
+export * from './MergeEs';
 export * from './NormalizeValue';
+export * from './ObjectFromEs';
+export * from './PartialEs';
+export * from './PickEs';
+export * from './RawIfEntries';
 export * from './Entry';
+export * from './EntryOf';
+export * from './RequiredEntry';
+export * from './ValueAtPath';
 export * from './ValueOfKey';
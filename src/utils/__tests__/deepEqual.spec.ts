@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { deepEqual, isReadonlyMap, isTypedArray } from '../deepEqual';
+
+describe('deepEqual', () => {
+  it('compares primitives with Object.is', () => {
+    expect(deepEqual(1, 1)).toBe(true);
+    expect(deepEqual('a', 'a')).toBe(true);
+    expect(deepEqual(NaN, NaN)).toBe(true);
+    expect(deepEqual(1n, 1n)).toBe(true);
+    expect(deepEqual(0, -0)).toBe(false);
+    expect(deepEqual(1, '1')).toBe(false);
+    expect(deepEqual(null, undefined)).toBe(false);
+  });
+
+  it('compares maps regardless of insertion order', () => {
+    const a = new Map<string, number>([
+      ['a', 1],
+      ['b', 2],
+    ]);
+    const b = new Map<string, number>([
+      ['b', 2],
+      ['a', 1],
+    ]);
+
+    expect(deepEqual(a, b)).toBe(true);
+    expect(deepEqual(a, new Map([['a', 1]]))).toBe(false);
+    expect(
+      deepEqual(
+        a,
+        new Map([
+          ['a', 1],
+          ['c', 2],
+        ]),
+      ),
+    ).toBe(false);
+  });
+
+  it('compares nested maps recursively', () => {
+    const a = new Map([['inner', new Map([['x', new Uint8Array([1])]])]]);
+    const b = new Map([['inner', new Map([['x', new Uint8Array([1])]])]]);
+    const c = new Map([['inner', new Map([['x', new Uint8Array([2])]])]]);
+
+    expect(deepEqual(a, b)).toBe(true);
+    expect(deepEqual(a, c)).toBe(false);
+  });
+
+  it('matches structurally equal object keys', () => {
+    const a = new Map([[new Uint8Array([1]), 'one']]);
+    const b = new Map([[new Uint8Array([1]), 'one']]);
+
+    expect(deepEqual(a, b)).toBe(true);
+    expect(deepEqual(a, new Map([[new Uint8Array([1]), 'two']]))).toBe(false);
+  });
+
+  it('compares typed arrays byte-wise and by type', () => {
+    const bytes = new Uint8Array([0, 1, 2, 3]);
+
+    expect(deepEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toBe(
+      true,
+    );
+    expect(deepEqual(new Uint8Array([1, 2]), new Uint8Array([1, 3]))).toBe(
+      false,
+    );
+    expect(deepEqual(new Uint8Array([1]), new Int8Array([1]))).toBe(false);
+    expect(deepEqual(bytes.subarray(1, 3), new Uint8Array([1, 2]))).toBe(true);
+    expect(deepEqual(new Uint8Array([1]), [1])).toBe(false);
+  });
+
+  it('compares arrays, dates and plain objects', () => {
+    expect(deepEqual([1, [2]], [1, [2]])).toBe(true);
+    expect(deepEqual([1, 2], [1])).toBe(false);
+    expect(deepEqual(new Date(0), new Date(0))).toBe(true);
+    expect(deepEqual(new Date(0), new Date(1))).toBe(false);
+    expect(deepEqual({ a: 1, b: [2] }, { b: [2], a: 1 })).toBe(true);
+    expect(deepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+  });
+
+  it('compares other objects by reference', () => {
+    class Point {
+      constructor(readonly x: number) {}
+    }
+    const point = new Point(1);
+
+    expect(deepEqual(point, point)).toBe(true);
+    expect(deepEqual(new Point(1), new Point(1))).toBe(false);
+    expect(deepEqual(new Map(), {})).toBe(false);
+  });
+});
+
+describe('isReadonlyMap', () => {
+  it('accepts maps and map-like objects', () => {
+    const mapLike = {
+      size: 0,
+      get: (): undefined => undefined,
+      has: (): boolean => false,
+      entries: (): Iterator<never> => [][Symbol.iterator](),
+    };
+
+    expect(isReadonlyMap(new Map())).toBe(true);
+    expect(isReadonlyMap(mapLike)).toBe(true);
+    expect(isReadonlyMap(new Set())).toBe(false);
+    expect(isReadonlyMap({})).toBe(false);
+    expect(isReadonlyMap(null)).toBe(false);
+  });
+});
+
+describe('isTypedArray', () => {
+  it('accepts typed arrays but not DataViews', () => {
+    expect(isTypedArray(new Uint8Array())).toBe(true);
+    expect(isTypedArray(new Float64Array())).toBe(true);
+    expect(isTypedArray(new DataView(new ArrayBuffer(1)))).toBe(false);
+    expect(isTypedArray([1])).toBe(false);
+  });
+});
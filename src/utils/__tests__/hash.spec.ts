@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { hash } from '../hash';
+
+describe('hash', () => {
+  it('returns a safe non-negative integer', () => {
+    const value = hash(new Map([['a', 1]]));
+
+    expect(Number.isSafeInteger(value)).toBe(true);
+    expect(value).toBeGreaterThanOrEqual(0);
+  });
+
+  it('is stable for the same value', () => {
+    expect(hash('hello')).toBe(hash('hello'));
+    expect(hash(new Map([['a', [1, 2]]]))).toBe(hash(new Map([['a', [1, 2]]])));
+  });
+
+  it('ignores map insertion order', () => {
+    const a = new Map<string, unknown>([
+      ['a', 1],
+      ['b', new Map([['c', true]])],
+    ]);
+    const b = new Map<string, unknown>([
+      ['b', new Map([['c', true]])],
+      ['a', 1],
+    ]);
+
+    expect(hash(a)).toBe(hash(b));
+  });
+
+  it('hashes typed arrays by bytes and type', () => {
+    expect(hash(new Uint8Array([1, 2]))).toBe(hash(new Uint8Array([1, 2])));
+    expect(hash(new Uint8Array([1, 2]))).not.toBe(hash(new Uint8Array([1, 3])));
+    expect(hash(new Uint8Array([1]))).not.toBe(hash(new Int8Array([1])));
+  });
+
+  it('distinguishes values of different types', () => {
+    const values = [1, '1', 1n, true, 'true', null, undefined, [1], { a: 1 }];
+
+    expect(new Set(values.map(hash)).size).toBe(values.length);
+  });
+
+  it('ignores plain object property order', () => {
+    expect(hash({ a: 1, b: 2 })).toBe(hash({ b: 2, a: 1 }));
+    expect(hash(new Date(5))).toBe(hash(new Date(5)));
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { isPlainObject } from '../isPlainObject';
+
+describe('isPlainObject', () => {
+  it('returns true for plain objects', () => {
+    expect(isPlainObject({})).toBe(true);
+    expect(isPlainObject({ a: 1, nested: { b: 2 } })).toBe(true);
+    expect(isPlainObject(Object.create(null))).toBe(true);
+    expect(isPlainObject(new Object())).toBe(true);
+  });
+
+  it('returns false for arrays, class instances and built-ins', () => {
+    class Point {
+      x = 1;
+    }
+
+    expect(isPlainObject([])).toBe(false);
+    expect(isPlainObject(new Point())).toBe(false);
+    expect(isPlainObject(new Map())).toBe(false);
+    expect(isPlainObject(new Date())).toBe(false);
+    expect(isPlainObject(new Uint8Array(1))).toBe(false);
+  });
+
+  it('returns false for primitives and null', () => {
+    expect(isPlainObject(null)).toBe(false);
+    expect(isPlainObject(undefined)).toBe(false);
+    expect(isPlainObject('object')).toBe(false);
+    expect(isPlainObject(1)).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { toEntries } from '../toEntries';
+
+describe('toEntries', () => {
+  it('returns a copy of an entries array', () => {
+    const entries = [
+      ['name', 'Alice'],
+      [1, true],
+    ] as const;
+    const result = toEntries(entries);
+
+    expect(result).toEqual([
+      ['name', 'Alice'],
+      [1, true],
+    ]);
+    expect(result).not.toBe(entries);
+  });
+
+  it('returns the entries of a Map', () => {
+    const map = new Map<unknown, unknown>([
+      ['name', 'Alice'],
+      [1, true],
+    ]);
+
+    expect(toEntries(map)).toEqual([
+      ['name', 'Alice'],
+      [1, true],
+    ]);
+  });
+
+  it('returns an empty array for empty inputs', () => {
+    expect(toEntries([])).toEqual([]);
+    expect(toEntries(new Map())).toEqual([]);
+  });
+
+  it('returns undefined for other values', () => {
+    expect(toEntries({ name: 'Alice' })).toBeUndefined();
+    expect(toEntries(['not-a-tuple'])).toBeUndefined();
+    expect(toEntries('string')).toBeUndefined();
+    expect(toEntries(null)).toBeUndefined();
+    expect(toEntries(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,163 @@
+import { isPlainObject } from './isPlainObject';
+
+/**
+ * Determines if the provided value behaves like a `ReadonlyMap`.
+ *
+ * Native `Map`s (including `ExactKeyMap`) match, as do map-like objects such
+ * as `ImmutableExactKeyMap` that implement `ReadonlyMap` without extending
+ * `Map`.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a `Map` or implements `ReadonlyMap`; otherwise false.
+ */
+export const isReadonlyMap = (
+  value: unknown,
+): value is ReadonlyMap<unknown, unknown> => {
+  if (value instanceof Map) {
+    return true;
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.size === 'number' &&
+    typeof candidate.get === 'function' &&
+    typeof candidate.has === 'function' &&
+    typeof candidate.entries === 'function'
+  );
+};
+
+/**
+ * Determines if the provided value is a typed array (`Uint8Array`,
+ * `Float64Array`, ...). `DataView`s are not typed arrays.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a typed array; otherwise false.
+ */
+export const isTypedArray = (value: unknown): value is ArrayBufferView =>
+  ArrayBuffer.isView(value) && !(value instanceof DataView);
+
+/**
+ * Returns the bytes viewed by a typed array, without copying them.
+ *
+ * @param view - The typed array or `DataView`.
+ * @returns A `Uint8Array` over the same memory.
+ */
+export const bytesOf = (view: ArrayBufferView): Uint8Array =>
+  new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+
+const mapsEqual = (
+  a: ReadonlyMap<unknown, unknown>,
+  b: ReadonlyMap<unknown, unknown>,
+): boolean => {
+  if (a.size !== b.size) {
+    return false;
+  }
+
+  const unmatched = [...b.keys()].filter((key) => !a.has(key));
+
+  for (const [key, value] of a.entries()) {
+    if (b.has(key)) {
+      if (!deepEqual(value, b.get(key))) {
+        return false;
+      }
+      continue;
+    }
+
+    const index = unmatched.findIndex(
+      (candidate) =>
+        deepEqual(key, candidate) && deepEqual(value, b.get(candidate)),
+    );
+    if (index === -1) {
+      return false;
+    }
+    unmatched.splice(index, 1);
+  }
+
+  return true;
+};
+
+const typedArraysEqual = (a: ArrayBufferView, b: ArrayBufferView): boolean => {
+  if (a.constructor !== b.constructor || a.byteLength !== b.byteLength) {
+    return false;
+  }
+
+  const left = bytesOf(a);
+  const right = bytesOf(b);
+  return left.every((byte, index) => byte === right[index]);
+};
+
+const arraysEqual = (a: readonly unknown[], b: readonly unknown[]): boolean =>
+  a.length === b.length &&
+  a.every((value, index) => deepEqual(value, b[index]));
+
+const objectsEqual = (
+  a: Record<PropertyKey, unknown>,
+  b: Record<PropertyKey, unknown>,
+): boolean => {
+  const keys = Reflect.ownKeys(a);
+  return (
+    keys.length === Reflect.ownKeys(b).length &&
+    keys.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(b, key) &&
+        deepEqual(a[key], b[key]),
+    )
+  );
+};
+
+/**
+ * Compares two values structurally.
+ *
+ * Maps (native `Map`s, `ExactKeyMap`s and other `ReadonlyMap`s) are equal if
+ * they contain equal entries, regardless of insertion order or class. Typed
+ * arrays are compared byte-wise and must be of the same type, arrays element
+ * by element, `Date`s by their time value and plain objects by their own
+ * properties. Primitives and any other objects are compared with `Object.is`.
+ *
+ * @param a - The first value.
+ * @param b - The second value.
+ * @returns True if both values are structurally equal; otherwise false.
+ *
+ * @example
+ * ```ts
+ * deepEqual(new Map([['a', 1], ['b', 2]]), new Map([['b', 2], ['a', 1]])); // true
+ * deepEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2]));               // true
+ * deepEqual(new Uint8Array([1]), new Int8Array([1]));                      // false
+ * deepEqual(NaN, NaN);                                                     // true
+ * ```
+ */
+export const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (isReadonlyMap(a) || isReadonlyMap(b)) {
+    return isReadonlyMap(a) && isReadonlyMap(b) && mapsEqual(a, b);
+  }
+
+  if (isTypedArray(a) || isTypedArray(b)) {
+    return isTypedArray(a) && isTypedArray(b) && typedArraysEqual(a, b);
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && arraysEqual(a, b);
+  }
+
+  if (a instanceof Date || b instanceof Date) {
+    return (
+      a instanceof Date &&
+      b instanceof Date &&
+      Object.is(a.getTime(), b.getTime())
+    );
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    return objectsEqual(a, b);
+  }
+
+  return false;
+};
@@ -0,0 +1,109 @@
+import { bytesOf, isReadonlyMap, isTypedArray } from './deepEqual';
+import { isPlainObject } from './isPlainObject';
+
+const toHex = (view: ArrayBufferView): string =>
+  Array.from(bytesOf(view), (byte) => byte.toString(16).padStart(2, '0')).join(
+    '',
+  );
+
+const sortedJoin = (parts: string[]): string => parts.sort().join(',');
+
+/**
+ * Serializes a value into a string that is identical for structurally equal
+ * values (see `deepEqual`). Map entries and object properties are sorted, so
+ * insertion order does not matter. Values that `deepEqual` compares by
+ * reference are reduced to their type, which is stable but not unique.
+ */
+const canonicalize = (value: unknown): string => {
+  switch (typeof value) {
+    case 'string':
+      return JSON.stringify(value);
+    case 'number':
+      return `n${value}`;
+    case 'bigint':
+      return `b${value}`;
+    case 'symbol':
+      return `y${String(value)}`;
+    case 'function':
+      return `f${value.name}`;
+    case 'boolean':
+    case 'undefined':
+      return String(value);
+  }
+
+  if (value === null) {
+    return 'null';
+  }
+
+  if (isReadonlyMap(value)) {
+    const entries = Array.from(
+      value.entries(),
+      ([key, entry]) => `${canonicalize(key)}:${canonicalize(entry)}`,
+    );
+    return `M{${sortedJoin(entries)}}`;
+  }
+
+  if (isTypedArray(value)) {
+    return `${value.constructor.name}(${toHex(value)})`;
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+
+  if (value instanceof Date) {
+    return `D${value.getTime()}`;
+  }
+
+  if (isPlainObject(value)) {
+    const properties = Reflect.ownKeys(value).map(
+      (key) => `${canonicalize(key)}:${canonicalize(value[key])}`,
+    );
+    return `{${sortedJoin(properties)}}`;
+  }
+
+  return `o${(value as object).constructor?.name ?? ''}`;
+};
+
+/**
+ * Computes the 53-bit cyrb53 hash of a string.
+ */
+const cyrb53 = (input: string): number => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let index = 0; index < input.length; index++) {
+    const code = input.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+/**
+ * Computes a structural hash of a value.
+ *
+ * Values that are equal according to `deepEqual` always have the same hash,
+ * so the hash can be used to bucket or deduplicate maps before comparing them
+ * with `deepEqual`. Map entries are hashed regardless of insertion order and
+ * typed arrays by their bytes. The hash only depends on the value, so it is
+ * stable across processes, but different values may share a hash; objects
+ * that `deepEqual` compares by reference (class instances, functions, ...)
+ * only contribute their type.
+ *
+ * @param value - The value to hash.
+ * @returns A non-negative integer below `2 ** 53`.
+ *
+ * @example
+ * ```ts
+ * hash(new Map([['a', 1], ['b', 2]])) === hash(new Map([['b', 2], ['a', 1]])); // true
+ * hash(new Uint8Array([1, 2])) === hash(new Uint8Array([1, 3]));               // false
+ * ```
+ */
+export const hash = (value: unknown): number => cyrb53(canonicalize(value));
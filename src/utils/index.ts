@@ -1,2 +1,6 @@
+export * from './deepEqual';
+export * from './hash';
 export * from './isEntities';
 export * from './isEntry';
+export * from './isPlainObject';
+export * from './toEntries';
@@ -0,0 +1,29 @@
+/**
+ * Determines if the provided value is a plain object.
+ *
+ * A plain object is one created by an object literal, `Object.create(null)`
+ * or `new Object()`; arrays, class instances, `Map`s, `Date`s and typed arrays
+ * are not plain objects.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a plain object; otherwise false.
+ *
+ * @example
+ * ```ts
+ * isPlainObject({ a: 1 });             // true
+ * isPlainObject(Object.create(null));  // true
+ * isPlainObject([1, 2]);               // false
+ * isPlainObject(new Date());           // false
+ * isPlainObject(null);                 // false
+ * ```
+ */
+export const isPlainObject = (
+  value: unknown,
+): value is Record<PropertyKey, unknown> => {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
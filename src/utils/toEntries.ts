@@ -0,0 +1,31 @@
+import { isEntries } from './isEntities';
+import { Entry } from '@/types/Entry';
+
+/**
+ * Reads the key-value pairs of an entries array or a `Map`.
+ *
+ * This function accepts the two shapes that `ExactKeyMap` data commonly
+ * arrives in and returns a fresh array of entry tuples, so callers can treat
+ * both uniformly. Any other value yields `undefined`.
+ *
+ * @param value - The value to read entries from.
+ * @returns An array of entry tuples, or `undefined` if the value is neither an entries array nor a `Map`.
+ *
+ * @example
+ * ```ts
+ * toEntries([['name', 'Alice']]);          // [['name', 'Alice']]
+ * toEntries(new Map([['name', 'Alice']])); // [['name', 'Alice']]
+ * toEntries({ name: 'Alice' });            // undefined
+ * ```
+ */
+export const toEntries = (value: unknown): Entry[] | undefined => {
+  if (value instanceof Map) {
+    return [...value];
+  }
+
+  if (isEntries(value)) {
+    return [...value];
+  }
+
+  return undefined;
+};